@@ -33,7 +33,11 @@ const config: ETLConfig = {
   // Features
   enableGeocoding: process.env.ETL_ENABLE_GEOCODING === 'true',
   enableDeduplication: process.env.ETL_ENABLE_DEDUPLICATION !== 'false',
-  enableValidation: process.env.ETL_ENABLE_VALIDATION !== 'false'
+  enableValidation: process.env.ETL_ENABLE_VALIDATION !== 'false',
+
+  // Cache Invalidation
+  cachePurgeUrl: process.env.CACHE_PURGE_URL,
+  cachePurgeApiKey: process.env.CACHE_PURGE_API_KEY
 };
 
 // Validate configuration
@@ -12,6 +12,8 @@ import { Logger } from './utils/logger';
 import { DataValidator } from './utils/validator';
 import { MetricsCollector } from './utils/metrics';
 import { RateLimiter } from './utils/rateLimiter';
+import { CachePurger } from './utils/cachePurger';
+import { Tracer, Span } from './utils/tracer';
 import { mockFacilities, getMockApiResponse } from './mockData';
 import { fetchPublicFacilities, transformPublicApiResponse } from './publicApi';
 import { 
@@ -29,6 +31,8 @@ export class ETLPipeline {
   private validator: DataValidator;
   private metrics: MetricsCollector;
   private rateLimiter: RateLimiter;
+  private cachePurger: CachePurger;
+  private tracer: Tracer;
   private config: ETLConfig;
   private concurrencyLimit;
 
@@ -38,6 +42,8 @@ export class ETLPipeline {
     this.validator = new DataValidator();
     this.metrics = new MetricsCollector();
     this.rateLimiter = new RateLimiter(config.rateLimit || 10);
+    this.cachePurger = new CachePurger(config.cachePurgeUrl, config.cachePurgeApiKey);
+    this.tracer = new Tracer();
     this.concurrencyLimit = pLimit(config.concurrency || 5);
 
     // Initialize Supabase client
@@ -90,23 +96,43 @@ export class ETLPipeline {
     limit?: number;
   } = {}): Promise<ETLMetrics> {
     const startTime = Date.now();
-    this.logger.info('Starting ETL pipeline', options);
+    const runSpan = this.tracer.startSpan('etl.run');
+    runSpan.setAttribute('etl.full_sync', Boolean(options.fullSync));
+    this.logger.info('Starting ETL pipeline', { ...options, traceId: runSpan.context.traceId });
     
     try {
       // Step 1: Extract data
-      const extractedData = await this.extract(options);
+      const extractedData = await this.tracer.withSpan('etl.extract', runSpan, async span => {
+        const records = await this.extract(options);
+        span.setAttribute('etl.records', records.length);
+        return records;
+      });
       this.logger.info(`Extracted ${extractedData.length} records`);
 
       // Step 2: Transform data
-      const transformedData = await this.transform(extractedData);
+      const transformedData = await this.tracer.withSpan('etl.transform', runSpan, async span => {
+        const records = await this.transform(extractedData);
+        span.setAttribute('etl.records', records.length);
+        return records;
+      });
       this.logger.info(`Transformed ${transformedData.length} records`);
 
       // Step 3: Validate data
-      const validatedData = await this.validate(transformedData);
+      const validatedData = await this.tracer.withSpan('etl.validate', runSpan, async span => {
+        const result = await this.validate(transformedData);
+        span.setAttribute('etl.records.valid', result.valid.length);
+        span.setAttribute('etl.records.invalid', result.invalid.length);
+        return result;
+      });
       this.logger.info(`Validated ${validatedData.valid.length} records, rejected ${validatedData.invalid.length}`);
 
       // Step 4: Load data
-      const loadResult = await this.load(validatedData.valid);
+      const loadResult = await this.tracer.withSpan('etl.load', runSpan, async span => {
+        const result = await this.load(validatedData.valid, span);
+        span.setAttribute('etl.records.loaded', result.inserted + result.updated);
+        span.setAttribute('etl.records.failed', result.failed);
+        return result;
+      });
       this.logger.info(`Loaded ${loadResult.inserted} new, ${loadResult.updated} updated records`);
 
       // Step 5: Update sync status
@@ -124,8 +150,12 @@ export class ETLPipeline {
       return metrics;
 
     } catch (error) {
+      runSpan.setError(error);
       this.logger.error('ETL pipeline failed', error);
       throw error;
+    } finally {
+      runSpan.end();
+      await this.tracer.flush();
     }
   }
 
@@ -336,7 +366,7 @@ export class ETLPipeline {
   /**
    * Load phase - Insert/update data in Supabase
    */
-  private async load(records: TransformedFacility[]): Promise<{
+  private async load(records: TransformedFacility[], span?: Span): Promise<{
     inserted: number;
     updated: number;
     failed: number;
@@ -347,6 +377,7 @@ export class ETLPipeline {
     let inserted = 0;
     let updated = 0;
     let failed = 0;
+    const loaded: TransformedFacility[] = [];
 
     for (const [index, batch] of batches.entries()) {
       try {
@@ -366,6 +397,7 @@ export class ETLPipeline {
 
         // Track metrics (would need to query to determine insert vs update)
         inserted += batch.length; // Simplified - in reality would track separately
+        loaded.push(...batch);
         this.metrics.increment('records.loaded', batch.length);
 
       } catch (error) {
@@ -379,6 +411,7 @@ export class ETLPipeline {
             await this.supabase.from('facilities').upsert(record);
             failed--;
             inserted++;
+            loaded.push(record);
           } catch (individualError) {
             this.logger.error(`Failed to load record ${record.id}`, individualError);
           }
@@ -386,6 +419,12 @@ export class ETLPipeline {
       }
     }
 
+    // Drop cached searches that may show the old rows
+    if (this.cachePurger.enabled) {
+      const purged = await this.cachePurger.purgeFacilities(loaded, span?.traceparent());
+      this.metrics.increment('cache.purged', purged);
+    }
+
     return { inserted, updated, failed };
   }
 
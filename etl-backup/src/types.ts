@@ -96,6 +96,10 @@ export interface ETLConfig {
   enableGeocoding?: boolean;
   enableDeduplication?: boolean;
   enableValidation?: boolean;
+
+  // App cache purge endpoint, called after each load
+  cachePurgeUrl?: string;
+  cachePurgeApiKey?: string;
 }
 
 export interface ETLMetrics {
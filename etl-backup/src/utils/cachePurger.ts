@@ -0,0 +1,127 @@
+/**
+ * Cache purger for ETL pipeline
+ * Tells the app which cached searches the loaded facilities affect, via
+ * the tag purge endpoint (/api/admin/cache/purge)
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { Logger } from './logger';
+
+// Keep in step with CacheTags in src/lib/edge-cache.ts and
+// REGION_GEOHASH_PRECISION in src/lib/search-cache-key.ts
+const VIEWPORT_TAG = 'viewport';
+const NATIONWIDE_TAG = 'search:nationwide';
+const REGION_GEOHASH_PRECISION = 3;
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+const MAX_TAGS_PER_REQUEST = 500;
+
+// Same encoding as the app's search-cache-key.ts
+function encodeGeohash(latitude: number, longitude: number, precision: number): string {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let charIndex = 0;
+  let evenBit = true; // Bits alternate longitude, latitude
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const value = evenBit ? longitude : latitude;
+    const mid = (range[0] + range[1]) / 2;
+
+    if (value >= mid) {
+      charIndex = charIndex * 2 + 1;
+      range[0] = mid;
+    } else {
+      charIndex = charIndex * 2;
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[charIndex];
+      bits = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+}
+
+export class CachePurger {
+  private client: AxiosInstance | null = null;
+  private logger: Logger;
+
+  constructor(purgeUrl?: string, apiKey?: string) {
+    this.logger = new Logger('CachePurger');
+
+    if (purgeUrl) {
+      this.client = axios.create({
+        baseURL: purgeUrl,
+        timeout: 10000,
+        headers: {
+          'X-API-Key': apiKey || '',
+          'Content-Type': 'application/json'
+        }
+      });
+    }
+  }
+
+  get enabled(): boolean {
+    return this.client !== null;
+  }
+
+  /**
+   * Purge cached results showing these facilities, results in their
+   * states and searches covering their location or with no location
+   * (new facilities may now match), and map viewports
+   */
+  async purgeFacilities(
+    facilities: Array<{ id: string; state?: string; latitude?: number | null; longitude?: number | null }>,
+    traceparent?: string
+  ): Promise<number> {
+    if (!this.client || facilities.length === 0) {
+      return 0;
+    }
+
+    const tags = new Set<string>([VIEWPORT_TAG, NATIONWIDE_TAG]);
+    for (const facility of facilities) {
+      tags.add(`facility:${facility.id}`);
+      if (facility.state) {
+        tags.add(`state:${facility.state.toUpperCase()}`);
+      }
+      if (typeof facility.latitude === 'number' && typeof facility.longitude === 'number') {
+        tags.add(`region:${encodeGeohash(facility.latitude, facility.longitude, REGION_GEOHASH_PRECISION)}`);
+      }
+    }
+
+    return this.purgeTags(Array.from(tags), traceparent);
+  }
+
+  /**
+   * Purge entries by tag; failures are logged, not thrown, since stale
+   * cache entries still expire on their own. traceparent links the purge
+   * requests to the pipeline trace.
+   */
+  async purgeTags(tags: string[], traceparent?: string): Promise<number> {
+    if (!this.client) {
+      return 0;
+    }
+
+    let purged = 0;
+    for (let i = 0; i < tags.length; i += MAX_TAGS_PER_REQUEST) {
+      const chunk = tags.slice(i, i + MAX_TAGS_PER_REQUEST);
+      try {
+        const response = await this.client.post('', { tags: chunk }, {
+          headers: traceparent ? { traceparent } : undefined
+        });
+        purged += response.data?.purged || 0;
+      } catch (error: any) {
+        this.logger.warn(`Cache purge failed for ${chunk.length} tags`, error.message);
+      }
+    }
+
+    this.logger.info(`Purged ${purged} cached entries for ${tags.length} tags`);
+    return purged;
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Tracing utility for ETL pipeline
+ * Spans for each pipeline phase on the OpenTelemetry SDK, exported over
+ * OTLP/HTTP to the collector in OTEL_EXPORTER_OTLP_ENDPOINT like the app's
+ * src/lib/tracing.ts. Sampling (OTEL_TRACES_SAMPLER, OTEL_TRACES_SAMPLER_ARG)
+ * and batch limits (OTEL_BSP_*) use the standard SDK environment variables.
+ */
+
+import {
+  trace,
+  ROOT_CONTEXT,
+  Span as OtelSpan,
+  SpanKind,
+  SpanStatusCode,
+  TraceFlags
+} from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  ParentBasedSampler,
+  Sampler,
+  TraceIdRatioBasedSampler
+} from '@opentelemetry/sdk-trace-base';
+import { Logger } from './logger';
+
+export type AttributeValue = string | number | boolean;
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+const SPAN_KINDS = { internal: SpanKind.INTERNAL, client: SpanKind.CLIENT };
+
+// A run produces a handful of spans; these only bound a stuck exporter
+const DEFAULT_BATCH_LIMITS = {
+  maxQueueSize: 2048,
+  maxExportBatchSize: 512,
+  scheduledDelayMillis: 5000,
+  exportTimeoutMillis: 10000
+};
+
+export class Span {
+  constructor(readonly otelSpan: OtelSpan) {}
+
+  get context(): SpanContext {
+    const { traceId, spanId, traceFlags } = this.otelSpan.spanContext();
+    return { traceId, spanId, sampled: (traceFlags & TraceFlags.SAMPLED) === TraceFlags.SAMPLED };
+  }
+
+  setAttribute(key: string, value: AttributeValue): this {
+    this.otelSpan.setAttribute(key, value);
+    return this;
+  }
+
+  setError(error: any): this {
+    this.otelSpan.recordException(error instanceof Error ? error : String(error));
+    this.otelSpan.setStatus({ code: SpanStatusCode.ERROR, message: error?.message || String(error) });
+    return this;
+  }
+
+  end(): void {
+    this.otelSpan.end();
+  }
+
+  /**
+   * W3C traceparent header for outgoing requests made within this span
+   */
+  traceparent(): string {
+    const { traceId, spanId, sampled } = this.context;
+    return `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
+  }
+}
+
+// OTEL_TRACES_SAMPLER picks any standard sampler; without it,
+// OTEL_TRACES_SAMPLER_ARG alone is the fraction of new traces sampled
+function sampler(): Sampler | undefined {
+  if (process.env.OTEL_TRACES_SAMPLER) {
+    return undefined;
+  }
+  const ratio = parseFloat(process.env.OTEL_TRACES_SAMPLER_ARG || '1');
+  return new ParentBasedSampler({
+    root: new TraceIdRatioBasedSampler(Number.isFinite(ratio) ? Math.min(Math.max(ratio, 0), 1) : 1)
+  });
+}
+
+function batchLimits() {
+  const limits = { ...DEFAULT_BATCH_LIMITS };
+  const fromEnv: Array<[keyof typeof limits, string]> = [
+    ['maxQueueSize', 'OTEL_BSP_MAX_QUEUE_SIZE'],
+    ['maxExportBatchSize', 'OTEL_BSP_MAX_EXPORT_BATCH_SIZE'],
+    ['scheduledDelayMillis', 'OTEL_BSP_SCHEDULE_DELAY'],
+    ['exportTimeoutMillis', 'OTEL_BSP_EXPORT_TIMEOUT']
+  ];
+  for (const [option, variable] of fromEnv) {
+    const value = parseInt(process.env[variable] || '', 10);
+    if (Number.isFinite(value) && value > 0) limits[option] = value;
+  }
+  limits.maxExportBatchSize = Math.min(limits.maxExportBatchSize, limits.maxQueueSize);
+  return limits;
+}
+
+export class Tracer {
+  private logger: Logger;
+  private provider: BasicTracerProvider;
+  readonly enabled: boolean;
+
+  constructor(serviceName = process.env.OTEL_SERVICE_NAME || 'soberlivings-etl') {
+    this.logger = new Logger('Tracer');
+    this.enabled = process.env.OTEL_SDK_DISABLED !== 'true' && Boolean(
+      process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_ENDPOINT
+    );
+
+    // The exporter reads the endpoint and OTEL_EXPORTER_OTLP_HEADERS itself
+    this.provider = new BasicTracerProvider({
+      resource: resourceFromAttributes({ 'service.name': serviceName }),
+      sampler: sampler(),
+      spanProcessors: this.enabled ? [new BatchSpanProcessor(new OTLPTraceExporter(), batchLimits())] : []
+    });
+  }
+
+  /**
+   * Start a span; without a parent it starts a new trace
+   */
+  startSpan(name: string, parent?: Span, kind: keyof typeof SPAN_KINDS = 'internal'): Span {
+    const parentContext = parent ? trace.setSpan(ROOT_CONTEXT, parent.otelSpan) : ROOT_CONTEXT;
+    return new Span(
+      this.provider.getTracer('soberlivings-etl').startSpan(name, { kind: SPAN_KINDS[kind] }, parentContext)
+    );
+  }
+
+  /**
+   * Run fn inside a child span, recording failures on it
+   */
+  async withSpan<T>(name: string, parent: Span | undefined, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, parent);
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.setError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Export queued spans; called once per pipeline run
+   */
+  async flush(): Promise<void> {
+    try {
+      await this.provider.forceFlush();
+    } catch (error: any) {
+      this.logger.warn('Failed to export spans', error.message);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Jest configuration for the TypeScript API modules under src/lib and
+ * src/app. Supabase and next/server are replaced by the doubles in
+ * tests/support; everything else runs for real.
+ */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }]
+  },
+  moduleNameMapper: {
+    '^@/lib/supabase$': '<rootDir>/tests/support/supabase.ts',
+    '^next/server$': '<rootDir>/tests/support/next-server.ts',
+    '^@/(.*)$': '<rootDir>/src/$1'
+  }
+};
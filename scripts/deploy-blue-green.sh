@@ -64,7 +64,7 @@ echo ""
 # Function to check service health
 check_health() {
   local target=$1
-  local url="https://${target}.soberlivings.com/api/health/ready"
+  local url="https://${target}.soberlivings.com/api/ready"
   
   echo -e "${YELLOW}Checking health of ${target}...${NC}"
   
@@ -248,6 +248,25 @@ run_migrations() {
     log "Migrations completed"
 }
 
+# Encrypt plaintext operator PII left from before field encryption and set
+# its blind index; a no-op once everything is encrypted
+backfill_encrypted_fields() {
+    if [ -z "${INTERNAL_API_KEY:-}" ]; then
+        warning "INTERNAL_API_KEY not set; run POST /api/admin/encryption/reencrypt manually"
+        return
+    fi
+
+    log "Backfilling encrypted fields..."
+
+    if ! curl -f -s -X POST -H "X-API-Key: ${INTERNAL_API_KEY}" \
+        http://localhost:3002/api/admin/encryption/reencrypt | grep -q '"success":true'; then
+        warning "Re-encryption reported failures; check the response and run it again"
+        return
+    fi
+
+    log "Encrypted fields backfilled"
+}
+
 # Rollback deployment
 rollback() {
     error "Deployment failed, initiating rollback..."
@@ -368,6 +387,7 @@ main() {
     deploy_staging
     health_check
     run_migrations
+    backfill_encrypted_fields
     smoke_tests
     post_deployment
     
@@ -56,7 +56,7 @@ echo ""
 echo "Database Health:"
 echo "================"
 echo -n "Checking database connectivity... "
-db_check=$(curl -s "${BASE_URL}/api/health/ready" | grep -o '"database":"[^"]*"' | cut -d'"' -f4)
+db_check=$(curl -s "${BASE_URL}/api/ready" | grep -o '"database":{"status":"[^"]*"' | cut -d'"' -f6)
 if [[ "$db_check" == "healthy" ]]; then
   echo -e "${GREEN}✓ Connected${NC}"
 else
@@ -64,14 +64,13 @@ else
   HEALTH_STATUS=1
 fi
 
-# Redis connectivity
+# Cache backend (Redis) connectivity; requests fall back to the database
 echo -n "Checking Redis connectivity... "
-redis_check=$(curl -s "${BASE_URL}/api/health/ready" | grep -o '"redis":"[^"]*"' | cut -d'"' -f4)
+redis_check=$(curl -s "${BASE_URL}/api/ready" | grep -o '"cache":{"status":"[^"]*"' | cut -d'"' -f6)
 if [[ "$redis_check" == "healthy" ]]; then
   echo -e "${GREEN}✓ Connected${NC}"
 else
-  echo -e "${RED}✗ Connection failed${NC}"
-  HEALTH_STATUS=1
+  echo -e "${YELLOW}⚠ Unavailable (serving uncached)${NC}"
 fi
 echo ""
 
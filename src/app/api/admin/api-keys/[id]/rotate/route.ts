@@ -0,0 +1,39 @@
+/**
+ * API Key Rotation
+ * Issues a replacement key; the old one expires after a grace period
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { toErrorResponse } from '@/lib/api-errors';
+import { rotateApiKey } from '@/lib/api-keys';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withMetrics('/api/admin/api-keys/[id]/rotate', withAccess<{ params: { id: string } }>(
+  'update',
+  ({ params }) => `api_key:${params.id}`,
+  async (request: NextRequest, { params }, principal) => {
+    try {
+      const issued = await rotateApiKey(params.id, principal.id);
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'rotate_api_key',
+        resource: `api_key:${params.id}`,
+        result: 'success',
+        details: { replacedBy: issued.record.id }
+      });
+
+      return NextResponse.json(
+        { success: true, apiKey: issued.record, key: issued.key, replaces: params.id },
+        { status: 201, headers: { 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to rotate API key');
+    }
+  }
+));
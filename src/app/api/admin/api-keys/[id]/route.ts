@@ -0,0 +1,35 @@
+/**
+ * API Key Revocation
+ * Revokes a partner API key immediately; admins only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { toErrorResponse } from '@/lib/api-errors';
+import { revokeApiKey } from '@/lib/api-keys';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+
+export const dynamic = 'force-dynamic';
+
+export const DELETE = withMetrics('/api/admin/api-keys/[id]', withAccess<{ params: { id: string } }>(
+  'delete',
+  ({ params }) => `api_key:${params.id}`,
+  async (request: NextRequest, { params }, principal) => {
+    try {
+      const revoked = await revokeApiKey(params.id);
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'revoke_api_key',
+        resource: `api_key:${params.id}`,
+        result: 'success'
+      });
+
+      return NextResponse.json({ success: true, apiKey: revoked });
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to revoke API key');
+    }
+  }
+));
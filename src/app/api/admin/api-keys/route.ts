@@ -0,0 +1,105 @@
+/**
+ * API Key Administration
+ * Lists and issues partner API keys; admins only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { toErrorResponse, validationError } from '@/lib/api-errors';
+import {
+  createApiKey,
+  getApiKeyUsage,
+  getMonthlyQuota,
+  getUsagePeriod,
+  listApiKeys,
+  API_KEY_TIERS
+} from '@/lib/api-keys';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withMetrics('/api/admin/api-keys', withAccess(
+  'read',
+  'api_keys',
+  async (request: NextRequest, _context, principal) => {
+    try {
+      const period = getUsagePeriod();
+      const keys = await listApiKeys();
+
+      const withUsage = await Promise.all(keys.map(async key => ({
+        ...key,
+        usage: {
+          period,
+          used: await getApiKeyUsage(key.id, period),
+          quota: getMonthlyQuota(key)
+        }
+      })));
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'list_api_keys',
+        resource: 'api_keys',
+        result: 'success',
+        details: { count: withUsage.length }
+      });
+
+      return NextResponse.json({ success: true, count: withUsage.length, apiKeys: withUsage });
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to list API keys');
+    }
+  }
+));
+
+export const POST = withMetrics('/api/admin/api-keys', withAccess(
+  'create',
+  'api_keys',
+  async (request: NextRequest, _context, principal) => {
+    try {
+      const body = await request.json().catch(() => null);
+      if (!body || typeof body !== 'object') {
+        return validationError('Request body must be a JSON object');
+      }
+
+      const { name, tier, ownerEmail, monthlyQuota } = body;
+      if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+        return validationError('name must be a non-empty string of at most 100 characters', 'name');
+      }
+      if (!API_KEY_TIERS.includes(tier)) {
+        return validationError(`tier must be one of: ${API_KEY_TIERS.join(', ')}`, 'tier');
+      }
+      if (ownerEmail !== undefined && typeof ownerEmail !== 'string') {
+        return validationError('ownerEmail must be a string', 'ownerEmail');
+      }
+      if (monthlyQuota !== undefined && (!Number.isInteger(monthlyQuota) || monthlyQuota < 1)) {
+        return validationError('monthlyQuota must be a positive integer', 'monthlyQuota');
+      }
+
+      const issued = await createApiKey({
+        name: name.trim(),
+        tier,
+        ownerEmail,
+        monthlyQuota,
+        createdBy: principal.id
+      });
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'create_api_key',
+        resource: `api_key:${issued.record.id}`,
+        result: 'success',
+        details: { tier: issued.record.tier, name: issued.record.name }
+      });
+
+      // The plaintext key is never retrievable again
+      return NextResponse.json(
+        { success: true, apiKey: issued.record, key: issued.key },
+        { status: 201, headers: { 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to create API key');
+    }
+  }
+));
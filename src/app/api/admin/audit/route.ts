@@ -0,0 +1,112 @@
+/**
+ * Audit Log API
+ * Query the persisted audit log by user, action, resource, result and time
+ * range, newest first with cursor pagination, or export every matching
+ * entry as a CSV or NDJSON stream (format=csv|ndjson). Requires an
+ * admin; queries and exports are themselves audited.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { toErrorResponse, validationError } from '@/lib/api-errors';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+import { field, parseSearchParams } from '@/lib/request-schema';
+import { queryAuditLogs, streamAuditLogs, AuditLogFilters } from '@/lib/audit-query';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const auditParamsSchema = {
+  userId: field.string({ maxLength: 200 }),
+  action: field.string({ maxLength: 100 }),
+  resource: field.string({ maxLength: 200 }),
+  result: field.oneOf(['success', 'failure'] as const),
+  from: field.timestamp(),
+  to: field.timestamp(),
+  limit: field.integer({ min: 1, max: 500, default: 100 }),
+  cursor: field.string({ maxLength: 500 }),
+  format: field.oneOf(['json', 'csv', 'ndjson'] as const, { default: 'json' })
+};
+
+const EXPORT_CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson'
+};
+
+export const GET = withMetrics('/api/admin/audit', withAccess(
+  'read',
+  'audit_logs',
+  async (request: NextRequest, _context, principal) => {
+    try {
+      const params = parseSearchParams(request.nextUrl.searchParams, auditParamsSchema);
+
+      if (params.from && params.to && params.from >= params.to) {
+        return validationError('from must be earlier than to', 'from');
+      }
+
+      const filters: AuditLogFilters = {
+        userId: params.userId,
+        action: params.action,
+        resource: params.resource,
+        result: params.result,
+        from: params.from,
+        to: params.to
+      };
+      const auditedFilters = {
+        ...filters,
+        from: filters.from?.toISOString(),
+        to: filters.to?.toISOString()
+      };
+
+      if (params.format !== 'json') {
+        hipaaCompliance.logAccess({
+          userId: principal.id,
+          action: 'export_audit_logs',
+          resource: 'audit_logs',
+          result: 'success',
+          details: { format: params.format, filters: auditedFilters }
+        });
+
+        const filename = `audit-log-${new Date().toISOString().replace(/[:.]/g, '-')}.${params.format}`;
+        return new NextResponse(streamAuditLogs(filters, params.format), {
+          headers: {
+            'Content-Type': EXPORT_CONTENT_TYPES[params.format],
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'Cache-Control': 'no-store'
+          }
+        });
+      }
+
+      const page = await queryAuditLogs(filters, { limit: params.limit, cursor: params.cursor });
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'query_audit_logs',
+        resource: 'audit_logs',
+        result: 'success',
+        details: { filters: auditedFilters, count: page.entries.length }
+      });
+
+      let next: string | null = null;
+      if (page.nextCursor) {
+        const nextUrl = new URL(request.nextUrl);
+        nextUrl.searchParams.set('cursor', page.nextCursor);
+        next = `${nextUrl.pathname}${nextUrl.search}`;
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          count: page.entries.length,
+          entries: page.entries,
+          pagination: { limit: params.limit, nextCursor: page.nextCursor, next }
+        },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to query audit log');
+    }
+  }
+));
@@ -0,0 +1,47 @@
+/**
+ * Audit Chain Verification API
+ * Walks the hash-chained audit log and reports the first missing, edited
+ * or reordered entry; admins only. Pass fromSequence to
+ * resume from a previously verified head.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { toErrorResponse, validationError } from '@/lib/api-errors';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export const GET = withMetrics('/api/admin/audit/verify', withAccess(
+  'read',
+  'audit_logs',
+  async (request: NextRequest, _context, principal) => {
+    try {
+      const fromParam = request.nextUrl.searchParams.get('fromSequence');
+      const fromSequence = fromParam === null ? undefined : Number(fromParam);
+      if (fromSequence !== undefined && (!Number.isInteger(fromSequence) || fromSequence < 1)) {
+        return validationError('fromSequence must be a positive integer', 'fromSequence');
+      }
+
+      const verification = await hipaaCompliance.verifyAuditLogs(fromSequence);
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'verify_audit_chain',
+        resource: 'audit_logs',
+        result: verification.valid ? 'success' : 'failure',
+        details: { checked: verification.checked, brokenAt: verification.brokenAt?.sequence }
+      });
+
+      return NextResponse.json(
+        { success: true, ...verification },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to verify audit log');
+    }
+  }
+));
@@ -0,0 +1,53 @@
+/**
+ * Cache Purge API
+ * Purges edge-cached responses by tag (facility:<id>, state:CA, region:9q8,
+ * viewport).
+ * Called by the ETL after loads; admins only (internal-tier keys act as
+ * admins). Reaches other instances only when the edge cache is backed by
+ * Redis.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { toErrorResponse, validationError } from '@/lib/api-errors';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+import { EdgeCache } from '@/lib/edge-cache';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_TAGS = 1000;
+
+const cache = new EdgeCache();
+
+export const POST = withMetrics('/api/admin/cache/purge', withAccess(
+  'delete',
+  'edge_cache',
+  async (request: NextRequest, _context, principal) => {
+    try {
+      const body = await request.json().catch(() => null);
+      const tags = body?.tags;
+      if (!Array.isArray(tags) || tags.length === 0 || tags.length > MAX_TAGS) {
+        return validationError(`tags must be an array of 1-${MAX_TAGS} strings`, 'tags');
+      }
+      if (!tags.every(tag => typeof tag === 'string' && tag.length > 0 && tag.length <= 200)) {
+        return validationError('Each tag must be a non-empty string of at most 200 characters', 'tags');
+      }
+
+      const purged = await cache.purgeTags(tags);
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'purge_cache',
+        resource: 'edge_cache',
+        result: 'success',
+        details: { tags: tags.length, purged }
+      });
+
+      return NextResponse.json({ success: true, purged });
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to purge cache');
+    }
+  }
+));
@@ -0,0 +1,34 @@
+/**
+ * Cache Statistics API
+ * Edge cache counters (including database loads saved by request
+ * coalescing) and in-memory cache usage for this instance; admins only
+ */
+
+import { NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/api-errors';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+import { EdgeCache } from '@/lib/edge-cache';
+import { memoryOptimizer } from '@/lib/memory-optimizer';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withMetrics('/api/admin/cache', withAccess(
+  'read',
+  'edge_cache',
+  async () => {
+    try {
+      return NextResponse.json(
+        {
+          success: true,
+          edge: EdgeCache.getStats(),
+          memory: memoryOptimizer.getStats()
+        },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to read cache statistics');
+    }
+  }
+));
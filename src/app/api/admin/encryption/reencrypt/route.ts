@@ -0,0 +1,44 @@
+/**
+ * Re-encryption API
+ * Rewraps encrypted columns under the current master key after a key
+ * rotation and encrypts plaintext left from before field encryption;
+ * admins only. Safe to repeat: values already on the current key are left
+ * alone. Keep retired keys configured until it reports no failures.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { toErrorResponse } from '@/lib/api-errors';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+import { reencryptAll } from '@/lib/reencryption';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export const POST = withMetrics('/api/admin/encryption/reencrypt', withAccess(
+  'update',
+  'encryption_keys',
+  async (_request: NextRequest, _context, principal) => {
+    try {
+      const { keyId, results } = await reencryptAll();
+      const failed = results.reduce((sum, result) => sum + result.failed, 0);
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'reencrypt_data',
+        resource: 'encryption_keys',
+        result: failed === 0 ? 'success' : 'failure',
+        details: { keyId, results }
+      });
+
+      return NextResponse.json(
+        { success: failed === 0, keyId, results },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Re-encryption failed');
+    }
+  }
+));
@@ -0,0 +1,93 @@
+/**
+ * Operator Detail API
+ * Reads and updates one operator, including KYC status and approval;
+ * admins only. Approved, KYC-verified operators may manage their facility.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { errorResponse, toErrorResponse, validationError } from '@/lib/api-errors';
+import {
+  getOperator,
+  updateOperator,
+  validateOperatorChanges,
+  OPERATOR_CHANGE_FIELDS
+} from '@/lib/operators';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export const GET = withMetrics('/api/admin/operators/[id]', withAccess<{ params: { id: string } }>(
+  'read',
+  ({ params }) => `operator:${params.id}`,
+  async (_request: NextRequest, { params }, principal) => {
+    try {
+      const operator = await getOperator(params.id);
+      if (!operator) {
+        return errorResponse('NOT_FOUND', 'Operator not found', { field: 'id' });
+      }
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'view_operator',
+        resource: `operator:${params.id}`,
+        result: 'success'
+      });
+
+      return NextResponse.json(
+        { success: true, operator },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to load operator');
+    }
+  }
+));
+
+export const PATCH = withMetrics('/api/admin/operators/[id]', withAccess<{ params: { id: string } }>(
+  'update',
+  ({ params }) => `operator:${params.id}`,
+  async (request: NextRequest, { params }, principal) => {
+    try {
+      const body = await request.json().catch(() => null);
+      if (!body || typeof body !== 'object') {
+        return validationError('Request body must be a JSON object');
+      }
+
+      const invalid = validateOperatorChanges(body);
+      if (invalid) {
+        return validationError(invalid.message, invalid.field);
+      }
+
+      const operator = await updateOperator(params.id, {
+        name: body.name,
+        email: body.email,
+        phone: body.phone,
+        role: body.role,
+        kycVerified: body.kycVerified,
+        kycDocuments: body.kycDocuments,
+        approved: body.approved
+      }, principal.id);
+
+      // Field names only; values may be PII
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'update_operator',
+        resource: `operator:${params.id}`,
+        result: 'success',
+        details: { fields: OPERATOR_CHANGE_FIELDS.filter(field => body[field] !== undefined) }
+      });
+
+      return NextResponse.json(
+        { success: true, operator },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to update operator');
+    }
+  }
+));
@@ -0,0 +1,59 @@
+/**
+ * Operator Administration
+ * Registers facility operators; admins only. Contact details and KYC
+ * documents are encrypted before they are stored.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { toErrorResponse, validationError } from '@/lib/api-errors';
+import { createOperator, validateOperatorInput } from '@/lib/operators';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export const POST = withMetrics('/api/admin/operators', withAccess(
+  'create',
+  'operators',
+  async (request: NextRequest, _context, principal) => {
+    try {
+      const body = await request.json().catch(() => null);
+      if (!body || typeof body !== 'object') {
+        return validationError('Request body must be a JSON object');
+      }
+
+      const invalid = validateOperatorInput(body);
+      if (invalid) {
+        return validationError(invalid.message, invalid.field);
+      }
+
+      const operator = await createOperator({
+        facilityId: body.facilityId,
+        name: body.name,
+        email: body.email,
+        phone: body.phone,
+        role: body.role,
+        kycDocuments: body.kycDocuments
+      });
+
+      // PII stays out of the audit log
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'create_operator',
+        resource: `operator:${operator.id}`,
+        result: 'success',
+        details: { facilityId: operator.facilityId }
+      });
+
+      return NextResponse.json(
+        { success: true, operator },
+        { status: 201, headers: { 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to create operator');
+    }
+  }
+));
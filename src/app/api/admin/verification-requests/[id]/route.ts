@@ -0,0 +1,87 @@
+/**
+ * Verification Review API
+ * Reviewers read a verification request with its decrypted documents and
+ * approve or reject it. A request can only be reviewed once.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { errorResponse, toErrorResponse, validationError } from '@/lib/api-errors';
+import {
+  getVerificationRequest,
+  reviewVerificationRequest,
+  validateVerificationReview
+} from '@/lib/operators';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export const GET = withMetrics('/api/admin/verification-requests/[id]', withAccess<{ params: { id: string } }>(
+  'read',
+  'verification_requests',
+  async (_request: NextRequest, { params }, principal) => {
+    try {
+      const verificationRequest = await getVerificationRequest(params.id);
+      if (!verificationRequest) {
+        return errorResponse('NOT_FOUND', 'Verification request not found', { field: 'id' });
+      }
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'view_verification_request',
+        resource: `verification_requests:${params.id}`,
+        result: 'success'
+      });
+
+      return NextResponse.json(
+        { success: true, verificationRequest },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to load verification request');
+    }
+  }
+));
+
+export const PATCH = withMetrics('/api/admin/verification-requests/[id]', withAccess<{ params: { id: string } }>(
+  'review',
+  'verification_requests',
+  async (request: NextRequest, { params }, principal) => {
+    try {
+      const body = await request.json().catch(() => null);
+      if (!body || typeof body !== 'object') {
+        return validationError('Request body must be a JSON object');
+      }
+
+      const invalid = validateVerificationReview(body);
+      if (invalid) {
+        return validationError(invalid.message, invalid.field);
+      }
+
+      const verificationRequest = await reviewVerificationRequest(
+        params.id,
+        { status: body.status, notes: body.notes },
+        principal.id
+      );
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'review_verification_request',
+        resource: `verification_requests:${params.id}`,
+        result: 'success',
+        details: { status: verificationRequest.status, facilityId: verificationRequest.facilityId }
+      });
+
+      return NextResponse.json(
+        { success: true, verificationRequest },
+        { headers: { 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to review verification request');
+    }
+  }
+));
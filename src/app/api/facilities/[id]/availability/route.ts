@@ -0,0 +1,86 @@
+/**
+ * Facility Availability API
+ * Records a bed availability snapshot for a facility. Only the facility's
+ * approved operators and admins may submit updates.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { bulkOperationRateLimiter, rateLimitHeaders } from '@/lib/rate-limiter';
+import { consumeRequestRateLimit } from '@/lib/api-keys';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { recordAvailabilityUpdate, validateAvailabilityUpdate } from '@/lib/availability';
+import { errorResponse, toErrorResponse, validationError } from '@/lib/api-errors';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withMetrics('/api/facilities/[id]/availability', withAccess<{ params: { id: string } }>(
+  'update',
+  ({ params }) => `facility:${params.id}`,
+  async (request: NextRequest, { params }, principal) => {
+    const facilityId = params.id;
+
+    try {
+      // Writes share the bulk operation policy, counted per principal
+      const rateLimit = await consumeRequestRateLimit(request.headers, bulkOperationRateLimiter, {
+        principalId: principal.id
+      });
+      if (!rateLimit.allowed) {
+        return errorResponse('RATE_LIMIT_EXCEEDED', 'Rate limit exceeded. Please try again later.', {
+          headers: rateLimitHeaders(rateLimit)
+        });
+      }
+
+      const body = await request.json().catch(() => null);
+      if (!body || typeof body !== 'object') {
+        return validationError('Request body must be a JSON object');
+      }
+
+      const invalid = validateAvailabilityUpdate(body);
+      if (invalid) {
+        return validationError(invalid.message, invalid.field);
+      }
+
+      const snapshot = await recordAvailabilityUpdate({
+        facilityId,
+        availableBeds: body.availableBeds,
+        totalBeds: body.totalBeds,
+        waitlistCount: body.waitlistCount,
+        notes: typeof body.notes === 'string' ? body.notes : undefined,
+        submittedBy: principal.id
+      });
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'update_availability',
+        resource: `facility:${facilityId}`,
+        result: 'success',
+        details: { availableBeds: snapshot.availableBeds, totalBeds: snapshot.totalBeds }
+      });
+
+      return NextResponse.json(
+        { success: true, availability: snapshot },
+        { status: 201, headers: rateLimitHeaders(rateLimit) }
+      );
+
+    } catch (error: any) {
+      console.error('Availability update error:', error);
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'update_availability',
+        resource: `facility:${facilityId}`,
+        result: 'failure',
+        details: { error: error.message }
+      });
+
+      // Foreign key violation: no such facility
+      if (error?.code === '23503') {
+        return errorResponse('NOT_FOUND', 'Facility not found', { field: 'id' });
+      }
+
+      return toErrorResponse(error, 'Availability update failed');
+    }
+  }
+));
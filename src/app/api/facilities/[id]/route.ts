@@ -0,0 +1,180 @@
+/**
+ * Facility Detail API
+ * Full public facility record with latest availability, verification
+ * status, operator contacts and nearby similar facilities
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiRateLimiter, rateLimitHeaders } from '@/lib/rate-limiter';
+import { consumeRequestRateLimit } from '@/lib/api-keys';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { operatorFields, OperatorRow } from '@/lib/field-encryption';
+import { createClient } from '@/lib/supabase';
+import { toAvailabilitySnapshot } from '@/lib/availability';
+import { ApiError, errorMessage, errorResponse, toErrorResponse } from '@/lib/api-errors';
+import { field, parseSearchParams } from '@/lib/request-schema';
+import { withMetrics } from '@/lib/metrics';
+
+export const dynamic = 'force-dynamic';
+
+const detailParamsSchema = {
+  similarRadius: field.number({ min: 0.1, max: 100, default: 50 }), // Miles
+  similarLimit: field.integer({ min: 0, max: 20, default: 5 })
+};
+
+// Row returned by find_similar_facilities
+interface SimilarFacilityRow {
+  id: string;
+  name: string;
+  city: string | null;
+  state: string | null;
+  services: string[] | null;
+  verified: boolean;
+  latitude: number;
+  longitude: number;
+  distance: number; // Miles
+  services_overlap: number;
+  similarity: number;
+}
+
+type OperatorContactRow = Pick<OperatorRow, 'name' | 'role' | 'phone' | 'kycVerified' | 'approvedAt'>;
+
+export const GET = withMetrics('/api/facilities/[id]', getFacility);
+
+async function getFacility(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const startTime = Date.now();
+  const facilityId = params.id;
+
+  try {
+    // Check rate limit for this client
+    const rateLimit = await consumeRequestRateLimit(request.headers, apiRateLimiter);
+    if (!rateLimit.allowed) {
+      return errorResponse('RATE_LIMIT_EXCEEDED', 'Rate limit exceeded. Please try again later.', {
+        headers: rateLimitHeaders(rateLimit)
+      });
+    }
+
+    const { similarRadius, similarLimit } =
+      parseSearchParams(request.nextUrl.searchParams, detailParamsSchema);
+
+    const supabase = createClient();
+
+    const { data: facility, error } = await supabase
+      .from('facilities')
+      .select('*')
+      .eq('id', facilityId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!facility) {
+      return errorResponse('NOT_FOUND', 'Facility not found', { field: 'id' });
+    }
+
+    // Related lookups are independent of each other
+    const [availabilityResult, verificationResult, operatorsResult, similarResult] =
+      await Promise.all([
+        supabase
+          .from('availability_updates')
+          .select('availableBeds, totalBeds, waitlistCount, lastConfirmed')
+          .eq('facilityId', facilityId)
+          .order('lastConfirmed', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('verification_requests')
+          .select('requestType, status, reviewedAt, createdAt')
+          .eq('facilityId', facilityId)
+          .order('createdAt', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('operators')
+          .select('name, role, phone, kycVerified, approvedAt')
+          .eq('facilityId', facilityId),
+        similarLimit > 0
+          ? supabase.rpc('find_similar_facilities', {
+              target_id: facilityId,
+              radius_miles: similarRadius,
+              max_results: similarLimit
+            })
+          : Promise.resolve({ data: [], error: null })
+      ]);
+
+    for (const result of [availabilityResult, verificationResult, operatorsResult]) {
+      if (result.error) {
+        throw result.error;
+      }
+    }
+
+    // Related facilities are a nice-to-have; don't fail the page over them
+    if (similarResult.error) {
+      console.error('Similar facilities error:', similarResult.error);
+    }
+
+    const latestRequest = verificationResult.data;
+    const response = {
+      success: true,
+      facility: {
+        ...hipaaCompliance.minimizeFacilityDetail(facility),
+        availability: toAvailabilitySnapshot(availabilityResult.data),
+        verification: {
+          verified: facility.verified,
+          status: latestRequest?.status ?? null,
+          requestType: latestRequest?.requestType ?? null,
+          reviewedAt: latestRequest?.reviewedAt ?? null
+        },
+        // Only the approved operators' public fields are decrypted
+        operators: await Promise.all(
+          (operatorsResult.data as OperatorContactRow[] || [])
+            .map(operator => hipaaCompliance.minimizeOperatorContact(operator))
+            .filter(contact => contact !== null)
+            .map(contact => operatorFields.decrypt(contact))
+        )
+      },
+      similarFacilities: (similarResult.data as SimilarFacilityRow[] || []).map(row => ({
+        ...hipaaCompliance.minimizeFacilityData(row),
+        distance: Math.round(row.distance * 10) / 10,
+        servicesOverlap: Math.round(row.services_overlap * 100) / 100,
+        similarity: Math.round(row.similarity * 1000) / 1000
+      })),
+      responseTime: Date.now() - startTime
+    };
+
+    hipaaCompliance.logAccess({
+      action: 'view_facility',
+      resource: `facility:${facilityId}`,
+      result: 'success',
+      details: {
+        similarCount: response.similarFacilities.length,
+        responseTime: response.responseTime
+      }
+    });
+
+    return NextResponse.json(response, {
+      headers: {
+        ...rateLimitHeaders(rateLimit),
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+        'X-Response-Time': `${response.responseTime}ms`
+      }
+    });
+
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      console.error('Facility detail error:', error);
+    }
+
+    hipaaCompliance.logAccess({
+      action: 'view_facility',
+      resource: `facility:${facilityId}`,
+      result: 'failure',
+      details: { error: errorMessage(error) }
+    });
+
+    return toErrorResponse(error, 'Failed to load facility');
+  }
+}
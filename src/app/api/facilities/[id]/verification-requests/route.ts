@@ -0,0 +1,79 @@
+/**
+ * Facility Verification Requests API
+ * An operator submits a verification request, with supporting documents,
+ * for a facility they manage. Documents are encrypted before they are stored.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { bulkOperationRateLimiter, rateLimitHeaders } from '@/lib/rate-limiter';
+import { consumeRequestRateLimit } from '@/lib/api-keys';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { errorResponse, toErrorResponse, validationError } from '@/lib/api-errors';
+import { createVerificationRequest, validateVerificationRequest } from '@/lib/operators';
+import { withAccess } from '@/lib/route-access';
+import { withMetrics } from '@/lib/metrics';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export const POST = withMetrics('/api/facilities/[id]/verification-requests', withAccess<{ params: { id: string } }>(
+  'create',
+  ({ params }) => `verification_requests:${params.id}`,
+  async (request: NextRequest, { params }, principal) => {
+    const facilityId = params.id;
+
+    try {
+      // Writes share the bulk operation policy, counted per principal
+      const rateLimit = await consumeRequestRateLimit(request.headers, bulkOperationRateLimiter, {
+        principalId: principal.id
+      });
+      if (!rateLimit.allowed) {
+        return errorResponse('RATE_LIMIT_EXCEEDED', 'Rate limit exceeded. Please try again later.', {
+          headers: rateLimitHeaders(rateLimit)
+        });
+      }
+
+      const body = await request.json().catch(() => null);
+      if (!body || typeof body !== 'object') {
+        return validationError('Request body must be a JSON object');
+      }
+
+      const invalid = validateVerificationRequest(body);
+      if (invalid) {
+        return validationError(invalid.message, invalid.field);
+      }
+
+      const verificationRequest = await createVerificationRequest({
+        facilityId,
+        operatorId: principal.operatorIds?.[facilityId] ?? null,
+        requestType: body.requestType,
+        documents: body.documents,
+        notes: body.notes
+      });
+
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'create_verification_request',
+        resource: `facility:${facilityId}`,
+        result: 'success',
+        details: { verificationRequestId: verificationRequest.id, requestType: verificationRequest.requestType }
+      });
+
+      return NextResponse.json(
+        { success: true, verificationRequest },
+        { status: 201, headers: { ...rateLimitHeaders(rateLimit), 'Cache-Control': 'no-store' } }
+      );
+
+    } catch (error: any) {
+      hipaaCompliance.logAccess({
+        userId: principal.id,
+        action: 'create_verification_request',
+        resource: `facility:${facilityId}`,
+        result: 'failure',
+        details: { error: error.message }
+      });
+
+      return toErrorResponse(error, 'Failed to create verification request');
+    }
+  }
+));
@@ -4,84 +4,224 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { apiRateLimiter } from '@/lib/rate-limiter';
+import { searchRateLimiter, rateLimitHeaders } from '@/lib/rate-limiter';
+import { consumeRequestRateLimit } from '@/lib/api-keys';
 import { memoryOptimizer } from '@/lib/memory-optimizer';
 import { hipaaCompliance } from '@/lib/hipaa-compliance';
 import { createClient } from '@/lib/supabase';
-import { EdgeCache } from '@/lib/edge-cache';
+import { getGeocoder, GeocodeResult, MIN_SEARCH_RADIUS_MILES } from '@/lib/geocoder';
+import { toAvailabilitySnapshot, AvailabilityColumns } from '@/lib/availability';
+import { getRankingWeights, isTimeDependentSort, toFactorScores, FactorScoreColumns, SORT_MODES } from '@/lib/ranking';
+import { encodeCursor, decodeCursor, fingerprintQuery, SearchCursor } from '@/lib/search-cursor';
+import { ApiError, errorMessage, errorResponse, toErrorResponse, validationError } from '@/lib/api-errors';
+import { field, parseSearchParams, Infer } from '@/lib/request-schema';
+import { EdgeCache, CacheState, CacheTags } from '@/lib/edge-cache';
+import { buildCacheKey, coveringGeohashes, snapToGeohash } from '@/lib/search-cache-key';
+import { metricsRegistry, withMetrics, databaseErrors } from '@/lib/metrics';
+import { tracer, parseTraceparent } from '@/lib/tracing';
 
-// Initialize edge cache
+// Initialize edge cache and this route's in-memory tier; memory entries
+// expire quickly since purges on other instances don't reach them
 const cache = new EdgeCache();
+const memoryCache = memoryOptimizer.getCache('search', {
+  maxBytes: 32 * 1024 * 1024,
+  defaultTtlMs: 60 * 1000
+});
 
-export const runtime = 'edge';
+// Node.js runtime: the route shares this process's metrics registry and
+// caches with /api/metrics and the cache admin routes
+export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const revalidate = 60; // Cache for 1 minute
 
-interface SearchParams {
-  location?: string;
-  latitude?: number;
-  longitude?: number;
-  radius?: number;
-  services?: string[];
-  limit?: number;
-}
+const MATCH_MODES = ['any', 'all'] as const;
 
-// Haversine formula for distance calculation
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 3959; // Earth radius in miles
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
+// Declarative schema for the search query string
+const searchParamsSchema = {
+  q: field.string({ maxLength: 200 }),
+  location: field.string({ maxLength: 200 }),
+  latitude: field.number({ min: -90, max: 90 }),
+  longitude: field.number({ min: -180, max: 180 }),
+  radius: field.number({ min: 0.1, max: 100, default: 25 }), // Miles
+  services: field.list({ maxItems: 20 }),
+  insurance: field.list({ maxItems: 20 }),
+  insuranceMatch: field.oneOf(MATCH_MODES, { default: 'any' }),
+  amenities: field.list({ maxItems: 20 }),
+  amenitiesMatch: field.oneOf(MATCH_MODES, { default: 'any' }),
+  programs: field.list({ maxItems: 20 }),
+  programsMatch: field.oneOf(MATCH_MODES, { default: 'any' }),
+  minCapacity: field.integer({ min: 1 }),
+  verifiedOnly: field.boolean({ param: 'verified', default: false }),
+  hasOpenings: field.boolean({ default: false }),
+  maxWaitlist: field.integer({ min: 0 }),
+  sort: field.oneOf(SORT_MODES),
+  debug: field.boolean({ default: false }),
+  limit: field.integer({ min: 1, max: 200, default: 50 }),
+  cursor: field.string({ maxLength: 1024 })
+};
+
+type SearchParams = Infer<typeof searchParamsSchema>;
+
+const SEARCH_ENDPOINT = '/api/facilities/search-optimized';
 
-export async function GET(request: NextRequest) {
+const searchCacheResults = metricsRegistry.counter(
+  'search_cache_results_total',
+  'Search responses by cache tier (X-Cache header)',
+  ['tier']
+);
+
+export const GET = withMetrics(SEARCH_ENDPOINT, async (request: NextRequest) => {
   const startTime = Date.now();
 
+  // Server span for the request, continuing the caller's trace if any
+  return tracer.withSpan(`GET ${SEARCH_ENDPOINT}`, {
+    kind: 'server',
+    parent: parseTraceparent(request.headers.get('traceparent')),
+    attributes: { 'http.request.method': 'GET', 'url.path': SEARCH_ENDPOINT }
+  }, async span => {
+    const response = await search(request, startTime);
+
+    const tier = response.headers.get('X-Cache');
+    span.setAttributes({ 'http.response.status_code': response.status, 'cache.tier': tier ?? undefined });
+    if (response.status >= 500) {
+      span.setStatus('error');
+    }
+    response.headers.set('X-Trace-Id', span.traceId);
+
+    if (tier) {
+      searchCacheResults.inc({ tier: tier.toLowerCase() });
+    }
+
+    return response;
+  });
+});
+
+async function search(request: NextRequest, startTime: number): Promise<NextResponse> {
   try {
-    // Check rate limit
-    const canProceed = await apiRateLimiter.canMakeRequest();
-    if (!canProceed) {
-      return NextResponse.json(
-        { error: 'Rate limit exceeded. Please try again later.' },
-        { 
-          status: 429,
-          headers: {
-            'Retry-After': '60',
-            'X-RateLimit-Limit': '10',
-            'X-RateLimit-Remaining': '0'
-          }
-        }
+    // Check rate limit for this client
+    const rateLimit = await tracer.withSpan('rate_limit.consume', {}, () =>
+      consumeRequestRateLimit(request.headers, searchRateLimiter)
+    );
+    if (!rateLimit.allowed) {
+      return errorResponse('RATE_LIMIT_EXCEEDED', 'Rate limit exceeded. Please try again later.', {
+        headers: rateLimitHeaders(rateLimit)
+      });
+    }
+
+    // Parse and validate search parameters against the schema
+    const params: SearchParams = parseSearchParams(request.nextUrl.searchParams, searchParamsSchema);
+
+    // Text searches rank by relevance unless told otherwise
+    params.sort = params.sort ?? (params.q ? 'relevance' : 'distance');
+
+    if ((params.latitude === undefined) !== (params.longitude === undefined)) {
+      const missing = params.latitude === undefined ? 'latitude' : 'longitude';
+      return validationError('latitude and longitude must be provided together', missing);
+    }
+
+    // Resolve a free-text location when coordinates aren't supplied
+    let resolvedLocation: GeocodeResult | null = null;
+    if (params.latitude === undefined && params.location) {
+      // Search text stays out of span attributes
+      resolvedLocation = await tracer.withSpan('geocode', {}, () =>
+        getGeocoder().geocode(params.location!)
+      );
+      if (!resolvedLocation) {
+        return validationError(`Could not resolve location "${params.location}"`, 'location');
+      }
+      // No search radius covers a state from its centroid
+      if (resolvedLocation.precision === 'state') {
+        return validationError(
+          `Location "${params.location}" is a whole state; give a city or ZIP code`,
+          'location'
+        );
+      }
+      params.latitude = resolvedLocation.latitude;
+      params.longitude = resolvedLocation.longitude;
+      // Coarse results widen the radius to the area they stand for
+      params.radius = Math.max(params.radius!, MIN_SEARCH_RADIUS_MILES[resolvedLocation.precision] ?? 0);
+    }
+
+    // A text query may search nationwide
+    const hasCoordinates = params.latitude !== undefined && params.longitude !== undefined;
+    if (!hasCoordinates && !params.q) {
+      return validationError(
+        'Latitude and longitude, a location, or a search query (q) are required',
+        'location'
       );
     }
 
-    // Parse search parameters
-    const searchParams = request.nextUrl.searchParams;
-    const params: SearchParams = {
-      location: searchParams.get('location') || undefined,
-      latitude: searchParams.get('latitude') ? parseFloat(searchParams.get('latitude')!) : undefined,
-      longitude: searchParams.get('longitude') ? parseFloat(searchParams.get('longitude')!) : undefined,
-      radius: searchParams.get('radius') ? parseInt(searchParams.get('radius')!) : 25,
-      services: searchParams.get('services')?.split(',').filter(Boolean),
-      limit: Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+    if (!hasCoordinates && params.sort === 'distance') {
+      return validationError('sort=distance requires a location', 'sort');
+    }
+
+    // Search from the centre of the point's geohash cell so nearby requests
+    // share cache entries; distances are measured from that centre
+    let geohash: string | undefined;
+    if (hasCoordinates) {
+      const snapped = snapToGeohash(params.latitude!, params.longitude!);
+      params.latitude = snapped.latitude;
+      params.longitude = snapped.longitude;
+      geohash = snapped.geohash;
+    }
+
+    // Every parameter that changes which rows match or their order
+    const queryParams = {
+      q: params.q?.trim().replace(/\s+/g, ' ').toLowerCase(),
+      geohash,
+      radius: hasCoordinates ? params.radius : undefined,
+      services: params.services,
+      insurance: params.insurance,
+      insuranceMatch: params.insurance?.length ? params.insuranceMatch : undefined,
+      amenities: params.amenities,
+      amenitiesMatch: params.amenities?.length ? params.amenitiesMatch : undefined,
+      programs: params.programs,
+      programsMatch: params.programs?.length ? params.programsMatch : undefined,
+      minCapacity: params.minCapacity,
+      verified: params.verifiedOnly,
+      hasOpenings: params.hasOpenings,
+      maxWaitlist: params.maxWaitlist,
+      sort: params.sort
     };
 
-    // Input validation
-    if (!params.latitude || !params.longitude) {
-      return NextResponse.json(
-        { error: 'Latitude and longitude are required' },
-        { status: 400 }
-      );
+    // Decode pagination cursor; it must belong to this exact search
+    const queryFingerprint = fingerprintQuery([buildCacheKey('query', queryParams)]);
+    let cursor: SearchCursor | null = null;
+    if (params.cursor) {
+      cursor = decodeCursor(params.cursor);
+      if (!cursor || cursor.query !== queryFingerprint) {
+        return validationError('Invalid or expired cursor', 'cursor');
+      }
     }
 
-    // Generate cache key
-    const cacheKey = `search:${params.latitude}:${params.longitude}:${params.radius}:${params.services?.join(',')}`;
-    
+    // Page size, debug output and position change the page itself;
+    // writes purge affected entries by tag
+    const cacheKey = buildCacheKey('search', {
+      ...queryParams,
+      limit: params.limit,
+      debug: params.debug,
+      cursor: params.cursor
+    });
+
+    // Cached pages are shared, so per-request fields are added on the way out
+    const respond = (page: SearchPage) => ({
+      success: true,
+      count: page.count,
+      searchParams: params,
+      resolvedLocation,
+      facilities: page.facilities,
+      pagination: {
+        ...page.pagination,
+        next: page.pagination.nextCursor ? buildPageLink(request, page.pagination.nextCursor) : null,
+        prev: page.pagination.prevCursor ? buildPageLink(request, page.pagination.prevCursor) : null
+      },
+      responseTime: Date.now() - startTime
+    });
+
     // Check memory cache first (fastest)
-    const memCached = memoryOptimizer.getCachedData(cacheKey);
+    const memorySpan = tracer.startSpan('cache.memory.get', { attributes: { 'cache.namespace': 'search' } });
+    const memCached: SearchPage | null = memoryCache.get(cacheKey);
+    memorySpan.setAttribute('cache.hit', memCached !== null).end();
     if (memCached) {
       // Log access for HIPAA compliance
       hipaaCompliance.logAccess({
@@ -91,91 +231,80 @@ export async function GET(request: NextRequest) {
         details: { source: 'memory_cache', responseTime: Date.now() - startTime }
       });
 
-      return NextResponse.json(memCached, {
+      return NextResponse.json(respond(memCached), {
         headers: {
+          ...rateLimitHeaders(rateLimit),
           'X-Cache': 'HIT-MEMORY',
           'X-Response-Time': `${Date.now() - startTime}ms`
         }
       });
     }
 
-    // Check edge cache (second fastest)
-    const edgeCached = await cache.get(cacheKey);
-    if (edgeCached) {
-      // Store in memory cache for next request
-      memoryOptimizer.cacheData(cacheKey, edgeCached);
+    // Edge cache (second fastest); stale entries are served while a
+    // background refresh runs
+    let page: SearchPage;
+    let cacheState: CacheState;
+    try {
+      ({ value: page, state: cacheState } = await tracer.withSpan('cache.edge.get_or_set', {}, async span => {
+        const result = await cache.getOrSet(
+          cacheKey,
+          () => loadSearchPage(params, cursor, queryFingerprint),
+          {
+            ttl: 300, // 5 minutes
+            staleWhileRevalidate: 600,
+            refreshAhead: 30,
+            tags: loaded => getSearchCacheTags(params, loaded.facilities)
+          }
+        );
+        span.setAttribute('cache.state', result.state);
+        return result;
+      }));
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.code !== 'DATABASE_ERROR') {
+        throw error;
+      }
 
-      hipaaCompliance.logAccess({
-        action: 'search_facilities_cached',
-        resource: 'facilities',
-        result: 'success',
-        details: { source: 'edge_cache', responseTime: Date.now() - startTime }
-      });
+      databaseErrors.inc({ endpoint: SEARCH_ENDPOINT });
 
-      return NextResponse.json(edgeCached, {
+      // Fall back to mock data if database fails
+      const mockData = await getMockFacilities(params);
+      return NextResponse.json(mockData, {
         headers: {
-          'X-Cache': 'HIT-EDGE',
+          ...rateLimitHeaders(rateLimit),
+          'X-Cache': 'MISS-MOCK',
           'X-Response-Time': `${Date.now() - startTime}ms`
         }
       });
     }
 
-    // Database query with optimized batch size
-    const batchSize = memoryOptimizer.getOptimalBatchSize();
-    const supabase = createClient();
-
-    // Optimized query with proper indexing
-    let query = supabase
-      .from('facilities')
-      .select('id, name, city, state, zip, phone, website, services, latitude, longitude')
-      .eq('isResidential', true)
-      .limit(batchSize);
-
-    // Add service filters if provided
-    if (params.services && params.services.length > 0) {
-      query = query.contains('services', params.services);
-    }
+    if (cacheState === 'hit' || cacheState === 'stale') {
+      // Stale copies stay out of the memory tier so the refresh replaces them
+      if (cacheState === 'hit') {
+        memoryCache.set(cacheKey, page);
+      }
 
-    const { data: facilities, error } = await query;
+      hipaaCompliance.logAccess({
+        action: 'search_facilities_cached',
+        resource: 'facilities',
+        result: 'success',
+        details: {
+          source: 'edge_cache',
+          stale: cacheState === 'stale',
+          responseTime: Date.now() - startTime
+        }
+      });
 
-    if (error) {
-      console.error('Database error:', error);
-      // Fall back to mock data if database fails
-      const mockData = await getMockFacilities(params);
-      return NextResponse.json(mockData, {
+      return NextResponse.json(respond(page), {
         headers: {
-          'X-Cache': 'MISS-MOCK',
+          ...rateLimitHeaders(rateLimit),
+          'X-Cache': cacheState === 'hit' ? 'HIT-EDGE' : 'STALE-EDGE',
           'X-Response-Time': `${Date.now() - startTime}ms`
         }
       });
     }
 
-    // Calculate distances and sort
-    const facilitiesWithDistance = facilities
-      ?.map(facility => ({
-        ...hipaaCompliance.minimizeFacilityData(facility),
-        distance: calculateDistance(
-          params.latitude!,
-          params.longitude!,
-          facility.latitude,
-          facility.longitude
-        )
-      }))
-      .filter(f => f.distance <= params.radius!)
-      .sort((a, b) => a.distance - b.distance)
-      .slice(0, params.limit!);
-
-    const response = {
-      success: true,
-      count: facilitiesWithDistance?.length || 0,
-      searchParams: params,
-      facilities: facilitiesWithDistance || [],
-      responseTime: Date.now() - startTime
-    };
-
-    // Cache the response
-    await cache.set(cacheKey, response, { ttl: 300 }); // 5 minutes
-    memoryOptimizer.cacheData(cacheKey, response);
+    memoryCache.set(cacheKey, page);
+    const response = respond(page);
 
     // Log successful access
     hipaaCompliance.logAccess({
@@ -190,32 +319,195 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(response, {
       headers: {
+        ...rateLimitHeaders(rateLimit),
         'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
-        'X-Cache': 'MISS',
+        'X-Cache': cacheState === 'coalesced' ? 'MISS-COALESCED' : 'MISS',
         'X-Response-Time': `${response.responseTime}ms`
       }
     });
 
-  } catch (error: any) {
-    console.error('Search error:', error);
-    
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      console.error('Search error:', error);
+    }
+
     hipaaCompliance.logAccess({
       action: 'search_facilities',
       resource: 'facilities',
       result: 'failure',
-      details: { error: error.message }
+      details: { error: errorMessage(error) }
     });
 
-    return NextResponse.json(
-      { 
-        error: 'Search failed',
-        message: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
-      },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Search failed');
   }
 }
 
+type SearchPage = Awaited<ReturnType<typeof loadSearchPage>>;
+
+// Row returned by search_facilities_nearby
+interface FacilitySearchRow extends AvailabilityColumns, FactorScoreColumns {
+  id: string;
+  name: string;
+  description: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  phone: string | null;
+  website: string | null;
+  services: string[] | null;
+  acceptedInsurance: string[] | null;
+  amenities: string[] | null;
+  programs: string[] | null;
+  capacity: number | null;
+  verified: boolean;
+  data_quality: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  distance: number | null; // Miles; null without search coordinates
+  sort_key: number;
+  name_highlight: string | null;
+  snippet: string | null;
+}
+
+// Run the search in the database and build the (cacheable) result page
+async function loadSearchPage(
+  params: SearchParams,
+  cursor: SearchCursor | null,
+  queryFingerprint: string
+) {
+  const hasCoordinates = params.latitude !== undefined && params.longitude !== undefined;
+
+  // Radius filter, scoring and ordering run in the database so the
+  // best matches are found across the full table
+  const weights = getRankingWeights(Boolean(params.q));
+  // Later pages keep the first page's scoring time so rows can't move
+  // across the page boundary as availability ages
+  const asOf = isTimeDependentSort(params.sort!) ? cursor?.asOf ?? Date.now() : undefined;
+  const supabase = createClient();
+  const { data: facilities, error } = await tracer.withSpan('supabase.rpc search_facilities_nearby', {
+    kind: 'client',
+    attributes: { 'db.system': 'postgresql', 'db.operation.name': 'search_facilities_nearby' }
+  }, async span => {
+    const result = await supabase.rpc('search_facilities_nearby', {
+      search_lat: hasCoordinates ? params.latitude : null,
+      search_lng: hasCoordinates ? params.longitude : null,
+      radius_miles: params.radius,
+      service_filter: params.services && params.services.length > 0 ? params.services : null,
+      // One extra row tells us whether another page exists
+      max_results: params.limit! + 1,
+      cursor_value: cursor?.value ?? null,
+      cursor_id: cursor?.id ?? null,
+      reverse_order: cursor?.direction === 'prev',
+      insurance_filter: params.insurance && params.insurance.length > 0 ? params.insurance : null,
+      insurance_match_all: params.insuranceMatch === 'all',
+      amenity_filter: params.amenities && params.amenities.length > 0 ? params.amenities : null,
+      amenity_match_all: params.amenitiesMatch === 'all',
+      program_filter: params.programs && params.programs.length > 0 ? params.programs : null,
+      program_match_all: params.programsMatch === 'all',
+      min_capacity: params.minCapacity ?? null,
+      verified_only: params.verifiedOnly,
+      has_openings: params.hasOpenings,
+      max_waitlist: params.maxWaitlist ?? null,
+      sort_mode: params.sort,
+      weight_distance: weights.distance,
+      weight_quality: weights.quality,
+      weight_verified: weights.verified,
+      weight_availability: weights.availability,
+      text_query: params.q ?? null,
+      weight_text: weights.text,
+      reference_time: asOf === undefined ? null : new Date(asOf).toISOString()
+    });
+    span.setAttribute('db.response.returned_rows', result.data?.length ?? 0);
+    if (result.error) {
+      span.setStatus('error', result.error.message);
+    }
+    return result;
+  });
+
+  if (error) {
+    console.error('Database error:', error);
+    throw new ApiError('DATABASE_ERROR', 'Search query failed');
+  }
+
+  const rows: FacilitySearchRow[] = facilities || [];
+  const hasMore = rows.length > params.limit!;
+  const pageRows = rows.slice(0, params.limit);
+
+  // Backwards pages come back in descending order
+  const goingBack = cursor?.direction === 'prev';
+  if (goingBack) {
+    pageRows.reverse();
+  }
+
+  const facilitiesWithDistance = pageRows.map(facility => ({
+    ...hipaaCompliance.minimizeFacilityData(facility),
+    availability: toAvailabilitySnapshot(facility),
+    distance: facility.distance,
+    ...(params.q ? { highlight: { name: facility.name_highlight, snippet: facility.snippet } } : {}),
+    ...(params.debug ? { scores: toFactorScores(facility) } : {})
+  }));
+
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+  const hasNext = goingBack || hasMore;
+  const hasPrev = goingBack ? hasMore : cursor !== null;
+
+  const nextCursor = hasNext && last
+    ? encodeCursor({ value: last.sort_key, id: last.id, direction: 'next', query: queryFingerprint, asOf })
+    : null;
+  const prevCursor = hasPrev && first
+    ? encodeCursor({ value: first.sort_key, id: first.id, direction: 'prev', query: queryFingerprint, asOf })
+    : null;
+
+  return {
+    count: facilitiesWithDistance.length,
+    facilities: facilitiesWithDistance,
+    pagination: {
+      limit: params.limit,
+      nextCursor,
+      prevCursor
+    }
+  };
+}
+
+// Tag a cached page with the facilities and states it shows; pages whose
+// membership or order depends on availability also carry the availability tag
+function getSearchCacheTags(params: SearchParams, facilities: Array<{ id: string; state?: string | null }>): string[] {
+  const tags = facilities.map(facility => CacheTags.facility(facility.id));
+  for (const facility of facilities) {
+    if (facility.state) {
+      tags.push(CacheTags.state(facility.state));
+    }
+  }
+
+  // Tag the area searched as well, so loading a facility there purges
+  // pages it was missing from, empty ones included
+  if (params.latitude !== undefined && params.longitude !== undefined) {
+    for (const geohash of coveringGeohashes(params.latitude, params.longitude, params.radius!)) {
+      tags.push(CacheTags.region(geohash));
+    }
+  } else {
+    tags.push(CacheTags.NATIONWIDE);
+  }
+
+  const dependsOnAvailability = params.hasOpenings ||
+    params.maxWaitlist !== undefined ||
+    params.sort === 'availability' ||
+    params.sort === 'relevance';
+  if (dependsOnAvailability) {
+    tags.push(CacheTags.AVAILABILITY_FILTERED);
+  }
+
+  return tags;
+}
+
+// Relative link to another page of the same search
+function buildPageLink(request: NextRequest, cursor: string): string {
+  const url = new URL(request.nextUrl.toString());
+  url.searchParams.set('cursor', cursor);
+  return `${url.pathname}${url.search}`;
+}
+
 // Mock data fallback for when database is unavailable
 async function getMockFacilities(params: SearchParams) {
   const mockFacilities = [
@@ -0,0 +1,317 @@
+/**
+ * Map Viewport Facility Search API
+ * Bounding-box search for the map UI: grid clusters at low zoom,
+ * individual facilities once zoomed in
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { searchRateLimiter, rateLimitHeaders } from '@/lib/rate-limiter';
+import { consumeRequestRateLimit } from '@/lib/api-keys';
+import { memoryOptimizer } from '@/lib/memory-optimizer';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { createClient } from '@/lib/supabase';
+import { toAvailabilitySnapshot, AvailabilityColumns } from '@/lib/availability';
+import {
+  countClusterCells,
+  getClusterCellSize,
+  shouldCluster,
+  snapViewport,
+  toMapCluster,
+  validateViewport,
+  Viewport,
+  CLUSTER_MAX_ZOOM,
+  MapCluster,
+  MapClusterRow,
+  MAX_CLUSTER_CELLS,
+  MIN_ZOOM,
+  MAX_ZOOM
+} from '@/lib/map-viewport';
+import { ApiError, errorMessage, errorResponse, toErrorResponse, validationError } from '@/lib/api-errors';
+import { field, parseSearchParams } from '@/lib/request-schema';
+import { EdgeCache, CacheTags } from '@/lib/edge-cache';
+import { buildCacheKey } from '@/lib/search-cache-key';
+import { withMetrics } from '@/lib/metrics';
+
+// Initialize edge cache and this route's in-memory tier; memory entries
+// expire quickly since purges on other instances don't reach them
+const cache = new EdgeCache();
+const memoryCache = memoryOptimizer.getCache('viewport', {
+  maxBytes: 16 * 1024 * 1024,
+  defaultTtlMs: 60 * 1000
+});
+
+// Node.js runtime: the route shares this process's metrics registry and
+// caches with /api/metrics and the cache admin routes
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 60; // Cache for 1 minute
+
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 1000;
+
+// Row returned by search_facilities_in_viewport
+interface ViewportFacilityRow extends AvailabilityColumns {
+  id: string;
+  name: string;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  phone: string | null;
+  website: string | null;
+  services: string[] | null;
+  capacity: number | null;
+  verified: boolean;
+  latitude: number;
+  longitude: number;
+}
+
+type ViewportFacility = ReturnType<typeof toViewportFacility>;
+
+type ViewportResults =
+  | { mode: 'clusters'; count: number; clusters: MapCluster[] }
+  | { mode: 'facilities'; count: number; truncated: boolean; facilities: ViewportFacility[] };
+
+// Response body, as cached
+type ViewportResponse = ViewportResults & {
+  success: true;
+  zoom: number;
+  clusterMaxZoom: number;
+  viewport: Viewport;
+  responseTime: number;
+};
+
+const viewportParamsSchema = {
+  north: field.number({ required: true, min: -90, max: 90 }),
+  south: field.number({ required: true, min: -90, max: 90 }),
+  east: field.number({ required: true, min: -180, max: 180 }),
+  west: field.number({ required: true, min: -180, max: 180 }),
+  zoom: field.integer({ required: true, min: MIN_ZOOM, max: MAX_ZOOM }),
+  services: field.list({ maxItems: 20 }),
+  verifiedOnly: field.boolean({ param: 'verified', default: false }),
+  hasOpenings: field.boolean({ default: false }),
+  limit: field.integer({ min: 1, max: MAX_LIMIT, default: DEFAULT_LIMIT })
+};
+
+export const GET = withMetrics('/api/facilities/viewport', getViewport);
+
+async function getViewport(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    // Check rate limit for this client
+    const rateLimit = await consumeRequestRateLimit(request.headers, searchRateLimiter);
+    if (!rateLimit.allowed) {
+      return errorResponse('RATE_LIMIT_EXCEEDED', 'Rate limit exceeded. Please try again later.', {
+        headers: rateLimitHeaders(rateLimit)
+      });
+    }
+
+    // Parse and validate viewport parameters
+    const { zoom, services, verifiedOnly, hasOpenings, limit, ...requested } =
+      parseSearchParams(request.nextUrl.searchParams, viewportParamsSchema);
+
+    const viewportError = validateViewport(requested);
+    if (viewportError) {
+      return validationError(viewportError, 'south');
+    }
+
+    const clustered = shouldCluster(zoom);
+    const cellSize = getClusterCellSize(zoom);
+    // Clusters are computed over whole cells so nearby viewports share results
+    const viewport = clustered ? snapViewport(requested, cellSize) : requested;
+    if (clustered && countClusterCells(viewport, cellSize) > MAX_CLUSTER_CELLS) {
+      return validationError(
+        `The viewport spans more than ${MAX_CLUSTER_CELLS} clusters at zoom ${zoom}; zoom out or request a smaller area`,
+        'zoom'
+      );
+    }
+
+    // Same cache tiers and key canonicalization as search-optimized
+    const cacheKey = buildCacheKey('viewport', {
+      mode: clustered ? 'clusters' : 'facilities',
+      zoom,
+      north: viewport.north,
+      south: viewport.south,
+      east: viewport.east,
+      west: viewport.west,
+      services,
+      verified: verifiedOnly,
+      hasOpenings,
+      // Cluster responses aren't limited
+      limit: clustered ? undefined : limit
+    });
+
+    // Check memory cache first (fastest)
+    const memCached = memoryCache.get(cacheKey);
+    if (memCached) {
+      hipaaCompliance.logAccess({
+        action: 'viewport_search_cached',
+        resource: 'facilities',
+        result: 'success',
+        details: { source: 'memory_cache', responseTime: Date.now() - startTime }
+      });
+
+      return NextResponse.json(memCached, {
+        headers: {
+          ...rateLimitHeaders(rateLimit),
+          'X-Cache': 'HIT-MEMORY',
+          'X-Response-Time': `${Date.now() - startTime}ms`
+        }
+      });
+    }
+
+    // Edge cache (second fastest); stale entries are served while a
+    // background refresh runs
+    const { value: response, state: cacheState } = await cache.getOrSet(
+      cacheKey,
+      async (): Promise<ViewportResponse> => {
+        const supabase = createClient();
+        const filters = {
+          north: viewport.north,
+          south: viewport.south,
+          east: viewport.east,
+          west: viewport.west,
+          service_filter: services && services.length > 0 ? services : null,
+          verified_only: verifiedOnly,
+          has_openings: hasOpenings
+        };
+
+        let body: ViewportResults;
+        if (clustered) {
+          const { data, error } = await supabase.rpc('cluster_facilities_in_viewport', {
+            ...filters,
+            cell_size: cellSize
+          });
+          if (error) {
+            throw error;
+          }
+
+          const rows: MapClusterRow[] = data || [];
+          const clusters = rows.map(row => toMapCluster(row, zoom));
+          body = {
+            mode: 'clusters',
+            count: clusters.reduce((total, cluster) => total + cluster.count, 0),
+            clusters
+          };
+        } else {
+          const { data, error } = await supabase.rpc('search_facilities_in_viewport', {
+            ...filters,
+            // One extra row tells us the viewport holds more than we return
+            max_results: limit + 1
+          });
+          if (error) {
+            throw error;
+          }
+
+          const rows: ViewportFacilityRow[] = data || [];
+          const facilities = rows.slice(0, limit).map(toViewportFacility);
+          body = {
+            mode: 'facilities',
+            count: facilities.length,
+            truncated: rows.length > limit,
+            facilities
+          };
+        }
+
+        return {
+          success: true as const,
+          ...body,
+          zoom,
+          clusterMaxZoom: CLUSTER_MAX_ZOOM,
+          viewport,
+          responseTime: Date.now() - startTime
+        };
+      },
+      {
+        ttl: 300, // 5 minutes
+        staleWhileRevalidate: 600,
+        refreshAhead: 30,
+        tags: page => getViewportCacheTags(page, hasOpenings)
+      }
+    );
+
+    if (cacheState === 'hit' || cacheState === 'stale') {
+      // Stale copies stay out of the memory tier so the refresh replaces them
+      if (cacheState === 'hit') {
+        memoryCache.set(cacheKey, response);
+      }
+
+      hipaaCompliance.logAccess({
+        action: 'viewport_search_cached',
+        resource: 'facilities',
+        result: 'success',
+        details: {
+          source: 'edge_cache',
+          stale: cacheState === 'stale',
+          responseTime: Date.now() - startTime
+        }
+      });
+
+      return NextResponse.json(response, {
+        headers: {
+          ...rateLimitHeaders(rateLimit),
+          'X-Cache': cacheState === 'hit' ? 'HIT-EDGE' : 'STALE-EDGE',
+          'X-Response-Time': `${Date.now() - startTime}ms`
+        }
+      });
+    }
+
+    memoryCache.set(cacheKey, response);
+
+    hipaaCompliance.logAccess({
+      action: 'viewport_search',
+      resource: 'facilities',
+      result: 'success',
+      details: {
+        mode: response.mode,
+        count: response.count,
+        responseTime: response.responseTime
+      }
+    });
+
+    return NextResponse.json(response, {
+      headers: {
+        ...rateLimitHeaders(rateLimit),
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+        'X-Cache': cacheState === 'coalesced' ? 'MISS-COALESCED' : 'MISS',
+        'X-Response-Time': `${response.responseTime}ms`
+      }
+    });
+
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      console.error('Viewport search error:', error);
+    }
+
+    hipaaCompliance.logAccess({
+      action: 'viewport_search',
+      resource: 'facilities',
+      result: 'failure',
+      details: { error: errorMessage(error) }
+    });
+
+    return toErrorResponse(error, 'Viewport search failed');
+  }
+}
+
+// Every map response carries the viewport tag (ETL loads change cluster
+// counts); facility lists also carry each facility they show
+function getViewportCacheTags(response: ViewportResponse, hasOpenings: boolean): string[] {
+  const tags = [CacheTags.VIEWPORT];
+  if (response.mode === 'facilities') {
+    for (const facility of response.facilities) {
+      tags.push(CacheTags.facility(facility.id));
+    }
+  }
+  if (hasOpenings) {
+    tags.push(CacheTags.AVAILABILITY_FILTERED);
+  }
+  return tags;
+}
+
+function toViewportFacility(row: ViewportFacilityRow) {
+  return {
+    ...hipaaCompliance.minimizeFacilityData(row),
+    availability: toAvailabilitySnapshot(row)
+  };
+}
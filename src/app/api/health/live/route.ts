@@ -0,0 +1,6 @@
+// Alias of /api/health for probes configured with the /live path. Segment
+// config is read statically per route file, so it is declared here too.
+export { GET } from '../route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
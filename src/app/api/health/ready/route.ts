@@ -0,0 +1,6 @@
+// Alias of /api/ready for probes configured with the /health/ready path.
+// Segment config is read statically per route file, so it is declared here too.
+export { GET } from '../../ready/route';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
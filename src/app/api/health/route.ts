@@ -0,0 +1,23 @@
+/**
+ * Liveness API
+ * Answers as long as the process can serve requests; dependencies are
+ * checked by /api/ready so a database outage doesn't restart every instance
+ */
+
+import { NextResponse } from 'next/server';
+import { APP_VERSION } from '@/lib/health';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json(
+    {
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      uptime: Math.round(process.uptime()),
+      version: APP_VERSION
+    },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * Prometheus Metrics API
+ * Exposes the process metrics registry in text exposition format for the
+ * 'frontend' scrape job. Set METRICS_TOKEN to require a bearer token.
+ */
+
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-errors';
+import { metricsRegistry, PROMETHEUS_CONTENT_TYPE } from '@/lib/metrics';
+import { EdgeCache } from '@/lib/edge-cache';
+import { memoryOptimizer } from '@/lib/memory-optimizer';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const METRICS_TOKEN = process.env.METRICS_TOKEN;
+
+const edgeCacheEvents = metricsRegistry.counter(
+  'edge_cache_events_total',
+  'Edge cache lookups and loads by outcome (saved_load = database call avoided)',
+  ['event']
+);
+const memoryCacheBytes = metricsRegistry.gauge(
+  'memory_cache_bytes',
+  'Estimated bytes held by each in-memory cache namespace',
+  ['namespace']
+);
+const memoryCacheEntries = metricsRegistry.gauge(
+  'memory_cache_entries',
+  'Entries held by each in-memory cache namespace',
+  ['namespace']
+);
+const memoryCacheOperations = metricsRegistry.counter(
+  'memory_cache_operations_total',
+  'In-memory cache hits, misses, evictions and expirations',
+  ['namespace', 'result']
+);
+const processMemory = metricsRegistry.gauge(
+  'process_memory_bytes',
+  'Node.js process memory usage',
+  ['type']
+);
+
+// Cache and process statistics are kept elsewhere; copy them at scrape time
+metricsRegistry.registerCollector(() => {
+  const edge = EdgeCache.getStats();
+  edgeCacheEvents.set({ event: 'hit' }, edge.hits);
+  edgeCacheEvents.set({ event: 'stale_hit' }, edge.staleHits);
+  edgeCacheEvents.set({ event: 'miss' }, edge.misses);
+  edgeCacheEvents.set({ event: 'load' }, edge.loads);
+  edgeCacheEvents.set({ event: 'coalesced' }, edge.coalesced);
+  edgeCacheEvents.set({ event: 'background_refresh' }, edge.backgroundRefreshes);
+  edgeCacheEvents.set({ event: 'refresh_error' }, edge.refreshErrors);
+  edgeCacheEvents.set({ event: 'saved_load' }, edge.savedLoads);
+
+  const { caches } = memoryOptimizer.getStats();
+  for (const [namespace, stats] of Object.entries(caches)) {
+    memoryCacheBytes.set({ namespace }, stats.bytes);
+    memoryCacheEntries.set({ namespace }, stats.entries);
+    memoryCacheOperations.set({ namespace, result: 'hit' }, stats.hits);
+    memoryCacheOperations.set({ namespace, result: 'miss' }, stats.misses);
+    memoryCacheOperations.set({ namespace, result: 'eviction' }, stats.evictions);
+    memoryCacheOperations.set({ namespace, result: 'expiration' }, stats.expirations);
+  }
+
+  const usage = process.memoryUsage();
+  processMemory.set({ type: 'rss' }, usage.rss);
+  processMemory.set({ type: 'heap_used' }, usage.heapUsed);
+  processMemory.set({ type: 'heap_total' }, usage.heapTotal);
+});
+
+// Compares digests so the check takes the same time for any header,
+// whatever its length or how much of it matches
+function isAuthorized(authorization: string | null): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(authorization ?? ''), digest(`Bearer ${METRICS_TOKEN}`));
+}
+
+export async function GET(request: NextRequest) {
+  if (METRICS_TOKEN && !isAuthorized(request.headers.get('authorization'))) {
+    return errorResponse('AUTHENTICATION_REQUIRED', 'A valid metrics bearer token is required');
+  }
+
+  return new NextResponse(await metricsRegistry.render(), {
+    headers: {
+      'Content-Type': PROMETHEUS_CONTENT_TYPE,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * Readiness API
+ * Per-component status for the database, cache backend, memory pressure
+ * and ETL freshness. Returns 503 when a critical component is down so
+ * deploys and load balancers can hold traffic until the instance is ready.
+ */
+
+import { NextResponse } from 'next/server';
+import { getReadiness } from '@/lib/health';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const report = await getReadiness();
+
+  return NextResponse.json(report, {
+    status: report.status === 'unhealthy' ? 503 : 200,
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
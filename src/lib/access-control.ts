@@ -0,0 +1,216 @@
+/**
+ * Access Control
+ * Role-based policies for API resources. Requests resolve to a principal
+ * (internal API keys are admins; Supabase users get their role from
+ * app_metadata or, for approved operators, from the operators table), and
+ * every (role, resource, action) is denied unless a policy allows it.
+ */
+
+import crypto from 'crypto';
+import { createClient } from '@/lib/supabase';
+import { ApiError } from '@/lib/api-errors';
+import { authenticateApiKey } from '@/lib/api-keys';
+import { operatorFields } from '@/lib/field-encryption';
+
+export type Role = 'public' | 'operator' | 'reviewer' | 'admin';
+export type AccessAction = 'read' | 'create' | 'update' | 'delete' | 'review';
+
+export const ROLES: Role[] = ['public', 'operator', 'reviewer', 'admin'];
+
+export interface Principal {
+  id: string; // "anonymous", "apikey:<id>" or "user:<id>"
+  role: Role;
+  facilityIds: string[]; // Facilities an operator manages
+  operatorIds?: Record<string, string>; // Operator row for each managed facility
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason: string;
+}
+
+interface AccessPolicy {
+  // "type" matches "type" and "type:<id>"; "type:*" only "type:<id>"
+  resource: string;
+  actions: AccessAction[];
+  roles: Role[];
+  // Only when the resource id is one of the principal's facilities
+  ownerOnly?: boolean;
+}
+
+export const ACCESS_POLICIES: AccessPolicy[] = [
+  { resource: 'facility', actions: ['read'], roles: ROLES },
+  { resource: 'facility:*', actions: ['update'], roles: ['operator'], ownerOnly: true },
+  { resource: 'facility', actions: ['create', 'update', 'delete'], roles: ['admin'] },
+  // Id is the facility the request is for
+  { resource: 'verification_requests:*', actions: ['create'], roles: ['operator'], ownerOnly: true },
+  { resource: 'verification_requests', actions: ['read', 'review'], roles: ['reviewer', 'admin'] },
+  { resource: 'operators', actions: ['create'], roles: ['admin'] },
+  { resource: 'operator:*', actions: ['read', 'update'], roles: ['admin'] },
+  { resource: 'audit_logs', actions: ['read'], roles: ['admin'] },
+  { resource: 'api_keys', actions: ['read', 'create'], roles: ['admin'] },
+  { resource: 'api_key:*', actions: ['read', 'update', 'delete'], roles: ['admin'] },
+  { resource: 'edge_cache', actions: ['read', 'delete'], roles: ['admin'] },
+  { resource: 'encryption_keys', actions: ['update'], roles: ['admin'] }
+];
+
+export const ANONYMOUS: Principal = { id: 'anonymous', role: 'public', facilityIds: [] };
+
+const STAFF_ROLES: Role[] = ['reviewer', 'admin'];
+const PRINCIPAL_CACHE_TTL_MS = 60 * 1000; // Role changes apply within a minute
+const PRINCIPAL_CACHE_SIZE = 10000;
+// Insertion order doubles as recency: hits move to the end, the front is evicted
+const principalCache = new Map<string, { principal: Principal; expires: number }>();
+let lastPrincipalSweep = Date.now();
+
+function parseResource(resource: string): { type: string; id: string | null } {
+  const index = resource.indexOf(':');
+  return index === -1
+    ? { type: resource, id: null }
+    : { type: resource.slice(0, index), id: resource.slice(index + 1) || null };
+}
+
+function matches(pattern: string, resource: { type: string; id: string | null }): boolean {
+  if (pattern.endsWith(':*')) {
+    return pattern.slice(0, -2) === resource.type && resource.id !== null;
+  }
+  return pattern === resource.type;
+}
+
+// Deny by default: allowed only when some policy grants the action
+export function evaluateAccess(
+  principal: Principal,
+  resource: string,
+  action: AccessAction
+): AccessDecision {
+  const target = parseResource(resource);
+  let ownershipRequired = false;
+
+  for (const policy of ACCESS_POLICIES) {
+    if (!policy.roles.includes(principal.role) || !policy.actions.includes(action) || !matches(policy.resource, target)) {
+      continue;
+    }
+    if (!policy.ownerOnly) {
+      return { allowed: true, reason: `${principal.role} may ${action} ${policy.resource}` };
+    }
+    if (target.id !== null && principal.facilityIds.includes(target.id)) {
+      return { allowed: true, reason: `${principal.role} owns ${resource}` };
+    }
+    ownershipRequired = true;
+  }
+
+  return {
+    allowed: false,
+    reason: ownershipRequired
+      ? `${principal.role} does not manage ${resource}`
+      : `No policy allows ${principal.role} to ${action} ${target.type}`
+  };
+}
+
+// PostgREST filter value, quoted so commas and parentheses stay literal
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+async function resolveUser(token: string): Promise<Principal> {
+  const supabase = createClient();
+  const { data, error } = await supabase.auth.getUser(token);
+  const user = data?.user;
+  if (error || !user) {
+    throw new ApiError('AUTHENTICATION_REQUIRED', 'Invalid or expired bearer token', 'Authorization');
+  }
+
+  const id = `user:${user.id}`;
+  // app_metadata is only writable with the service role
+  const assigned = user.app_metadata?.role;
+  if (STAFF_ROLES.includes(assigned)) {
+    return { id, role: assigned, facilityIds: [] };
+  }
+
+  // An unconfirmed address proves nothing about who signed up with it
+  if (!user.email || !user.email_confirmed_at) {
+    return { id, role: 'public', facilityIds: [] };
+  }
+
+  // Operators act only for facilities they were approved for; emails are
+  // encrypted, so match on the blind index. Rows not yet backfilled by the
+  // re-encryption job still hold the plaintext email and no index.
+  const email = user.email;
+  const emailIndex = operatorFields.blindIndex('email', email);
+  const { data: operators, error: operatorError } = await supabase
+    .from('operators')
+    .select('id, facilityId')
+    .or(`emailIndex.eq.${emailIndex},and(emailIndex.is.null,email.eq.${quoteFilterValue(email)})`)
+    .eq('kycVerified', true)
+    .not('approvedAt', 'is', null);
+  if (operatorError) {
+    throw operatorError;
+  }
+
+  const rows: Array<{ id: string; facilityId: string }> = operators || [];
+  return rows.length > 0
+    ? {
+      id,
+      role: 'operator',
+      facilityIds: rows.map(row => row.facilityId),
+      operatorIds: Object.fromEntries(rows.map(row => [row.facilityId, row.id]))
+    }
+    : { id, role: 'public', facilityIds: [] };
+}
+
+/**
+ * Identify the caller from X-API-Key or a Supabase bearer token. Missing
+ * credentials are anonymous; invalid ones are rejected.
+ */
+export async function resolvePrincipal(headers: Headers): Promise<Principal> {
+  const apiKey = headers.get('x-api-key');
+  if (apiKey) {
+    const record = await authenticateApiKey(apiKey);
+    if (!record) {
+      throw new ApiError('AUTHENTICATION_REQUIRED', 'Invalid, expired or revoked API key', 'X-API-Key');
+    }
+    // Partner keys identify integrations, not staff
+    return {
+      id: `apikey:${record.id}`,
+      role: record.tier === 'internal' ? 'admin' : 'public',
+      facilityIds: []
+    };
+  }
+
+  const authorization = headers.get('authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return ANONYMOUS;
+  }
+
+  const token = authorization.slice('Bearer '.length).trim();
+  const cacheKey = crypto.createHash('sha256').update(token).digest('hex');
+  const cached = principalCache.get(cacheKey);
+  if (cached) {
+    principalCache.delete(cacheKey);
+    if (cached.expires > Date.now()) {
+      principalCache.set(cacheKey, cached);
+      return cached.principal;
+    }
+  }
+
+  const principal = await resolveUser(token);
+  cachePrincipal(cacheKey, principal);
+  return principal;
+}
+
+function cachePrincipal(cacheKey: string, principal: Principal): void {
+  const now = Date.now();
+
+  // Tokens seen once would otherwise stay until evicted
+  if (now - lastPrincipalSweep >= PRINCIPAL_CACHE_TTL_MS) {
+    lastPrincipalSweep = now;
+    for (const [key, entry] of principalCache) {
+      if (entry.expires <= now) principalCache.delete(key);
+    }
+  }
+
+  while (principalCache.size >= PRINCIPAL_CACHE_SIZE) {
+    principalCache.delete(principalCache.keys().next().value!);
+  }
+  principalCache.set(cacheKey, { principal, expires: now + PRINCIPAL_CACHE_TTL_MS });
+}
@@ -0,0 +1,113 @@
+/**
+ * API Error Responses
+ * One error envelope for every API route:
+ * { success: false, error: { code, message, field?, docsUrl, traceId? } }
+ */
+
+import { NextResponse } from 'next/server';
+// The API alone, not @/lib/tracing: the Edge middleware imports this module
+import { trace } from '@opentelemetry/api';
+
+export type ApiErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'QUOTA_EXCEEDED'
+  | 'AUTHENTICATION_REQUIRED'
+  | 'INSUFFICIENT_PERMISSIONS'
+  | 'DATABASE_ERROR'
+  | 'INTERNAL_ERROR';
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  field?: string;
+  docsUrl: string;
+  traceId?: string; // Present when the request is traced
+}
+
+interface ErrorResponseOptions {
+  status?: number;
+  field?: string;
+  headers?: Record<string, string>;
+}
+
+const DEFAULT_STATUS: Record<ApiErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  RATE_LIMIT_EXCEEDED: 429,
+  QUOTA_EXCEEDED: 429,
+  AUTHENTICATION_REQUIRED: 401,
+  INSUFFICIENT_PERMISSIONS: 403,
+  DATABASE_ERROR: 500,
+  INTERNAL_ERROR: 500
+};
+
+const DOCS_BASE_URL = process.env.API_DOCS_URL || 'https://docs.soberlivings.com/api/errors';
+
+export class ApiError extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly field?: string,
+    public readonly status = DEFAULT_STATUS[code]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export function getDocsUrl(code: ApiErrorCode): string {
+  return `${DOCS_BASE_URL}#${code.toLowerCase().replace(/_/g, '-')}`;
+}
+
+export function errorResponse(
+  code: ApiErrorCode,
+  message: string,
+  options: ErrorResponseOptions = {}
+): NextResponse {
+  const error: ApiErrorBody = { code, message, docsUrl: getDocsUrl(code) };
+  if (options.field) {
+    error.field = options.field;
+  }
+  const traceId = trace.getActiveSpan()?.spanContext().traceId;
+  if (traceId) {
+    error.traceId = traceId;
+  }
+
+  return NextResponse.json(
+    { success: false, error },
+    { status: options.status ?? DEFAULT_STATUS[code], headers: options.headers }
+  );
+}
+
+export function validationError(message: string, field?: string): NextResponse {
+  return errorResponse('VALIDATION_ERROR', message, { field });
+}
+
+// Message of a thrown value; Supabase errors are plain objects, not Errors
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === 'object' && error !== null && typeof (error as { message?: unknown }).message === 'string') {
+    return (error as { message: string }).message;
+  }
+  return String(error);
+}
+
+// Known API errors keep their code; anything else is an opaque 500 outside development
+export function toErrorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof ApiError) {
+    return errorResponse(error.code, error.message, { status: error.status, field: error.field });
+  }
+
+  return errorResponse(
+    'INTERNAL_ERROR',
+    process.env.NODE_ENV === 'development' && error
+      ? `${fallbackMessage}: ${errorMessage(error)}`
+      : fallbackMessage
+  );
+}
@@ -0,0 +1,396 @@
+/**
+ * Partner API Keys
+ * Issuance, rotation and revocation of hashed API keys, tier policies
+ * (rate limits and monthly quotas) and per-request authentication.
+ * Imported by the Edge middleware, so hashing uses Web Crypto.
+ */
+
+import { createClient } from '@/lib/supabase';
+import { ApiError } from '@/lib/api-errors';
+import {
+  RateLimiter,
+  RateLimitResult,
+  ClientIdentity,
+  getClientKey,
+  sharedRateLimitStore
+} from '@/lib/rate-limiter';
+
+export type ApiKeyTier = 'free' | 'partner' | 'internal';
+
+export const API_KEY_TIERS: ApiKeyTier[] = ['free', 'partner', 'internal'];
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  tier: ApiKeyTier;
+  keyPrefix: string;
+  ownerEmail: string | null;
+  monthlyQuota: number | null; // Overrides the tier quota when set
+  createdBy: string | null;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  replacedById: string | null;
+  createdAt: string;
+}
+
+export interface IssuedApiKey {
+  key: string; // Plaintext; only ever returned at creation
+  record: ApiKeyRecord;
+}
+
+export interface ApiKeyUsage {
+  period: string;
+  used: number;
+  quota: number | null;
+  exceeded: boolean;
+}
+
+interface TierPolicy {
+  rateLimiter: RateLimiter;
+  monthlyQuota: number | null; // null = unlimited
+}
+
+// Headers the middleware sets for routes once a key is authenticated
+export const API_KEY_ID_HEADER = 'x-api-key-id';
+export const API_KEY_TIER_HEADER = 'x-api-key-tier';
+
+const KEY_PREFIX = 'slk_';
+const DEFAULT_KEY_PEPPER = 'default-dev-api-key-pepper';
+const KEY_PEPPER = process.env.API_KEY_PEPPER || DEFAULT_KEY_PEPPER;
+const ROTATION_GRACE_MS = 24 * 60 * 60 * 1000; // Old key keeps working for a day
+const AUTH_CACHE_TTL_MS = 60 * 1000; // Revocations reach other instances within a minute
+const USAGE_FLUSH_INTERVAL_MS = 5000; // Usage counts are written at most this often
+
+const RECORD_COLUMNS = 'id, name, tier, keyPrefix, ownerEmail, monthlyQuota, createdBy, ' +
+  'lastUsedAt, expiresAt, revokedAt, replacedById, createdAt';
+
+export const TIER_POLICIES: Record<ApiKeyTier, TierPolicy> = {
+  free: {
+    rateLimiter: new RateLimiter({
+      name: 'tier-free',
+      store: sharedRateLimitStore,
+      requests: 60,
+      per: 60000 // 60 requests per minute
+    }),
+    monthlyQuota: 10000
+  },
+  partner: {
+    rateLimiter: new RateLimiter({
+      name: 'tier-partner',
+      store: sharedRateLimitStore,
+      requests: 600,
+      per: 60000 // 600 requests per minute
+    }),
+    monthlyQuota: 1000000
+  },
+  internal: {
+    rateLimiter: new RateLimiter({
+      name: 'tier-internal',
+      store: sharedRateLimitStore,
+      requests: 3000,
+      per: 60000 // 3000 requests per minute
+    }),
+    monthlyQuota: null
+  }
+};
+
+// Hashes under the published default pepper could be matched offline;
+// builds don't handle keys, so they may run without one
+if (
+  KEY_PEPPER === DEFAULT_KEY_PEPPER &&
+  process.env.NODE_ENV === 'production' &&
+  process.env.NEXT_PHASE !== 'phase-production-build'
+) {
+  throw new Error('Refusing to use the default API key pepper in production; set API_KEY_PEPPER');
+}
+
+const authCache = new Map<string, { record: ApiKeyRecord | null; expires: number }>();
+
+// Requests counted on this instance: stored is the total last read back from
+// api_key_usage, pending what hasn't been written yet
+const usageCounters = new Map<string, { period: string; stored: number; pending: number }>();
+let usageFlush: Promise<void> | null = null;
+let lastUsageFlush = 0;
+
+let pepperKey: Promise<CryptoKey> | null = null;
+
+// Same digest as crypto.createHmac('sha256', pepper) in create-api-key.js
+export async function hashApiKey(key: string): Promise<string> {
+  pepperKey ??= crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(KEY_PEPPER),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', await pepperKey, new TextEncoder().encode(key));
+  return toHex(signature);
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function generateKey(): { key: string; prefix: string } {
+  const key = KEY_PREFIX + toBase64Url(crypto.getRandomValues(new Uint8Array(24)));
+  return { key, prefix: key.slice(0, KEY_PREFIX.length + 8) };
+}
+
+// Usage is bucketed by UTC calendar month
+export function getUsagePeriod(date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function getMonthlyQuota(record: ApiKeyRecord): number | null {
+  return record.monthlyQuota ?? TIER_POLICIES[record.tier].monthlyQuota;
+}
+
+function isActive(record: ApiKeyRecord, now = Date.now()): boolean {
+  if (record.revokedAt) return false;
+  return !record.expiresAt || Date.parse(record.expiresAt) > now;
+}
+
+export async function createApiKey(input: {
+  name: string;
+  tier: ApiKeyTier;
+  ownerEmail?: string;
+  monthlyQuota?: number;
+  createdBy?: string;
+}): Promise<IssuedApiKey> {
+  const supabase = createClient();
+  const { key, prefix } = generateKey();
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .insert({
+      id: crypto.randomUUID(),
+      name: input.name,
+      tier: input.tier,
+      keyPrefix: prefix,
+      keyHash: await hashApiKey(key),
+      ownerEmail: input.ownerEmail ?? null,
+      monthlyQuota: input.monthlyQuota ?? null,
+      createdBy: input.createdBy ?? null
+    })
+    .select(RECORD_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { key, record: data };
+}
+
+export async function getApiKey(id: string): Promise<ApiKeyRecord | null> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(RECORD_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+export async function listApiKeys(): Promise<ApiKeyRecord[]> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(RECORD_COLUMNS)
+    .order('createdAt', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+// Issue a replacement with the same name, tier and quota; the old key
+// expires after a grace period so partners can roll it out
+export async function rotateApiKey(id: string, rotatedBy?: string): Promise<IssuedApiKey> {
+  const existing = await getApiKey(id);
+  if (!existing || !isActive(existing)) {
+    throw new ApiError('NOT_FOUND', 'API key not found or no longer active', 'id');
+  }
+
+  const issued = await createApiKey({
+    name: existing.name,
+    tier: existing.tier,
+    ownerEmail: existing.ownerEmail ?? undefined,
+    monthlyQuota: existing.monthlyQuota ?? undefined,
+    createdBy: rotatedBy
+  });
+
+  const graceEnd = Date.now() + ROTATION_GRACE_MS;
+  const expiresAt = existing.expiresAt && Date.parse(existing.expiresAt) < graceEnd
+    ? existing.expiresAt
+    : new Date(graceEnd).toISOString();
+
+  const supabase = createClient();
+  const { error } = await supabase
+    .from('api_keys')
+    .update({ expiresAt, replacedById: issued.record.id })
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+
+  authCache.clear();
+  return issued;
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKeyRecord> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ revokedAt: new Date().toISOString() })
+    .eq('id', id)
+    .is('revokedAt', null)
+    .select(RECORD_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError('NOT_FOUND', 'API key not found or already revoked', 'id');
+  }
+
+  authCache.clear();
+  return data;
+}
+
+// Resolve a presented key; null for unknown, expired or revoked keys
+export async function authenticateApiKey(key: string): Promise<ApiKeyRecord | null> {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  const keyHash = await hashApiKey(key);
+  const cached = authCache.get(keyHash);
+  if (cached && cached.expires > Date.now()) {
+    return cached.record && isActive(cached.record) ? cached.record : null;
+  }
+
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(RECORD_COLUMNS)
+    .eq('keyHash', keyHash)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  authCache.set(keyHash, { record: data, expires: Date.now() + AUTH_CACHE_TTL_MS });
+  return data && isActive(data) ? data : null;
+}
+
+// Count a request against the key's monthly quota. Counts are kept locally
+// and written by flushApiKeyUsage(), so the check sees other instances'
+// requests as of the last flush and a key can overrun its quota by about
+// one flush interval of traffic.
+export function recordApiKeyUsage(record: ApiKeyRecord): ApiKeyUsage {
+  const period = getUsagePeriod();
+  let counter = usageCounters.get(record.id);
+  if (!counter || counter.period !== period) {
+    counter = { period, stored: 0, pending: 0 };
+    usageCounters.set(record.id, counter);
+  }
+  counter.pending++;
+
+  const quota = getMonthlyQuota(record);
+  const used = counter.stored + counter.pending;
+  return { period, used, quota, exceeded: quota !== null && used > quota };
+}
+
+// Write pending usage counts; null when a flush ran within the interval.
+// The middleware hands the promise to waitUntil so requests don't wait.
+export function flushApiKeyUsage(force = false): Promise<void> | null {
+  if (usageFlush) {
+    return usageFlush;
+  }
+  if (!force && Date.now() - lastUsageFlush < USAGE_FLUSH_INTERVAL_MS) {
+    return null;
+  }
+
+  lastUsageFlush = Date.now();
+  usageFlush = writeApiKeyUsage().finally(() => {
+    usageFlush = null;
+  });
+  return usageFlush;
+}
+
+async function writeApiKeyUsage(): Promise<void> {
+  const supabase = createClient();
+
+  await Promise.all(Array.from(usageCounters, async ([keyId, counter]) => {
+    const amount = counter.pending;
+    if (amount === 0) {
+      return;
+    }
+    counter.pending = 0;
+
+    const { data, error } = await supabase.rpc('increment_api_key_usage', {
+      key_id: keyId,
+      usage_period: counter.period,
+      amount
+    });
+
+    if (error) {
+      // Counted again on the next flush
+      counter.pending += amount;
+      console.error(`API key usage write failed for ${keyId}:`, error.message);
+      return;
+    }
+
+    counter.stored = Number(data);
+  }));
+}
+
+export async function getApiKeyUsage(id: string, period = getUsagePeriod()): Promise<number> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('api_key_usage')
+    .select('requestCount')
+    .eq('apiKeyId', id)
+    .eq('period', period)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.requestCount ?? 0;
+}
+
+// Keyed requests (authenticated by the middleware) are limited by their
+// tier's policy alone; the route's policy is the limit for everyone else,
+// per principal when the route resolved one and otherwise per client IP.
+export async function consumeRequestRateLimit(
+  headers: Headers,
+  routeLimiter: RateLimiter,
+  client: ClientIdentity = {}
+): Promise<RateLimitResult> {
+  const keyId = headers.get(API_KEY_ID_HEADER);
+  const tier = headers.get(API_KEY_TIER_HEADER) as ApiKeyTier | null;
+
+  if (!keyId || !tier || !API_KEY_TIERS.includes(tier)) {
+    return routeLimiter.consume(await getClientKey(headers, client));
+  }
+
+  return TIER_POLICIES[tier].rateLimiter.consume(`key:${keyId}`);
+}
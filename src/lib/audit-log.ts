@@ -0,0 +1,342 @@
+/**
+ * Audit Log Store
+ * Writes audit entries to audit_logs in batches, off the request path.
+ * Entries are hash-chained by append_audit_logs() so edits, deletions and
+ * reordering are detectable; verifyAuditChain() walks the chain and
+ * reports the first broken link.
+ */
+
+import crypto from 'crypto';
+import { createClient } from '@/lib/supabase';
+import { metricsRegistry } from '@/lib/metrics';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: Date;
+  userId?: string;
+  action: string;
+  resource: string; // "type" or "type:id"
+  ipAddress?: string;
+  userAgent?: string;
+  result: 'success' | 'failure';
+  details?: Record<string, unknown>;
+}
+
+// Chained content of one audit_logs row
+interface AuditContent {
+  id: string;
+  userId: string | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  result: string;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string; // ISO 8601, UTC
+}
+
+export interface AuditLogRow extends AuditContent {
+  sequence: number;
+  prevHash: string;
+  hash: string;
+}
+
+export interface ChainBreak {
+  sequence: number;
+  id: string | null;
+  reason: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  // Last verified entry; record it elsewhere to detect truncation later
+  head: { sequence: number; hash: string } | null;
+  brokenAt?: ChainBreak;
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+export const AUDIT_LOG_COLUMNS =
+  'id, userId, action, entityType, entityId, result, metadata, ipAddress, userAgent, createdAt, sequence, prevHash, hash';
+
+const BATCH_SIZE = parseInt(process.env.AUDIT_LOG_BATCH_SIZE || '100', 10);
+const FLUSH_INTERVAL_MS = parseInt(process.env.AUDIT_LOG_FLUSH_INTERVAL_MS || '1000', 10);
+// Hard cap on pending entries; beyond it new entries are dropped and counted
+// so a stalled database can't grow the queue without bound
+const MAX_QUEUE = parseInt(process.env.AUDIT_LOG_MAX_QUEUE || '10000', 10);
+const MAX_RETRY_DELAY_MS = 30000;
+
+const queueDepth = metricsRegistry.gauge(
+  'audit_log_queue_depth',
+  'Audit entries waiting to be written'
+);
+const entriesWritten = metricsRegistry.counter(
+  'audit_log_entries_written_total',
+  'Audit entries appended to audit_logs'
+);
+const writeFailures = metricsRegistry.counter(
+  'audit_log_write_failures_total',
+  'Failed audit log batch writes (retried)'
+);
+const entriesDropped = metricsRegistry.counter(
+  'audit_log_entries_dropped_total',
+  'Audit entries dropped because the write queue was full'
+);
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value, 'utf8').digest('hex');
+}
+
+// JSON with object keys sorted at every level, so JSONB round trips
+// (which reorder keys) hash the same
+function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).filter(key => record[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// audit_logs.createdAt has no zone; values are written in UTC
+export function normalizeTimestamp(value: string | Date): string {
+  if (value instanceof Date) return value.toISOString();
+  return new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value}Z`).toISOString();
+}
+
+export function splitResource(resource: string): { entityType: string; entityId: string } {
+  const index = resource.indexOf(':');
+  return index === -1
+    ? { entityType: resource, entityId: '' }
+    : { entityType: resource.slice(0, index), entityId: resource.slice(index + 1) };
+}
+
+function toContent(entry: AuditEntry): AuditContent {
+  return {
+    id: entry.id,
+    userId: entry.userId ?? null,
+    action: entry.action,
+    ...splitResource(entry.resource),
+    result: entry.result,
+    // Round trip so the hash matches what JSONB stores
+    metadata: entry.details === undefined ? null : JSON.parse(JSON.stringify(entry.details)),
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    createdAt: entry.timestamp.toISOString()
+  };
+}
+
+export function hashContent(content: AuditContent): string {
+  return sha256(canonicalJson({
+    id: content.id,
+    userId: content.userId ?? null,
+    action: content.action,
+    entityType: content.entityType,
+    entityId: content.entityId,
+    result: content.result ?? null,
+    metadata: content.metadata ?? null,
+    ipAddress: content.ipAddress ?? null,
+    userAgent: content.userAgent ?? null,
+    createdAt: normalizeTimestamp(content.createdAt)
+  }));
+}
+
+// Must match the hash computed in append_audit_logs()
+export function hashLink(prevHash: string, sequence: number, contentHash: string): string {
+  return sha256(`${prevHash}:${sequence}:${contentHash}`);
+}
+
+export class AuditLogWriter {
+  private static instance: AuditLogWriter;
+  private queue: Array<AuditContent & { contentHash: string }> = [];
+  private flushing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private retryDelay = 0;
+  private retryAt = 0;
+  private written = 0;
+  private failures = 0;
+  private dropped = 0;
+  private overflowing = false;
+
+  private constructor() {}
+
+  static getInstance(): AuditLogWriter {
+    if (!AuditLogWriter.instance) {
+      AuditLogWriter.instance = new AuditLogWriter();
+    }
+    return AuditLogWriter.instance;
+  }
+
+  // Queue an entry for the next batch; returns false if the queue is full
+  // and the entry was dropped
+  append(entry: AuditEntry): boolean {
+    if (this.queue.length >= MAX_QUEUE) {
+      this.dropped++;
+      entriesDropped.inc();
+      if (!this.overflowing) {
+        this.overflowing = true;
+        console.error(`Audit log queue full (${MAX_QUEUE} pending); dropping entries until writes recover`);
+      }
+      return false;
+    }
+
+    const content = toContent(entry);
+    this.queue.push({ ...content, contentHash: hashContent(content) });
+    queueDepth.set(undefined, this.queue.length);
+    this.startTimer();
+
+    if (this.queue.length >= BATCH_SIZE && Date.now() >= this.retryAt) {
+      void this.flush();
+    }
+    return true;
+  }
+
+  // Write everything queued so far; concurrent calls share one flush
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  getStats() {
+    return {
+      queued: this.queue.length,
+      written: this.written,
+      failures: this.failures,
+      dropped: this.dropped,
+      retryAt: this.retryAt > Date.now() ? new Date(this.retryAt).toISOString() : null
+    };
+  }
+
+  private startTimer(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      if (this.queue.length > 0 && Date.now() >= this.retryAt) {
+        void this.flush();
+      }
+    }, FLUSH_INTERVAL_MS);
+    // Node timers can be unref'd so a pending flush doesn't hold the process open
+    if (typeof this.timer === 'object' && 'unref' in this.timer) {
+      this.timer.unref();
+    }
+  }
+
+  private async drain(): Promise<void> {
+    const supabase = createClient();
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.slice(0, BATCH_SIZE);
+      let error: { message: string } | null;
+      try {
+        ({ error } = await supabase.rpc('append_audit_logs', { entries: batch }));
+      } catch (thrown) {
+        error = thrown instanceof Error ? thrown : { message: String(thrown) };
+      }
+
+      if (error) {
+        // Keep the batch at the head of the queue and back off; order matters
+        this.failures++;
+        writeFailures.inc();
+        this.retryDelay = Math.min(MAX_RETRY_DELAY_MS, Math.max(FLUSH_INTERVAL_MS, this.retryDelay * 2));
+        this.retryAt = Date.now() + this.retryDelay;
+        console.error(`Audit log write failed (${this.queue.length} pending):`, error.message);
+        return;
+      }
+
+      this.queue.splice(0, batch.length);
+      this.written += batch.length;
+      this.retryDelay = 0;
+      this.retryAt = 0;
+      this.overflowing = false;
+      entriesWritten.inc(undefined, batch.length);
+      queueDepth.set(undefined, this.queue.length);
+    }
+  }
+}
+
+export const auditLogWriter = AuditLogWriter.getInstance();
+
+/**
+ * Walk the chain in sequence order from fromSequence (default: the start)
+ * and stop at the first entry that is missing, out of place or altered
+ */
+export async function verifyAuditChain(
+  options: { fromSequence?: number; pageSize?: number } = {}
+): Promise<ChainVerification> {
+  const supabase = createClient();
+  const pageSize = options.pageSize ?? 1000;
+  let expectedSequence = Math.max(1, options.fromSequence ?? 1);
+  let prevHash = GENESIS_HASH;
+  let head: ChainVerification['head'] = null;
+  let checked = 0;
+
+  // Starting mid-chain: link to the entry before the first one checked
+  if (expectedSequence > 1) {
+    const { data, error } = await supabase
+      .from('audit_logs')
+      .select('sequence, hash')
+      .eq('sequence', expectedSequence - 1)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      return {
+        valid: false,
+        checked,
+        head,
+        brokenAt: { sequence: expectedSequence - 1, id: null, reason: 'Entry is missing' }
+      };
+    }
+    prevHash = data.hash;
+  }
+
+  for (;;) {
+    const { data, error } = await supabase
+      .from('audit_logs')
+      .select(AUDIT_LOG_COLUMNS)
+      .gte('sequence', expectedSequence)
+      .order('sequence', { ascending: true })
+      .limit(pageSize);
+    if (error) throw error;
+
+    const rows: AuditLogRow[] = data || [];
+    for (const row of rows) {
+      const reason = Number(row.sequence) !== expectedSequence
+        ? 'Entry is missing'
+        : row.prevHash !== prevHash
+          ? 'Previous hash does not match the preceding entry'
+          : row.hash !== hashLink(prevHash, expectedSequence, hashContent(row))
+            ? 'Hash does not match the entry content'
+            : null;
+
+      if (reason) {
+        return {
+          valid: false,
+          checked,
+          head,
+          brokenAt: {
+            sequence: expectedSequence,
+            id: Number(row.sequence) === expectedSequence ? row.id : null,
+            reason
+          }
+        };
+      }
+
+      prevHash = row.hash;
+      head = { sequence: expectedSequence, hash: row.hash };
+      expectedSequence++;
+      checked++;
+    }
+
+    if (rows.length < pageSize) {
+      return { valid: true, checked, head };
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Audit Log Queries
+ * Filtered, keyset-paginated reads of audit_logs (newest first) and
+ * streaming CSV / NDJSON export for auditors. Filters map onto the
+ * userId, entityType/entityId and createdAt indexes.
+ */
+
+import { createClient } from '@/lib/supabase';
+import { ApiError } from '@/lib/api-errors';
+import { AUDIT_LOG_COLUMNS, AuditLogRow, normalizeTimestamp, splitResource } from '@/lib/audit-log';
+import { decodeCursor, encodeCursor, fingerprintQuery } from '@/lib/search-cursor';
+
+export type AuditExportFormat = 'csv' | 'ndjson';
+
+export interface AuditLogFilters {
+  userId?: string;
+  action?: string;
+  resource?: string; // "type" matches every id of that type
+  result?: 'success' | 'failure';
+  from?: Date;
+  to?: Date; // Exclusive
+}
+
+export interface AuditLogRecord {
+  id: string;
+  sequence: number | null;
+  createdAt: string;
+  userId: string | null;
+  action: string;
+  resource: string;
+  result: string | null;
+  details: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  hash: string | null;
+  prevHash: string | null;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogRecord[];
+  nextCursor: string | null;
+}
+
+const EXPORT_PAGE_SIZE = 1000;
+
+const CSV_COLUMNS: Array<keyof AuditLogRecord> = [
+  'id', 'sequence', 'createdAt', 'userId', 'action', 'resource', 'result',
+  'details', 'ipAddress', 'userAgent', 'hash', 'prevHash'
+];
+
+// Rows written before the hash chain have no sequence or hashes
+type StoredAuditRow = Omit<AuditLogRow, 'sequence' | 'prevHash' | 'hash'> & {
+  sequence: number | string | null; // BIGINT, may arrive as a string
+  prevHash: string | null;
+  hash: string | null;
+};
+
+function toRecord(row: StoredAuditRow): AuditLogRecord {
+  return {
+    id: row.id,
+    sequence: row.sequence === null ? null : Number(row.sequence),
+    createdAt: normalizeTimestamp(row.createdAt),
+    userId: row.userId,
+    action: row.action,
+    resource: row.entityId ? `${row.entityType}:${row.entityId}` : row.entityType,
+    result: row.result,
+    details: row.metadata,
+    ipAddress: row.ipAddress,
+    userAgent: row.userAgent,
+    hash: row.hash,
+    prevHash: row.prevHash
+  };
+}
+
+// Cursors are tied to the filters they were issued for
+function fingerprintFilters(filters: AuditLogFilters): string {
+  return fingerprintQuery([
+    'audit',
+    filters.userId ?? null,
+    filters.action ?? null,
+    filters.resource ?? null,
+    filters.result ?? null,
+    filters.from?.toISOString() ?? null,
+    filters.to?.toISOString() ?? null
+  ]);
+}
+
+async function fetchPage(
+  filters: AuditLogFilters,
+  limit: number,
+  after: { createdAt: string; id: string } | null
+): Promise<any[]> {
+  const supabase = createClient();
+  let query = supabase.from('audit_logs').select(AUDIT_LOG_COLUMNS);
+
+  if (filters.userId) query = query.eq('userId', filters.userId);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.result) query = query.eq('result', filters.result);
+  if (filters.resource) {
+    const { entityType, entityId } = splitResource(filters.resource);
+    query = query.eq('entityType', entityType);
+    if (entityId) query = query.eq('entityId', entityId);
+  }
+  if (filters.from) query = query.gte('createdAt', filters.from.toISOString());
+  if (filters.to) query = query.lt('createdAt', filters.to.toISOString());
+
+  // Keyset: rows strictly older than the last one returned, id breaks ties
+  if (after) {
+    const createdAt = `"${after.createdAt}"`;
+    query = query.or(`createdAt.lt.${createdAt},and(createdAt.eq.${createdAt},id.lt."${after.id}")`);
+  }
+
+  const { data, error } = await query
+    .order('createdAt', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Audit log query failed:', error);
+    throw new ApiError('DATABASE_ERROR', 'Audit log query failed');
+  }
+  return data || [];
+}
+
+export async function queryAuditLogs(
+  filters: AuditLogFilters,
+  options: { limit: number; cursor?: string }
+): Promise<AuditLogPage> {
+  const fingerprint = fingerprintFilters(filters);
+  let after: { createdAt: string; id: string } | null = null;
+
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (!cursor || cursor.direction !== 'next' || cursor.query !== fingerprint) {
+      throw new ApiError('VALIDATION_ERROR', 'cursor is invalid or belongs to a different query', 'cursor');
+    }
+    after = { createdAt: new Date(cursor.value).toISOString(), id: cursor.id };
+  }
+
+  // One extra row tells us whether another page exists
+  const rows = await fetchPage(filters, options.limit + 1, after);
+  const entries = rows.slice(0, options.limit).map(toRecord);
+  const last = entries[entries.length - 1];
+
+  return {
+    entries,
+    nextCursor: rows.length > options.limit && last
+      ? encodeCursor({
+        value: new Date(last.createdAt).getTime(),
+        id: last.id,
+        direction: 'next',
+        query: fingerprint
+      })
+      : null
+  };
+}
+
+// Quote fields that need it; cells that a spreadsheet would evaluate as a
+// formula are prefixed with an apostrophe
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRecord(record: AuditLogRecord, format: AuditExportFormat): string {
+  return format === 'csv'
+    ? CSV_COLUMNS.map(column => csvCell(record[column])).join(',') + '\r\n'
+    : JSON.stringify(record) + '\n';
+}
+
+/**
+ * Stream every matching entry, one page per read so a slow client holds
+ * back the database reads instead of buffering the whole log
+ */
+export function streamAuditLogs(
+  filters: AuditLogFilters,
+  format: AuditExportFormat
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let after: { createdAt: string; id: string } | null = null;
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!started && format === 'csv') {
+          controller.enqueue(encoder.encode(CSV_COLUMNS.join(',') + '\r\n'));
+        }
+        started = true;
+
+        const rows = await fetchPage(filters, EXPORT_PAGE_SIZE, after);
+        const records = rows.map(toRecord);
+        if (records.length > 0) {
+          controller.enqueue(encoder.encode(records.map(record => formatRecord(record, format)).join('')));
+          const last = records[records.length - 1];
+          after = { createdAt: last.createdAt, id: last.id };
+        }
+
+        if (records.length < EXPORT_PAGE_SIZE) {
+          controller.close();
+        }
+      } catch (error) {
+        console.error('Audit log export failed:', error);
+        controller.error(error);
+      }
+    }
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Facility Bed Availability
+ * Freshness of availability snapshots, plus the write path that records
+ * new snapshots and purges the cached searches they affect
+ */
+
+import crypto from 'crypto';
+import { createClient } from '@/lib/supabase';
+import { EdgeCache, CacheTags } from '@/lib/edge-cache';
+
+export type AvailabilityFreshness = 'fresh' | 'aging' | 'stale';
+
+export interface AvailabilitySnapshot {
+  availableBeds: number;
+  totalBeds: number;
+  waitlistCount: number;
+  lastConfirmed: string;
+  freshness: AvailabilityFreshness;
+}
+
+export interface AvailabilityUpdateInput {
+  facilityId: string;
+  availableBeds: number;
+  totalBeds: number;
+  waitlistCount?: number;
+  notes?: string;
+  submittedBy: string; // Principal id of the caller, never the request body
+}
+
+// Latest availability_updates columns joined onto facility rows; null
+// when the facility has never reported
+export interface AvailabilityColumns {
+  availableBeds: number | null;
+  totalBeds: number | null;
+  waitlistCount: number | null;
+  lastConfirmed: string | null;
+}
+
+const FRESH_WINDOW_MS = 24 * 60 * 60 * 1000; // Confirmed within a day
+const AGING_WINDOW_MS = 72 * 60 * 60 * 1000; // Confirmed within three days
+
+const cache = new EdgeCache();
+
+// Postgres TIMESTAMP(3) columns are UTC but come back without an offset
+function parseTimestamp(value: string): number {
+  const hasZone = /(?:[zZ]|[+-]\d{2}:?\d{2})$/.test(value);
+  return Date.parse(hasZone ? value : `${value}Z`);
+}
+
+export function getAvailabilityFreshness(
+  lastConfirmed: string,
+  now = Date.now()
+): AvailabilityFreshness {
+  const age = now - parseTimestamp(lastConfirmed);
+
+  if (age <= FRESH_WINDOW_MS) return 'fresh';
+  if (age <= AGING_WINDOW_MS) return 'aging';
+  return 'stale';
+}
+
+// Build a snapshot from a row carrying the latest availability columns
+export function toAvailabilitySnapshot(
+  row: AvailabilityColumns | null | undefined
+): AvailabilitySnapshot | null {
+  if (!row?.lastConfirmed) return null;
+
+  return {
+    availableBeds: row.availableBeds ?? 0,
+    totalBeds: row.totalBeds ?? 0,
+    waitlistCount: row.waitlistCount ?? 0,
+    lastConfirmed: new Date(parseTimestamp(row.lastConfirmed)).toISOString(),
+    freshness: getAvailabilityFreshness(row.lastConfirmed)
+  };
+}
+
+// Results that show this facility, plus searches that filter or sort on
+// availability (the facility may enter or leave their result sets)
+export async function invalidateFacilityAvailability(facilityId: string): Promise<void> {
+  await cache.purgeTags([CacheTags.facility(facilityId), CacheTags.AVAILABILITY_FILTERED]);
+}
+
+export function validateAvailabilityUpdate(
+  input: Partial<AvailabilityUpdateInput>
+): { field: string; message: string } | null {
+  const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+  if (!isCount(input.availableBeds)) {
+    return { field: 'availableBeds', message: 'availableBeds must be a non-negative integer' };
+  }
+  if (!isCount(input.totalBeds)) {
+    return { field: 'totalBeds', message: 'totalBeds must be a non-negative integer' };
+  }
+  if (input.availableBeds! > input.totalBeds!) {
+    return { field: 'availableBeds', message: 'availableBeds cannot exceed totalBeds' };
+  }
+  if (input.waitlistCount !== undefined && !isCount(input.waitlistCount)) {
+    return { field: 'waitlistCount', message: 'waitlistCount must be a non-negative integer' };
+  }
+
+  return null;
+}
+
+export async function recordAvailabilityUpdate(
+  input: AvailabilityUpdateInput
+): Promise<AvailabilitySnapshot> {
+  const supabase = createClient();
+  const lastConfirmed = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('availability_updates')
+    .insert({
+      id: crypto.randomUUID(),
+      facilityId: input.facilityId,
+      availableBeds: input.availableBeds,
+      totalBeds: input.totalBeds,
+      waitlistCount: input.waitlistCount ?? 0,
+      notes: input.notes,
+      submittedBy: input.submittedBy,
+      lastConfirmed
+    });
+
+  if (error) {
+    throw error;
+  }
+
+  // Cached searches may show the old bed counts. The update is already
+  // stored, so a failed purge must not fail the request (a retry would
+  // record it twice); entries age out within their TTL instead.
+  try {
+    await invalidateFacilityAvailability(input.facilityId);
+  } catch (purgeError) {
+    console.error(`Cache purge failed after availability update for ${input.facilityId}:`, purgeError);
+  }
+
+  return {
+    availableBeds: input.availableBeds,
+    totalBeds: input.totalBeds,
+    waitlistCount: input.waitlistCount ?? 0,
+    lastConfirmed,
+    freshness: 'fresh'
+  };
+}
@@ -0,0 +1,461 @@
+/**
+ * Edge Cache
+ * Shared response cache with TTLs, stale-while-revalidate and cache tags.
+ * Entries are tagged with what they contain (facility:<id>, state:CA) so
+ * writes can purge every affected entry at once instead of waiting out
+ * the TTL. Backed by Redis when configured, otherwise process memory.
+ */
+
+import { createRestRedisClient, RedisScriptClient } from '@/lib/rate-limit-store';
+
+export interface CacheSetOptions {
+  ttl: number;                   // Seconds the entry is fresh
+  staleWhileRevalidate?: number; // Further seconds it may be served while refreshing
+  tags?: string[];
+}
+
+export interface CacheGetOrSetOptions<T> extends Omit<CacheSetOptions, 'tags'> {
+  tags?: string[] | ((value: T) => string[]);
+  refreshAhead?: number; // Seconds before expiry when a hit triggers a background refresh
+}
+
+// 'coalesced' is a miss that awaited another request's in-flight load
+export type CacheState = 'hit' | 'stale' | 'miss' | 'coalesced';
+
+export interface EdgeCacheStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  loads: number;               // Loader (database) calls actually made
+  coalesced: number;           // Misses served by another request's load
+  backgroundRefreshes: number;
+  dedupedRefreshes: number;    // Refreshes skipped because one was in flight
+  refreshErrors: number;
+  savedLoads: number;          // coalesced + dedupedRefreshes
+}
+
+export interface StoredEntry<T = any> {
+  value: T;
+  freshUntil: number; // Epoch ms
+  staleUntil: number; // Epoch ms
+  tags: string[];
+}
+
+export interface EdgeCacheStore {
+  readonly name: string;
+  get(key: string): Promise<StoredEntry | null>;
+  // since is when the value was read from its source; the entry is refused
+  // (false) if one of its tags was purged at or after then
+  set(key: string, entry: StoredEntry, since: number): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  // Deletes every entry carrying any of the tags; returns the deleted keys
+  purgeTags(tags: string[]): Promise<string[]>;
+  // Rejects when the backend can't be reached (readiness checks)
+  ping(): Promise<void>;
+}
+
+type InvalidationListener = (keys: string[]) => void;
+
+// How long a purge refuses writes of values read before it; longer than any load
+const PURGE_MARKER_TTL_MS = 5 * 60 * 1000;
+
+// Tags shared by writers and cached routes
+export const CacheTags = {
+  facility: (id: string) => `facility:${id}`,
+  state: (state: string) => `state:${state.toUpperCase()}`,
+  // Geohash cell (REGION_GEOHASH_PRECISION) a search covered
+  region: (geohash: string) => `region:${geohash}`,
+  // Searches without a location, which any facility may join
+  NATIONWIDE: 'search:nationwide',
+  // Searches whose result set depends on bed availability filters
+  AVAILABILITY_FILTERED: 'search:availability',
+  VIEWPORT: 'viewport'
+};
+
+// In-process store with LRU eviction and a tag -> keys index
+export class MemoryEdgeCacheStore implements EdgeCacheStore {
+  readonly name = 'memory';
+  private entries = new Map<string, StoredEntry>();
+  private tagIndex = new Map<string, Set<string>>();
+  private purgedAt = new Map<string, number>();
+
+  constructor(private readonly maxEntries = 5000) {}
+
+  async get(key: string): Promise<StoredEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.staleUntil <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: StoredEntry, since: number): Promise<boolean> {
+    if (entry.tags.some(tag => (this.purgedAt.get(tag) ?? -Infinity) >= since)) {
+      return false;
+    }
+    this.remove(key);
+
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.remove(oldest);
+    }
+
+    this.entries.set(key, entry);
+    for (const tag of entry.tags) {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
+      }
+      keys.add(key);
+    }
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async purgeTags(tags: string[]): Promise<string[]> {
+    const now = Date.now();
+    for (const [tag, purgedAt] of this.purgedAt) {
+      if (purgedAt <= now - PURGE_MARKER_TTL_MS) this.purgedAt.delete(tag);
+    }
+
+    const purged = new Set<string>();
+    for (const tag of tags) {
+      this.purgedAt.set(tag, now);
+      for (const key of this.tagIndex.get(tag) || []) {
+        purged.add(key);
+      }
+    }
+
+    for (const key of purged) {
+      this.remove(key);
+    }
+    return Array.from(purged);
+  }
+
+  async ping(): Promise<void> {}
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    }
+  }
+}
+
+// Each tag has a sorted set of entry keys scored by when they expire, so
+// members that expired without a purge are pruned on the next write, and a
+// purge marker. Both carry the tag as a hash tag ({tag}), keeping every
+// script on a single Redis Cluster slot.
+const INDEX_TAG_SCRIPT = `
+local since = tonumber(ARGV[4])
+local purgedAt = tonumber(redis.call('GET', KEYS[2]) or '-1')
+if purgedAt >= since then
+  return 0
+end
+local now = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+local last = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+redis.call('PEXPIRE', KEYS[1], math.max(1, tonumber(last[2]) - now))
+return 1
+`;
+
+const PURGE_TAG_SCRIPT = `
+local keys = redis.call('ZRANGEBYSCORE', KEYS[1], ARGV[1], '+inf')
+redis.call('DEL', KEYS[1])
+redis.call('SET', KEYS[2], ARGV[1], 'PX', ARGV[2])
+return keys
+`;
+
+const DELETE_SCRIPT = "return redis.call('DEL', KEYS[1])";
+
+// Entry deletes per round trip batch during a purge
+const PURGE_DELETE_BATCH = 100;
+
+export class RedisEdgeCacheStore implements EdgeCacheStore {
+  readonly name = 'redis';
+
+  constructor(
+    private readonly client: RedisScriptClient,
+    private readonly prefix = 'cache:entry:',
+    private readonly tagPrefix = 'cache:tag:'
+  ) {}
+
+  async get(key: string): Promise<StoredEntry | null> {
+    const raw = await this.client.eval("return redis.call('GET', KEYS[1])", [this.prefix + key], []);
+    return typeof raw === 'string' ? JSON.parse(raw) : null;
+  }
+
+  // The entry is written before it is indexed: a purge in between either
+  // finds it in the index or leaves a marker that refuses the index write
+  async set(key: string, entry: StoredEntry, since: number): Promise<boolean> {
+    const entryKey = this.prefix + key;
+    const now = Date.now();
+    await this.client.eval(
+      "return redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])",
+      [entryKey],
+      [JSON.stringify(entry), Math.max(1, entry.staleUntil - now)]
+    );
+
+    let indexed: unknown[];
+    try {
+      indexed = await Promise.all(entry.tags.map(tag =>
+        this.client.eval(INDEX_TAG_SCRIPT, this.tagKeys(tag), [entryKey, entry.staleUntil, now, since])
+      ));
+    } catch (error) {
+      // An entry missing from a tag index could never be purged
+      await this.delete(key).catch(() => undefined);
+      throw error;
+    }
+
+    if (indexed.every(result => Number(result) === 1)) {
+      return true;
+    }
+    await this.delete(key);
+    return false;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.eval(DELETE_SCRIPT, [this.prefix + key], []);
+  }
+
+  async purgeTags(tags: string[]): Promise<string[]> {
+    if (tags.length === 0) return [];
+
+    const now = Date.now();
+    const indexed = await Promise.all(tags.map(tag =>
+      this.client.eval(PURGE_TAG_SCRIPT, this.tagKeys(tag), [now, PURGE_MARKER_TTL_MS]) as Promise<string[] | null>
+    ));
+    const entryKeys = Array.from(new Set(indexed.flatMap(keys => keys || [])));
+
+    // Entries hash to different slots, so each is deleted on its own
+    const purged: string[] = [];
+    for (let i = 0; i < entryKeys.length; i += PURGE_DELETE_BATCH) {
+      const batch = entryKeys.slice(i, i + PURGE_DELETE_BATCH);
+      const deleted = await Promise.all(batch.map(entryKey => this.client.eval(DELETE_SCRIPT, [entryKey], [])));
+      batch.forEach((entryKey, index) => {
+        if (Number(deleted[index]) === 1) purged.push(entryKey.slice(this.prefix.length));
+      });
+    }
+    return purged;
+  }
+
+  async ping(): Promise<void> {
+    await this.client.eval("return redis.call('PING')", [], []);
+  }
+
+  private tagKeys(tag: string): [string, string] {
+    const index = `${this.tagPrefix}{${tag}}`;
+    return [index, `${index}:purged`];
+  }
+}
+
+function createDefaultStore(): EdgeCacheStore {
+  const redisUrl = process.env.REDIS_REST_URL || process.env.UPSTASH_REDIS_REST_URL;
+  const redisToken = process.env.REDIS_REST_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+  const backend = process.env.EDGE_CACHE_STORE || (redisUrl ? 'redis' : 'memory');
+
+  if (backend === 'redis' && redisUrl && redisToken) {
+    return new RedisEdgeCacheStore(createRestRedisClient(redisUrl, redisToken));
+  }
+  return new MemoryEdgeCacheStore();
+}
+
+// One store per process so every EdgeCache sees the same entries and purges
+let defaultStore: EdgeCacheStore | null = null;
+const invalidationListeners: InvalidationListener[] = [];
+
+export class EdgeCache {
+  // Loads in flight per key (misses and background refreshes), so
+  // concurrent requests for one key share a single loader call
+  private static inFlight = new Map<string, Promise<unknown>>();
+  private static counters = {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    loads: 0,
+    coalesced: 0,
+    backgroundRefreshes: 0,
+    dedupedRefreshes: 0,
+    refreshErrors: 0
+  };
+  private readonly store: EdgeCacheStore;
+
+  constructor(store?: EdgeCacheStore) {
+    if (!store && !defaultStore) {
+      defaultStore = createDefaultStore();
+    }
+    this.store = store ?? defaultStore!;
+  }
+
+  // Notified with the keys of deleted or purged entries (e.g. to drop
+  // copies held in faster local caches)
+  static onInvalidate(listener: InvalidationListener): void {
+    invalidationListeners.push(listener);
+  }
+
+  static getStats(): EdgeCacheStats {
+    const counters = EdgeCache.counters;
+    return { ...counters, savedLoads: counters.coalesced + counters.dedupedRefreshes };
+  }
+
+  get backend(): string {
+    return this.store.name;
+  }
+
+  // Unlike reads, store errors are not swallowed here
+  ping(): Promise<void> {
+    return this.store.ping();
+  }
+
+  private static notify(keys: string[]): void {
+    if (keys.length === 0) return;
+    for (const listener of invalidationListeners) {
+      listener(keys);
+    }
+  }
+
+  // Fresh value only; stale entries count as a miss here
+  async get<T = any>(key: string): Promise<T | null> {
+    const entry = await this.getEntry<T>(key);
+    return entry && !entry.stale ? entry.value : null;
+  }
+
+  async getEntry<T = any>(
+    key: string
+  ): Promise<{ value: T; stale: boolean; freshUntil: number } | null> {
+    try {
+      const entry = await this.store.get(key);
+      if (!entry) return null;
+
+      const now = Date.now();
+      if (entry.staleUntil <= now) return null;
+      return { value: entry.value, stale: entry.freshUntil <= now, freshUntil: entry.freshUntil };
+    } catch (error) {
+      // A cache outage should degrade to misses, not failed requests
+      console.error('Edge cache read failed:', error);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T, options: CacheSetOptions): Promise<void> {
+    await this.write(key, value, options, Date.now());
+  }
+
+  // since is when the value was read, so a purge that ran while it was
+  // loading keeps the outdated value out of the cache
+  private async write<T>(key: string, value: T, options: CacheSetOptions, since: number): Promise<void> {
+    const freshUntil = Date.now() + options.ttl * 1000;
+
+    try {
+      await this.store.set(key, {
+        value,
+        freshUntil,
+        staleUntil: freshUntil + (options.staleWhileRevalidate ?? 0) * 1000,
+        tags: Array.from(new Set(options.tags || []))
+      }, since);
+    } catch (error) {
+      console.error('Edge cache write failed:', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+    EdgeCache.notify([key]);
+  }
+
+  async purgeTags(tags: string[]): Promise<number> {
+    const purged = await this.store.purgeTags(Array.from(new Set(tags)));
+    EdgeCache.notify(purged);
+    return purged.length;
+  }
+
+  // Serve fresh entries, serve stale ones while refreshing in the
+  // background, and load (then cache) on a miss. Concurrent misses for a
+  // key await one load instead of each calling the loader.
+  async getOrSet<T>(
+    key: string,
+    loader: () => Promise<T>,
+    options: CacheGetOrSetOptions<T>
+  ): Promise<{ value: T; state: CacheState }> {
+    const load = async () => {
+      const startedAt = Date.now();
+      const value = await loader();
+      const tags = typeof options.tags === 'function' ? options.tags(value) : options.tags;
+      await this.write(key, value, { ...options, tags }, startedAt);
+      return value;
+    };
+
+    const counters = EdgeCache.counters;
+    const entry = await this.getEntry<T>(key);
+    if (entry && !entry.stale) {
+      counters.hits++;
+      // Refresh popular entries before they expire so they never go stale
+      if (options.refreshAhead && entry.freshUntil - Date.now() <= options.refreshAhead * 1000) {
+        this.refreshInBackground(key, load);
+      }
+      return { value: entry.value, state: 'hit' };
+    }
+
+    if (entry) {
+      counters.staleHits++;
+      this.refreshInBackground(key, load);
+      return { value: entry.value, state: 'stale' };
+    }
+
+    counters.misses++;
+    const { promise, joined } = EdgeCache.singleFlight(key, load);
+    if (joined) {
+      counters.coalesced++;
+    }
+    return { value: await promise, state: joined ? 'coalesced' : 'miss' };
+  }
+
+  private refreshInBackground<T>(key: string, load: () => Promise<T>): void {
+    const { promise, joined } = EdgeCache.singleFlight(key, load);
+    if (joined) {
+      EdgeCache.counters.dedupedRefreshes++;
+      return;
+    }
+
+    EdgeCache.counters.backgroundRefreshes++;
+    promise.catch(error => {
+      EdgeCache.counters.refreshErrors++;
+      console.error(`Edge cache refresh failed for ${key}:`, error);
+    });
+  }
+
+  private static singleFlight<T>(
+    key: string,
+    load: () => Promise<T>
+  ): { promise: Promise<T>; joined: boolean } {
+    const existing = EdgeCache.inFlight.get(key) as Promise<T> | undefined;
+    if (existing) {
+      return { promise: existing, joined: true };
+    }
+
+    EdgeCache.counters.loads++;
+    const promise = load().finally(() => EdgeCache.inFlight.delete(key));
+    EdgeCache.inFlight.set(key, promise);
+    return { promise, joined: false };
+  }
+}
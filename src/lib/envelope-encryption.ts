@@ -0,0 +1,111 @@
+/**
+ * Envelope Encryption
+ * Each value is encrypted with its own random data key (AES-256-GCM); the
+ * data key is wrapped by the key provider's current master key and stored
+ * alongside the ciphertext together with the master key id:
+ *
+ *   enc:v1:<key id>:<wrapped data key>:<iv | auth tag | ciphertext>
+ *
+ * (base64url fields). Rotating the master key only needs the data keys
+ * rewrapped, see rewrapEnvelope().
+ */
+
+import crypto from 'crypto';
+import { getKeyProvider } from '@/lib/key-provider';
+
+const PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DATA_KEY_CACHE_SIZE = 1000; // Avoids a KMS round trip per read
+
+interface Envelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  payload: Buffer;
+}
+
+// Unwrapped data keys by wrapped key, oldest first
+const dataKeyCache = new Map<string, Buffer>();
+
+export function isEnvelope(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+function parseEnvelope(value: string): Envelope {
+  const parts = isEnvelope(value) ? value.slice(PREFIX.length).split(':') : [];
+  if (parts.length !== 3) {
+    throw new Error('Value is not an encryption envelope');
+  }
+  return {
+    keyId: Buffer.from(parts[0], 'base64url').toString('utf8'),
+    wrappedKey: Buffer.from(parts[1], 'base64url'),
+    payload: Buffer.from(parts[2], 'base64url')
+  };
+}
+
+function formatEnvelope(envelope: Envelope): string {
+  return PREFIX + [
+    Buffer.from(envelope.keyId, 'utf8').toString('base64url'),
+    envelope.wrappedKey.toString('base64url'),
+    envelope.payload.toString('base64url')
+  ].join(':');
+}
+
+async function unwrapDataKey(envelope: Envelope): Promise<Buffer> {
+  const cacheKey = `${envelope.keyId}:${envelope.wrappedKey.toString('base64url')}`;
+  const cached = dataKeyCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const dataKey = await getKeyProvider().unwrapKey(envelope.keyId, envelope.wrappedKey);
+  if (dataKeyCache.size >= DATA_KEY_CACHE_SIZE) {
+    dataKeyCache.delete(dataKeyCache.keys().next().value!);
+  }
+  dataKeyCache.set(cacheKey, dataKey);
+  return dataKey;
+}
+
+export async function encryptEnvelope(plaintext: string): Promise<string> {
+  const dataKey = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const { keyId, wrapped } = await getKeyProvider().wrapKey(dataKey);
+
+  return formatEnvelope({
+    keyId,
+    wrappedKey: wrapped,
+    payload: Buffer.concat([iv, cipher.getAuthTag(), ciphertext])
+  });
+}
+
+export async function decryptEnvelope(value: string): Promise<string> {
+  const envelope = parseEnvelope(value);
+  const dataKey = await unwrapDataKey(envelope);
+  const { payload } = envelope;
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', dataKey, payload.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([
+    decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final()
+  ]).toString('utf8');
+}
+
+export function envelopeKeyId(value: string): string {
+  return parseEnvelope(value).keyId;
+}
+
+// Wrapped with a master key other than the current one
+export function needsRewrap(value: string): boolean {
+  return envelopeKeyId(value) !== getKeyProvider().currentKeyId();
+}
+
+// Rewrap the data key under the current master key; the ciphertext is unchanged
+export async function rewrapEnvelope(value: string): Promise<string> {
+  const envelope = parseEnvelope(value);
+  const dataKey = await unwrapDataKey(envelope);
+  const { keyId, wrapped } = await getKeyProvider().wrapKey(dataKey);
+  return formatEnvelope({ keyId, wrappedKey: wrapped, payload: envelope.payload });
+}
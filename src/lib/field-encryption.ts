@@ -0,0 +1,138 @@
+/**
+ * Field Encryption
+ * Column-level encryption for PII and KYC data. Configured columns are
+ * envelope-encrypted on write and decrypted on read (JSON columns hold the
+ * envelope as a JSON string). A column can keep an HMAC blind index so
+ * exact-match lookups, such as operators by email, work without decrypting.
+ */
+
+import crypto from 'crypto';
+import { decryptEnvelope, encryptEnvelope, isEnvelope } from '@/lib/envelope-encryption';
+
+// Type aliases rather than interfaces so they satisfy EncryptedTable's
+// Record<string, unknown> constraint
+export type OperatorRow = {
+  id: string;
+  facilityId: string;
+  name: string;
+  email: string;
+  emailIndex: string;
+  phone: string | null;
+  role: string | null;
+  kycVerified: boolean;
+  kycDocuments: unknown;
+  approvedAt: string | null;
+  approvedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type VerificationRequestRow = {
+  id: string;
+  facilityId: string;
+  operatorId: string | null;
+  requestType: string;
+  status: string;
+  documents: unknown;
+  notes: string | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface FieldSpec {
+  json?: boolean; // Serialized before encryption, parsed after
+  blindIndex?: string; // Column that stores the HMAC of the plaintext
+  normalize?: (value: string) => string; // Applied before indexing
+}
+
+const DEFAULT_BLIND_INDEX_KEY = 'default-dev-blind-index-key';
+
+// Unlike encryption keys, the index key can't be rotated without rebuilding
+// every index column
+function getBlindIndexKey(): string {
+  const key = process.env.BLIND_INDEX_KEY || DEFAULT_BLIND_INDEX_KEY;
+  if (key === DEFAULT_BLIND_INDEX_KEY && process.env.NODE_ENV === 'production') {
+    throw new Error('Refusing to use the default blind index key in production; set BLIND_INDEX_KEY');
+  }
+  return key;
+}
+
+type EncryptedColumn<Row> = keyof Row & string;
+
+export class EncryptedTable<Row extends Record<string, unknown>> {
+  constructor(
+    readonly table: string,
+    readonly fields: { [K in EncryptedColumn<Row>]?: FieldSpec }
+  ) {}
+
+  get columns(): Array<EncryptedColumn<Row>> {
+    return Object.keys(this.fields);
+  }
+
+  private specs(): Array<[EncryptedColumn<Row>, FieldSpec]> {
+    return this.columns.map(column => [column, this.fields[column]!]);
+  }
+
+  blindIndex(column: EncryptedColumn<Row>, value: string): string {
+    const spec = this.fields[column];
+    const normalized = spec?.normalize ? spec.normalize(value) : value.trim();
+    return crypto
+      .createHmac('sha256', getBlindIndexKey())
+      .update(`${this.table}.${column}:${normalized}`)
+      .digest('hex');
+  }
+
+  // Copy of row with configured columns encrypted and their indexes set;
+  // values that are already envelopes are kept as they are
+  async encrypt<T extends Partial<Row>>(row: T): Promise<T> {
+    const encrypted: Record<string, unknown> = { ...row };
+
+    for (const [column, spec] of this.specs()) {
+      if (!(column in row)) continue;
+      const value = row[column];
+
+      if (value === null || value === undefined) {
+        if (spec.blindIndex) encrypted[spec.blindIndex] = null;
+        continue;
+      }
+      if (isEnvelope(value)) continue;
+
+      encrypted[column] = await encryptEnvelope(spec.json ? JSON.stringify(value) : String(value));
+      if (spec.blindIndex) {
+        encrypted[spec.blindIndex] = this.blindIndex(column, String(value));
+      }
+    }
+
+    return encrypted as T;
+  }
+
+  // Copy of row with envelopes decrypted; rows written before encryption
+  // was enabled pass through unchanged
+  async decrypt<T extends Partial<Row>>(row: T): Promise<T> {
+    const decrypted: Record<string, unknown> = { ...row };
+
+    for (const [column, spec] of this.specs()) {
+      const value = row[column];
+      if (!isEnvelope(value)) continue;
+
+      const plaintext = await decryptEnvelope(value);
+      decrypted[column] = spec.json ? JSON.parse(plaintext) : plaintext;
+    }
+
+    return decrypted as T;
+  }
+}
+
+export const operatorFields = new EncryptedTable<OperatorRow>('operators', {
+  email: { blindIndex: 'emailIndex', normalize: email => email.trim().toLowerCase() },
+  phone: {},
+  kycDocuments: { json: true }
+});
+
+export const verificationRequestFields = new EncryptedTable<VerificationRequestRow>('verification_requests', {
+  documents: { json: true }
+});
+
+export const ENCRYPTED_TABLES: Array<EncryptedTable<Record<string, unknown>>> = [operatorFields, verificationRequestFields];
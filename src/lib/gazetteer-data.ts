@@ -0,0 +1,154 @@
+/**
+ * Bundled US Gazetteer
+ * State and city centroids used by the offline geocoder.
+ * Cities list the 3-digit ZIP prefixes (sectional centers) they serve.
+ */
+
+export interface StateCentroid {
+  code: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface CityCentroid {
+  city: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  zipPrefixes: string[];
+}
+
+export const STATE_CENTROIDS: StateCentroid[] = [
+  { code: 'AL', name: 'Alabama', latitude: 32.8067, longitude: -86.7911 },
+  { code: 'AK', name: 'Alaska', latitude: 61.3707, longitude: -152.4044 },
+  { code: 'AZ', name: 'Arizona', latitude: 33.7298, longitude: -111.4312 },
+  { code: 'AR', name: 'Arkansas', latitude: 34.9697, longitude: -92.3731 },
+  { code: 'CA', name: 'California', latitude: 36.1162, longitude: -119.6816 },
+  { code: 'CO', name: 'Colorado', latitude: 39.0598, longitude: -105.3111 },
+  { code: 'CT', name: 'Connecticut', latitude: 41.5978, longitude: -72.7554 },
+  { code: 'DE', name: 'Delaware', latitude: 39.3185, longitude: -75.5071 },
+  { code: 'DC', name: 'District of Columbia', latitude: 38.8974, longitude: -77.0268 },
+  { code: 'FL', name: 'Florida', latitude: 27.7663, longitude: -81.6868 },
+  { code: 'GA', name: 'Georgia', latitude: 33.0406, longitude: -83.6431 },
+  { code: 'HI', name: 'Hawaii', latitude: 21.0943, longitude: -157.4983 },
+  { code: 'ID', name: 'Idaho', latitude: 44.2405, longitude: -114.4788 },
+  { code: 'IL', name: 'Illinois', latitude: 40.3495, longitude: -88.9861 },
+  { code: 'IN', name: 'Indiana', latitude: 39.8494, longitude: -86.2583 },
+  { code: 'IA', name: 'Iowa', latitude: 42.0115, longitude: -93.2105 },
+  { code: 'KS', name: 'Kansas', latitude: 38.5266, longitude: -96.7265 },
+  { code: 'KY', name: 'Kentucky', latitude: 37.6681, longitude: -84.6701 },
+  { code: 'LA', name: 'Louisiana', latitude: 31.1695, longitude: -91.8678 },
+  { code: 'ME', name: 'Maine', latitude: 44.6939, longitude: -69.3819 },
+  { code: 'MD', name: 'Maryland', latitude: 39.0639, longitude: -76.8021 },
+  { code: 'MA', name: 'Massachusetts', latitude: 42.2302, longitude: -71.5301 },
+  { code: 'MI', name: 'Michigan', latitude: 43.3266, longitude: -84.5361 },
+  { code: 'MN', name: 'Minnesota', latitude: 45.6945, longitude: -93.9002 },
+  { code: 'MS', name: 'Mississippi', latitude: 32.7416, longitude: -89.6787 },
+  { code: 'MO', name: 'Missouri', latitude: 38.4561, longitude: -92.2884 },
+  { code: 'MT', name: 'Montana', latitude: 46.9219, longitude: -110.4544 },
+  { code: 'NE', name: 'Nebraska', latitude: 41.1254, longitude: -98.2681 },
+  { code: 'NV', name: 'Nevada', latitude: 38.3135, longitude: -117.0554 },
+  { code: 'NH', name: 'New Hampshire', latitude: 43.4525, longitude: -71.5639 },
+  { code: 'NJ', name: 'New Jersey', latitude: 40.2989, longitude: -74.5210 },
+  { code: 'NM', name: 'New Mexico', latitude: 34.8405, longitude: -106.2485 },
+  { code: 'NY', name: 'New York', latitude: 42.1657, longitude: -74.9481 },
+  { code: 'NC', name: 'North Carolina', latitude: 35.6301, longitude: -79.8064 },
+  { code: 'ND', name: 'North Dakota', latitude: 47.5289, longitude: -99.7840 },
+  { code: 'OH', name: 'Ohio', latitude: 40.3888, longitude: -82.7649 },
+  { code: 'OK', name: 'Oklahoma', latitude: 35.5653, longitude: -96.9289 },
+  { code: 'OR', name: 'Oregon', latitude: 44.5720, longitude: -122.0709 },
+  { code: 'PA', name: 'Pennsylvania', latitude: 40.5908, longitude: -77.2098 },
+  { code: 'RI', name: 'Rhode Island', latitude: 41.6809, longitude: -71.5118 },
+  { code: 'SC', name: 'South Carolina', latitude: 33.8569, longitude: -80.9450 },
+  { code: 'SD', name: 'South Dakota', latitude: 44.2998, longitude: -99.4388 },
+  { code: 'TN', name: 'Tennessee', latitude: 35.7478, longitude: -86.6923 },
+  { code: 'TX', name: 'Texas', latitude: 31.0545, longitude: -97.5635 },
+  { code: 'UT', name: 'Utah', latitude: 40.1500, longitude: -111.8624 },
+  { code: 'VT', name: 'Vermont', latitude: 44.0459, longitude: -72.7107 },
+  { code: 'VA', name: 'Virginia', latitude: 37.7693, longitude: -78.1700 },
+  { code: 'WA', name: 'Washington', latitude: 47.4009, longitude: -121.4905 },
+  { code: 'WV', name: 'West Virginia', latitude: 38.4912, longitude: -80.9545 },
+  { code: 'WI', name: 'Wisconsin', latitude: 44.2685, longitude: -89.6165 },
+  { code: 'WY', name: 'Wyoming', latitude: 42.7560, longitude: -107.3025 }
+];
+
+// Ordered by population so an unqualified name ("Portland") resolves to the larger city
+export const CITY_CENTROIDS: CityCentroid[] = [
+  { city: 'New York', state: 'NY', latitude: 40.7128, longitude: -74.0060, zipPrefixes: ['100', '101', '102', '103', '104', '111', '112', '113', '114', '116'] },
+  { city: 'Los Angeles', state: 'CA', latitude: 34.0522, longitude: -118.2437, zipPrefixes: ['900', '901', '902', '903', '904', '905'] },
+  { city: 'Chicago', state: 'IL', latitude: 41.8781, longitude: -87.6298, zipPrefixes: ['606'] },
+  { city: 'Houston', state: 'TX', latitude: 29.7604, longitude: -95.3698, zipPrefixes: ['770', '772'] },
+  { city: 'Phoenix', state: 'AZ', latitude: 33.4484, longitude: -112.0740, zipPrefixes: ['850'] },
+  { city: 'Philadelphia', state: 'PA', latitude: 39.9526, longitude: -75.1652, zipPrefixes: ['190', '191'] },
+  { city: 'San Antonio', state: 'TX', latitude: 29.4241, longitude: -98.4936, zipPrefixes: ['782'] },
+  { city: 'San Diego', state: 'CA', latitude: 32.7157, longitude: -117.1611, zipPrefixes: ['919', '920', '921'] },
+  { city: 'Dallas', state: 'TX', latitude: 32.7767, longitude: -96.7970, zipPrefixes: ['752', '753'] },
+  { city: 'San Jose', state: 'CA', latitude: 37.3382, longitude: -121.8863, zipPrefixes: ['950', '951'] },
+  { city: 'Austin', state: 'TX', latitude: 30.2672, longitude: -97.7431, zipPrefixes: ['786', '787'] },
+  { city: 'Jacksonville', state: 'FL', latitude: 30.3322, longitude: -81.6557, zipPrefixes: ['320', '322'] },
+  { city: 'Fort Worth', state: 'TX', latitude: 32.7555, longitude: -97.3308, zipPrefixes: ['760', '761'] },
+  { city: 'Columbus', state: 'OH', latitude: 39.9612, longitude: -82.9988, zipPrefixes: ['430', '431', '432'] },
+  { city: 'Charlotte', state: 'NC', latitude: 35.2271, longitude: -80.8431, zipPrefixes: ['280', '281', '282'] },
+  { city: 'San Francisco', state: 'CA', latitude: 37.7749, longitude: -122.4194, zipPrefixes: ['940', '941'] },
+  { city: 'Indianapolis', state: 'IN', latitude: 39.7684, longitude: -86.1581, zipPrefixes: ['460', '461', '462'] },
+  { city: 'Seattle', state: 'WA', latitude: 47.6062, longitude: -122.3321, zipPrefixes: ['980', '981'] },
+  { city: 'Denver', state: 'CO', latitude: 39.7392, longitude: -104.9903, zipPrefixes: ['800', '801', '802'] },
+  { city: 'Washington', state: 'DC', latitude: 38.9072, longitude: -77.0369, zipPrefixes: ['200', '202', '203', '204', '205'] },
+  { city: 'Boston', state: 'MA', latitude: 42.3601, longitude: -71.0589, zipPrefixes: ['021', '022'] },
+  { city: 'El Paso', state: 'TX', latitude: 31.7619, longitude: -106.4850, zipPrefixes: ['798', '799', '885'] },
+  { city: 'Nashville', state: 'TN', latitude: 36.1627, longitude: -86.7816, zipPrefixes: ['370', '371', '372'] },
+  { city: 'Detroit', state: 'MI', latitude: 42.3314, longitude: -83.0458, zipPrefixes: ['480', '481', '482'] },
+  { city: 'Oklahoma City', state: 'OK', latitude: 35.4676, longitude: -97.5164, zipPrefixes: ['730', '731'] },
+  { city: 'Portland', state: 'OR', latitude: 45.5152, longitude: -122.6784, zipPrefixes: ['970', '971', '972'] },
+  { city: 'Las Vegas', state: 'NV', latitude: 36.1699, longitude: -115.1398, zipPrefixes: ['889', '890', '891'] },
+  { city: 'Memphis', state: 'TN', latitude: 35.1495, longitude: -90.0490, zipPrefixes: ['375', '380', '381'] },
+  { city: 'Louisville', state: 'KY', latitude: 38.2527, longitude: -85.7585, zipPrefixes: ['400', '401', '402'] },
+  { city: 'Baltimore', state: 'MD', latitude: 39.2904, longitude: -76.6122, zipPrefixes: ['210', '211', '212'] },
+  { city: 'Milwaukee', state: 'WI', latitude: 43.0389, longitude: -87.9065, zipPrefixes: ['530', '531', '532'] },
+  { city: 'Albuquerque', state: 'NM', latitude: 35.0844, longitude: -106.6504, zipPrefixes: ['870', '871'] },
+  { city: 'Tucson', state: 'AZ', latitude: 32.2226, longitude: -110.9747, zipPrefixes: ['856', '857'] },
+  { city: 'Fresno', state: 'CA', latitude: 36.7378, longitude: -119.7871, zipPrefixes: ['936', '937', '938'] },
+  { city: 'Sacramento', state: 'CA', latitude: 38.5816, longitude: -121.4944, zipPrefixes: ['956', '957', '958'] },
+  { city: 'Kansas City', state: 'MO', latitude: 39.0997, longitude: -94.5786, zipPrefixes: ['640', '641'] },
+  { city: 'Long Beach', state: 'CA', latitude: 33.7701, longitude: -118.1937, zipPrefixes: ['907', '908'] },
+  { city: 'Atlanta', state: 'GA', latitude: 33.7490, longitude: -84.3880, zipPrefixes: ['300', '301', '302', '303', '311'] },
+  { city: 'Omaha', state: 'NE', latitude: 41.2565, longitude: -95.9345, zipPrefixes: ['680', '681'] },
+  { city: 'Raleigh', state: 'NC', latitude: 35.7796, longitude: -78.6382, zipPrefixes: ['275', '276'] },
+  { city: 'Miami', state: 'FL', latitude: 25.7617, longitude: -80.1918, zipPrefixes: ['330', '331', '332'] },
+  { city: 'Oakland', state: 'CA', latitude: 37.8044, longitude: -122.2712, zipPrefixes: ['945', '946', '947'] },
+  { city: 'Minneapolis', state: 'MN', latitude: 44.9778, longitude: -93.2650, zipPrefixes: ['553', '554', '555'] },
+  { city: 'Tampa', state: 'FL', latitude: 27.9506, longitude: -82.4572, zipPrefixes: ['335', '336'] },
+  { city: 'New Orleans', state: 'LA', latitude: 29.9511, longitude: -90.0715, zipPrefixes: ['700', '701'] },
+  { city: 'Wichita', state: 'KS', latitude: 37.6872, longitude: -97.3301, zipPrefixes: ['670', '671', '672'] },
+  { city: 'Cleveland', state: 'OH', latitude: 41.4993, longitude: -81.6944, zipPrefixes: ['440', '441'] },
+  { city: 'Honolulu', state: 'HI', latitude: 21.3069, longitude: -157.8583, zipPrefixes: ['967', '968'] },
+  { city: 'Riverside', state: 'CA', latitude: 33.9806, longitude: -117.3755, zipPrefixes: ['925'] },
+  { city: 'Cincinnati', state: 'OH', latitude: 39.1031, longitude: -84.5120, zipPrefixes: ['450', '451', '452'] },
+  { city: 'St Louis', state: 'MO', latitude: 38.6270, longitude: -90.1994, zipPrefixes: ['630', '631'] },
+  { city: 'Pittsburgh', state: 'PA', latitude: 40.4406, longitude: -79.9959, zipPrefixes: ['150', '151', '152'] },
+  { city: 'Anchorage', state: 'AK', latitude: 61.2181, longitude: -149.9003, zipPrefixes: ['995'] },
+  { city: 'Orlando', state: 'FL', latitude: 28.5383, longitude: -81.3792, zipPrefixes: ['327', '328'] },
+  { city: 'Newark', state: 'NJ', latitude: 40.7357, longitude: -74.1724, zipPrefixes: ['070', '071'] },
+  { city: 'Buffalo', state: 'NY', latitude: 42.8864, longitude: -78.8784, zipPrefixes: ['140', '141', '142'] },
+  { city: 'Boise', state: 'ID', latitude: 43.6150, longitude: -116.2023, zipPrefixes: ['836', '837'] },
+  { city: 'Richmond', state: 'VA', latitude: 37.5407, longitude: -77.4360, zipPrefixes: ['230', '231', '232'] },
+  { city: 'Spokane', state: 'WA', latitude: 47.6588, longitude: -117.4260, zipPrefixes: ['990', '992'] },
+  { city: 'Des Moines', state: 'IA', latitude: 41.5868, longitude: -93.6250, zipPrefixes: ['500', '503'] },
+  { city: 'Birmingham', state: 'AL', latitude: 33.5186, longitude: -86.8104, zipPrefixes: ['350', '351', '352'] },
+  { city: 'Salt Lake City', state: 'UT', latitude: 40.7608, longitude: -111.8910, zipPrefixes: ['840', '841'] },
+  { city: 'Little Rock', state: 'AR', latitude: 34.7465, longitude: -92.2896, zipPrefixes: ['720', '721', '722'] },
+  { city: 'Sioux Falls', state: 'SD', latitude: 43.5446, longitude: -96.7311, zipPrefixes: ['570', '571'] },
+  { city: 'Providence', state: 'RI', latitude: 41.8240, longitude: -71.4128, zipPrefixes: ['028', '029'] },
+  { city: 'Jackson', state: 'MS', latitude: 32.2988, longitude: -90.1848, zipPrefixes: ['390', '391', '392'] },
+  { city: 'Columbia', state: 'SC', latitude: 34.0007, longitude: -81.0348, zipPrefixes: ['290', '291', '292'] },
+  { city: 'Hartford', state: 'CT', latitude: 41.7658, longitude: -72.6734, zipPrefixes: ['060', '061'] },
+  { city: 'Fargo', state: 'ND', latitude: 46.8772, longitude: -96.7898, zipPrefixes: ['580', '581'] },
+  { city: 'Manchester', state: 'NH', latitude: 42.9956, longitude: -71.4548, zipPrefixes: ['030', '031'] },
+  { city: 'Billings', state: 'MT', latitude: 45.7833, longitude: -108.5007, zipPrefixes: ['590', '591'] },
+  { city: 'Wilmington', state: 'DE', latitude: 39.7391, longitude: -75.5398, zipPrefixes: ['197', '198'] },
+  { city: 'Charleston', state: 'WV', latitude: 38.3498, longitude: -81.6326, zipPrefixes: ['250', '251', '253'] },
+  { city: 'Portland', state: 'ME', latitude: 43.6591, longitude: -70.2568, zipPrefixes: ['040', '041'] },
+  { city: 'Cheyenne', state: 'WY', latitude: 41.1400, longitude: -104.8202, zipPrefixes: ['820'] },
+  { city: 'Burlington', state: 'VT', latitude: 44.4759, longitude: -73.2121, zipPrefixes: ['054'] }
+];
@@ -0,0 +1,160 @@
+/**
+ * Location Geocoder
+ * Resolves free-text locations (city/state, "City, ST", ZIP) to coordinates
+ * behind a pluggable interface; the default uses the bundled gazetteer
+ */
+
+import { CITY_CENTROIDS, STATE_CENTROIDS, CityCentroid, StateCentroid } from './gazetteer-data';
+
+// How much ground a result stands for: a 5-digit ZIP centroid, a 3-digit
+// ZIP prefix (sectional center, resolved to its main city), a city or a state
+export type GeocodePrecision = 'zip' | 'zip3' | 'city' | 'state';
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  precision: GeocodePrecision;
+  label: string;
+  source: string;
+}
+
+// Smallest radius, in miles, that covers the area behind a coarse result;
+// a ZIP prefix can span a metro area and its surroundings
+export const MIN_SEARCH_RADIUS_MILES: Partial<Record<GeocodePrecision, number>> = {
+  zip3: 30
+};
+
+export interface Geocoder {
+  geocode(location: string): Promise<GeocodeResult | null>;
+}
+
+// Lowercase, drop punctuation and expand "Saint" so "St. Louis" and "saint louis" match
+function normalizeName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[.'’]/g, '')
+    .replace(/\bsaint\b/g, 'st')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export class GazetteerGeocoder implements Geocoder {
+  private readonly statesByToken = new Map<string, StateCentroid>();
+  private readonly citiesByName = new Map<string, CityCentroid[]>();
+  private readonly citiesByZipPrefix = new Map<string, CityCentroid>();
+
+  constructor(
+    cities: CityCentroid[] = CITY_CENTROIDS,
+    states: StateCentroid[] = STATE_CENTROIDS
+  ) {
+    for (const state of states) {
+      this.statesByToken.set(state.code.toLowerCase(), state);
+      this.statesByToken.set(normalizeName(state.name), state);
+    }
+
+    for (const city of cities) {
+      const key = normalizeName(city.city);
+      const matches = this.citiesByName.get(key) || [];
+      matches.push(city);
+      this.citiesByName.set(key, matches);
+
+      for (const prefix of city.zipPrefixes) {
+        this.citiesByZipPrefix.set(prefix, city);
+      }
+    }
+  }
+
+  async geocode(location: string): Promise<GeocodeResult | null> {
+    const query = location.trim();
+    if (!query) return null;
+
+    // ZIP or ZIP+4
+    const zipMatch = query.match(/^(\d{5})(?:-\d{4})?$/);
+    if (zipMatch) {
+      return this.geocodeZip(zipMatch[1]);
+    }
+
+    const normalized = normalizeName(query.replace(/\s*,\s*/g, ','));
+
+    // "City, ST" / "City, State"
+    if (normalized.includes(',')) {
+      const [cityPart, statePart] = normalized.split(',', 2);
+      const state = this.statesByToken.get(statePart.trim());
+      if (!state) return null;
+      return cityPart.trim()
+        ? this.geocodeCity(cityPart.trim(), state)
+        : this.fromState(state);
+    }
+
+    // Bare city name wins over a same-named state ("New York", "Washington")
+    const bareCity = this.geocodeCity(normalized);
+    if (bareCity) return bareCity;
+
+    // State on its own ("CA", "New Mexico")
+    const state = this.statesByToken.get(normalized);
+    if (state) {
+      return this.fromState(state);
+    }
+
+    // "City ST" / "City State" without a comma: try the longest state suffix first
+    const words = normalized.split(' ');
+    for (let split = 1; split < words.length; split++) {
+      const suffixState = this.statesByToken.get(words.slice(split).join(' '));
+      if (suffixState) {
+        const result = this.geocodeCity(words.slice(0, split).join(' '), suffixState);
+        if (result) return result;
+      }
+    }
+
+    return null;
+  }
+
+  // The bundled table has no 5-digit centroids, only prefixes
+  private geocodeZip(zip: string): GeocodeResult | null {
+    const city = this.citiesByZipPrefix.get(zip.slice(0, 3));
+    if (!city) return null;
+
+    return {
+      latitude: city.latitude,
+      longitude: city.longitude,
+      precision: 'zip3',
+      label: `${zip} (${city.city}, ${city.state})`,
+      source: 'gazetteer'
+    };
+  }
+
+  private geocodeCity(name: string, state?: StateCentroid): GeocodeResult | null {
+    const matches = this.citiesByName.get(name) || [];
+    const city = state ? matches.find(c => c.state === state.code) : matches[0];
+    if (!city) return null;
+
+    return {
+      latitude: city.latitude,
+      longitude: city.longitude,
+      precision: 'city',
+      label: `${city.city}, ${city.state}`,
+      source: 'gazetteer'
+    };
+  }
+
+  private fromState(state: StateCentroid): GeocodeResult {
+    return {
+      latitude: state.latitude,
+      longitude: state.longitude,
+      precision: 'state',
+      label: state.name,
+      source: 'gazetteer'
+    };
+  }
+}
+
+// Active geocoder - swap in a remote provider with setGeocoder()
+let activeGeocoder: Geocoder = new GazetteerGeocoder();
+
+export function getGeocoder(): Geocoder {
+  return activeGeocoder;
+}
+
+export function setGeocoder(geocoder: Geocoder): void {
+  activeGeocoder = geocoder;
+}
@@ -0,0 +1,163 @@
+/**
+ * Health Checks
+ * Per-component checks behind /api/ready. Only a database failure makes the
+ * instance unready. A cache outage, memory pressure and stale ETL data only
+ * degrade it: reads fall back to the database, and routing traffic
+ * elsewhere wouldn't fix a shared Redis or the ETL anyway.
+ */
+
+import { createClient } from '@/lib/supabase';
+import { EdgeCache } from '@/lib/edge-cache';
+import { memoryOptimizer } from '@/lib/memory-optimizer';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface ComponentHealth {
+  status: HealthStatus;
+  responseTime?: number; // ms
+  message?: string;
+  details?: Record<string, string | number | boolean | null>;
+}
+
+export interface ReadinessReport {
+  status: HealthStatus;
+  timestamp: string;
+  uptime: number; // seconds
+  version: string;
+  checks: Record<string, ComponentHealth>;
+}
+
+const CHECK_TIMEOUT_MS = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '2000', 10);
+// Daily sync plus slack for a slow or retried run
+const ETL_MAX_AGE_HOURS = parseFloat(process.env.ETL_SYNC_MAX_AGE_HOURS || '26');
+const ETL_PIPELINE = 'findtreatment';
+
+// A failing check is unhealthy only if the component is critical
+const CRITICAL_COMPONENTS = new Set(['database']);
+
+export const APP_VERSION = process.env.APP_VERSION || process.env.npm_package_version || 'unknown';
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Runs a check with a time limit; a throw or timeout marks it unhealthy
+async function timed(
+  check: () => Promise<Omit<ComponentHealth, 'responseTime'>>
+): Promise<ComponentHealth> {
+  const start = Date.now();
+  try {
+    const result = await withTimeout(check(), CHECK_TIMEOUT_MS);
+    return { ...result, responseTime: Date.now() - start };
+  } catch (error: any) {
+    return {
+      status: 'unhealthy',
+      responseTime: Date.now() - start,
+      message: error?.message || 'Check failed'
+    };
+  }
+}
+
+export function checkDatabase(): Promise<ComponentHealth> {
+  return timed(async () => {
+    const supabase = createClient();
+    const { error } = await supabase.from('facilities').select('id').limit(1);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return { status: 'healthy' };
+  });
+}
+
+export function checkCache(): Promise<ComponentHealth> {
+  return timed(async () => {
+    const cache = new EdgeCache();
+    await cache.ping();
+    return { status: 'healthy', details: { backend: cache.backend } };
+  });
+}
+
+export async function checkMemory(): Promise<ComponentHealth> {
+  const metrics = memoryOptimizer.getMemoryMetrics();
+  const { cacheSize, maxCacheSize } = memoryOptimizer.getStats();
+  const underPressure = metrics.percentage > metrics.threshold;
+
+  return {
+    status: underPressure ? 'degraded' : 'healthy',
+    message: underPressure ? `Heap usage above ${metrics.threshold}%` : undefined,
+    details: {
+      heapUsed: metrics.used,
+      rss: metrics.total,
+      percentage: Math.round(metrics.percentage * 10) / 10,
+      cacheBytes: cacheSize,
+      cacheMaxBytes: maxCacheSize
+    }
+  };
+}
+
+export function checkEtlSync(): Promise<ComponentHealth> {
+  return timed(async () => {
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from('etl_sync_status')
+      .select('lastSync, recordsLoaded, recordsRejected')
+      .eq('pipeline', ETL_PIPELINE)
+      .order('created_at', { ascending: false })
+      .limit(1);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const latest = data?.[0];
+    if (!latest) {
+      return { status: 'degraded', message: 'No ETL sync recorded' };
+    }
+
+    const ageHours = (Date.now() - new Date(latest.lastSync).getTime()) / 3_600_000;
+    const stale = ageHours > ETL_MAX_AGE_HOURS;
+    return {
+      status: stale ? 'degraded' : 'healthy',
+      message: stale ? `Last sync older than ${ETL_MAX_AGE_HOURS}h` : undefined,
+      details: {
+        lastSync: new Date(latest.lastSync).toISOString(),
+        ageHours: Math.round(ageHours * 10) / 10,
+        recordsLoaded: latest.recordsLoaded,
+        recordsRejected: latest.recordsRejected
+      }
+    };
+  });
+}
+
+export async function getReadiness(): Promise<ReadinessReport> {
+  const names = ['database', 'cache', 'memory', 'etlSync'];
+  const results = await Promise.all([checkDatabase(), checkCache(), checkMemory(), checkEtlSync()]);
+
+  const checks: Record<string, ComponentHealth> = {};
+  let status: HealthStatus = 'healthy';
+
+  results.forEach((result, i) => {
+    // Non-critical failures are reported but only degrade the instance
+    if (result.status === 'unhealthy' && !CRITICAL_COMPONENTS.has(names[i])) {
+      result.status = 'degraded';
+    }
+    checks[names[i]] = result;
+
+    if (result.status === 'unhealthy') {
+      status = 'unhealthy';
+    } else if (result.status === 'degraded' && status === 'healthy') {
+      status = 'degraded';
+    }
+  });
+
+  return {
+    status,
+    timestamp: new Date().toISOString(),
+    uptime: Math.round(process.uptime()),
+    version: APP_VERSION,
+    checks
+  };
+}
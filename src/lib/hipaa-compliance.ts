@@ -4,38 +4,64 @@
  */
 
 import crypto from 'crypto';
-
-interface AuditLogEntry {
-  timestamp: Date;
-  userId?: string;
-  action: string;
-  resource: string;
-  ipAddress?: string;
-  userAgent?: string;
-  result: 'success' | 'failure';
-  details?: any;
-}
-
-interface EncryptionConfig {
-  algorithm: string;
-  keyLength: number;
-  ivLength: number;
-}
+import { AuditEntry, auditLogWriter, verifyAuditChain, ChainVerification } from '@/lib/audit-log';
+import { evaluateAccess, AccessAction, Principal } from '@/lib/access-control';
+import { decryptEnvelope, encryptEnvelope } from '@/lib/envelope-encryption';
+import { getKeyProvider } from '@/lib/key-provider';
+import { OperatorRow } from '@/lib/field-encryption';
+
+// Field policies for facility responses
+const FACILITY_LIST_FIELDS = [
+  'id',
+  'name',
+  'city',
+  'state',
+  'zip',
+  'phone',
+  'website',
+  'services',
+  'acceptedInsurance',
+  'amenities',
+  'programs',
+  'capacity',
+  'verified',
+  'latitude',
+  'longitude'
+] as const;
+
+const FACILITY_DETAIL_FIELDS = [
+  ...FACILITY_LIST_FIELDS,
+  'street',
+  'description',
+  'residentialServices',
+  'allServices',
+  'lastUpdated'
+] as const;
+
+// Entries kept in memory for generateComplianceReport; audit_logs has all
+const MAX_RECENT_AUDIT_LOGS = 1000;
+
+// Persisted by default in production; AUDIT_LOG_PERSIST overrides
+const PERSIST_AUDIT_LOGS = process.env.AUDIT_LOG_PERSIST
+  ? process.env.AUDIT_LOG_PERSIST === 'true'
+  : process.env.NODE_ENV === 'production';
+
+// How long a SIGTERM/SIGINT waits for queued audit entries to be written
+const SHUTDOWN_FLUSH_TIMEOUT_MS = 5000;
 
 export class HIPAACompliance {
   private static instance: HIPAACompliance;
-  private auditLogs: AuditLogEntry[] = [];
-  private encryptionKey: Buffer;
-  private readonly encryptionConfig: EncryptionConfig = {
-    algorithm: 'aes-256-gcm',
-    keyLength: 32,
-    ivLength: 16
-  };
+  private auditLogs: AuditEntry[] = [];
 
   private constructor() {
-    // Generate or load encryption key (in production, use key management service)
-    const keyString = process.env.ENCRYPTION_KEY || 'default-dev-key-32-chars-exactly';
-    this.encryptionKey = Buffer.from(keyString.padEnd(32, '0').slice(0, 32));
+    // Fail fast on a missing or default key in production (see key-provider);
+    // a KMS provider is registered later, and builds need no keys
+    if (process.env.ENCRYPTION_KEY_PROVIDER !== 'kms' && process.env.NEXT_PHASE !== 'phase-production-build') {
+      getKeyProvider();
+    }
+    if (PERSIST_AUDIT_LOGS) {
+      this.flushOnShutdown();
+    }
   }
 
   static getInstance(): HIPAACompliance {
@@ -45,101 +71,125 @@ export class HIPAACompliance {
     return HIPAACompliance.instance;
   }
 
-  // Encryption for sensitive data
-  encryptData(data: string): { encrypted: string; iv: string; authTag: string } {
-    const iv = crypto.randomBytes(this.encryptionConfig.ivLength);
-    const cipher = crypto.createCipheriv(
-      this.encryptionConfig.algorithm,
-      this.encryptionKey,
-      iv
-    );
-
-    let encrypted = cipher.update(data, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-
-    const authTag = (cipher as any).getAuthTag();
-
-    return {
-      encrypted,
-      iv: iv.toString('hex'),
-      authTag: authTag.toString('hex')
-    };
+  // Envelope encryption for sensitive data; the result records the master
+  // key id, so it still decrypts after the key is rotated
+  encryptData(data: string): Promise<string> {
+    return encryptEnvelope(data);
   }
 
-  decryptData(encryptedData: string, iv: string, authTag: string): string {
-    const decipher = crypto.createDecipheriv(
-      this.encryptionConfig.algorithm,
-      this.encryptionKey,
-      Buffer.from(iv, 'hex')
-    );
-
-    (decipher as any).setAuthTag(Buffer.from(authTag, 'hex'));
-
-    let decrypted = decipher.update(encryptedData, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-
-    return decrypted;
+  decryptData(encrypted: string): Promise<string> {
+    return decryptEnvelope(encrypted);
   }
 
-  // Audit logging
-  logAccess(entry: Omit<AuditLogEntry, 'timestamp'>): void {
-    const logEntry: AuditLogEntry = {
+  // Audit logging. Entries are written to audit_logs in the background;
+  // if the write queue is full they are dropped and counted (see audit-log)
+  logAccess(entry: Omit<AuditEntry, 'id' | 'timestamp'>): void {
+    const logEntry: AuditEntry = {
       ...entry,
+      id: crypto.randomUUID(),
       timestamp: new Date()
     };
 
     this.auditLogs.push(logEntry);
+    if (this.auditLogs.length > MAX_RECENT_AUDIT_LOGS) {
+      this.auditLogs.shift();
+    }
+
+    if (PERSIST_AUDIT_LOGS) {
+      auditLogWriter.append(logEntry);
+    }
+  }
+
+  // Write queued audit entries now (e.g. before shutdown)
+  flushAuditLogs(): Promise<void> {
+    return auditLogWriter.flush();
+  }
+
+  // Write pending entries before the process exits. On a signal the flush
+  // gets SHUTDOWN_FLUSH_TIMEOUT_MS; the signal is then re-raised unless the
+  // server registered its own handler, which then owns the exit.
+  private flushOnShutdown(): void {
+    if (typeof process === 'undefined' || typeof process.once !== 'function') {
+      return; // Edge runtime
+    }
+
+    process.once('beforeExit', () => {
+      void this.flushAuditLogs();
+    });
 
-    // In production, persist to secure audit log storage
-    if (process.env.NODE_ENV === 'production') {
-      this.persistAuditLog(logEntry);
+    for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+      process.once(signal, () => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<void>(resolve => {
+          timer = setTimeout(resolve, SHUTDOWN_FLUSH_TIMEOUT_MS);
+        });
+        void Promise.race([this.flushAuditLogs(), timeout]).finally(() => {
+          clearTimeout(timer);
+          if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+          }
+        });
+      });
     }
   }
 
-  private async persistAuditLog(entry: AuditLogEntry): Promise<void> {
-    // Implement secure audit log persistence
-    // This should write to a secure, immutable log storage
-    console.log('Audit log:', JSON.stringify(entry));
+  // Check the persisted audit chain for edited, deleted or reordered entries
+  verifyAuditLogs(fromSequence?: number): Promise<ChainVerification> {
+    return verifyAuditChain({ fromSequence });
   }
 
   // Data minimization helpers
-  minimizeFacilityData(facility: any): any {
+  minimizeFacilityData<T extends object>(facility: T) {
     // Only return necessary fields for display
-    const allowedFields = [
-      'id',
-      'name',
-      'city',
-      'state',
-      'zip',
-      'phone',
-      'website',
-      'services',
-      'latitude',
-      'longitude'
-    ];
+    return this.pickFields(facility, FACILITY_LIST_FIELDS);
+  }
 
-    const minimized: any = {};
+  // Facility pages show the full public record, but never internal columns
+  minimizeFacilityDetail<T extends object>(facility: T) {
+    return this.pickFields(facility, FACILITY_DETAIL_FIELDS);
+  }
+
+  // Operator contact details are only public once the operator has passed
+  // KYC and been approved; personal email addresses are never exposed
+  minimizeOperatorContact<T extends Pick<OperatorRow, 'kycVerified' | 'approvedAt'>>(operator: T | null) {
+    if (!operator?.kycVerified || !operator.approvedAt) {
+      return null;
+    }
+
+    return this.pickFields(operator, ['name', 'role', 'phone'] as const);
+  }
+
+  private pickFields<T extends object, K extends string>(
+    record: T,
+    allowedFields: readonly K[]
+  ): Pick<T, Extract<keyof T, K>> {
+    const source = record as Record<string, unknown>;
+    const minimized: Record<string, unknown> = {};
     for (const field of allowedFields) {
-      if (facility[field] !== undefined) {
-        minimized[field] = facility[field];
+      if (source[field] !== undefined) {
+        minimized[field] = source[field];
       }
     }
 
-    return minimized;
+    return minimized as Pick<T, Extract<keyof T, K>>;
   }
 
-  // Access control
-  validateAccess(userId: string, resource: string, action: string): boolean {
-    // Implement role-based access control
-    // For now, log all access attempts
-    this.logAccess({
-      userId,
-      action,
-      resource,
-      result: 'success'
-    });
+  // Access control. Deny by default (see ACCESS_POLICIES); denials are
+  // audited here, granted requests by the routes that serve them.
+  validateAccess(principal: Principal, resource: string, action: AccessAction): boolean {
+    const decision = evaluateAccess(principal, resource, action);
+
+    if (!decision.allowed) {
+      this.logAccess({
+        userId: principal.id,
+        action: `${action}_denied`,
+        resource,
+        result: 'failure',
+        details: { role: principal.role, reason: decision.reason }
+      });
+    }
 
-    return true; // Placeholder - implement actual RBAC
+    return decision.allowed;
   }
 
   // Data retention policy
@@ -223,7 +273,7 @@ Last Updated: ${new Date().toISOString().split('T')[0]}
 
   // Generate compliance report
   generateComplianceReport(): any {
-    const recentLogs = this.auditLogs.slice(-1000); // Last 1000 entries
+    const recentLogs = this.auditLogs; // Last 1000 entries
     const accessByAction = new Map<string, number>();
     const accessByResource = new Map<string, number>();
     let breachAttempts = 0;
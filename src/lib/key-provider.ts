@@ -0,0 +1,190 @@
+/**
+ * Key Providers
+ * Master keys that wrap per-record data keys. The local provider reads
+ * keys from ENCRYPTION_KEYS_FILE, ENCRYPTION_KEYS or ENCRYPTION_KEY; in
+ * production a KMS-backed provider can be registered instead. Retired keys
+ * stay listed so data wrapped with them still decrypts after rotation.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+
+export interface KeyProvider {
+  readonly name: string;
+  // Key that wraps new data keys
+  currentKeyId(): string;
+  wrapKey(dataKey: Buffer): Promise<{ keyId: string; wrapped: Buffer }>;
+  unwrapKey(keyId: string, wrapped: Buffer): Promise<Buffer>;
+}
+
+// Minimal surface of a KMS (AWS KMS, GCP KMS, Vault transit, ...)
+export interface KmsClient {
+  encrypt(keyId: string, plaintext: Buffer): Promise<Buffer>;
+  decrypt(keyId: string, ciphertext: Buffer): Promise<Buffer>;
+}
+
+const DEV_KEY_ID = 'dev';
+const DEV_KEY = 'default-dev-key-32-chars-exactly';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const WRAP_IV_LENGTH = 12;
+const WRAP_TAG_LENGTH = 16;
+
+// 32-byte keys as 64 hex characters, base64, or 32 raw characters. Keys
+// set before key providers existed were used as text zero-padded or cut to
+// 32 characters; they still load, with a warning, so existing deployments
+// start and can rotate to a proper key.
+function decodeKey(value: string, keyId: string): Buffer {
+  const trimmed = value.trim();
+  if (/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+    return Buffer.from(trimmed, 'hex');
+  }
+  const base64 = Buffer.from(trimmed, 'base64');
+  if (base64.length === 32 && /^[A-Za-z0-9+/_-]+={0,2}$/.test(trimmed)) {
+    return base64;
+  }
+  if (Buffer.byteLength(trimmed, 'utf8') === 32) {
+    return Buffer.from(trimmed, 'utf8');
+  }
+
+  const legacy = Buffer.from(value.padEnd(32, '0').slice(0, 32), 'utf8');
+  if (legacy.length !== 32) {
+    throw new Error(`Encryption key "${keyId}" must be 32 bytes (64 hex characters or base64)`);
+  }
+  console.warn(
+    `Encryption key "${keyId}" is not 32 bytes; using it padded or truncated to 32 characters. ` +
+    'Rotate to a key from `openssl rand -base64 32`.'
+  );
+  return legacy;
+}
+
+export class LocalKeyProvider implements KeyProvider {
+  readonly name = 'local';
+
+  constructor(
+    private readonly keys: Map<string, Buffer>,
+    private readonly currentId: string
+  ) {
+    for (const keyId of keys.keys()) {
+      if (!KEY_ID_PATTERN.test(keyId)) {
+        throw new Error(`Invalid encryption key id "${keyId}"`);
+      }
+    }
+    if (!keys.has(currentId)) {
+      throw new Error(`Current encryption key "${currentId}" is not configured`);
+    }
+  }
+
+  currentKeyId(): string {
+    return this.currentId;
+  }
+
+  // AES-256-GCM with the key id as associated data: iv | tag | wrapped key
+  async wrapKey(dataKey: Buffer): Promise<{ keyId: string; wrapped: Buffer }> {
+    const iv = crypto.randomBytes(WRAP_IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.keys.get(this.currentId)!, iv);
+    cipher.setAAD(Buffer.from(this.currentId, 'utf8'));
+    const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return { keyId: this.currentId, wrapped: Buffer.concat([iv, cipher.getAuthTag(), wrapped]) };
+  }
+
+  async unwrapKey(keyId: string, wrapped: Buffer): Promise<Buffer> {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Encryption key "${keyId}" is not configured`);
+    }
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, wrapped.subarray(0, WRAP_IV_LENGTH));
+    decipher.setAAD(Buffer.from(keyId, 'utf8'));
+    decipher.setAuthTag(wrapped.subarray(WRAP_IV_LENGTH, WRAP_IV_LENGTH + WRAP_TAG_LENGTH));
+    return Buffer.concat([
+      decipher.update(wrapped.subarray(WRAP_IV_LENGTH + WRAP_TAG_LENGTH)),
+      decipher.final()
+    ]);
+  }
+
+  usesDefaultKey(): boolean {
+    const dev = Buffer.from(DEV_KEY, 'utf8');
+    return Array.from(this.keys.values()).some(key => key.equals(dev));
+  }
+}
+
+export class KmsKeyProvider implements KeyProvider {
+  readonly name = 'kms';
+
+  constructor(
+    private readonly client: KmsClient,
+    private readonly keyId: string
+  ) {}
+
+  currentKeyId(): string {
+    return this.keyId;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<{ keyId: string; wrapped: Buffer }> {
+    return { keyId: this.keyId, wrapped: await this.client.encrypt(this.keyId, dataKey) };
+  }
+
+  // Older KMS keys are decrypted by whatever key id the data was wrapped with
+  unwrapKey(keyId: string, wrapped: Buffer): Promise<Buffer> {
+    return this.client.decrypt(keyId, wrapped);
+  }
+}
+
+/**
+ * Local keys, first match wins:
+ * - ENCRYPTION_KEYS_FILE: JSON { "current": "<id>", "keys": { "<id>": "<key>" } }
+ * - ENCRYPTION_KEYS: "<id>:<key>,<id>:<key>" with ENCRYPTION_KEY_ID as current
+ *   (default: the first listed)
+ * - ENCRYPTION_KEY: a single key, id ENCRYPTION_KEY_ID (default "primary")
+ * - otherwise a development key, refused in production
+ */
+export function loadLocalKeyProvider(env: NodeJS.ProcessEnv = process.env): LocalKeyProvider {
+  const keys = new Map<string, Buffer>();
+  let currentId: string | undefined = env.ENCRYPTION_KEY_ID;
+
+  if (env.ENCRYPTION_KEYS_FILE) {
+    const file = JSON.parse(fs.readFileSync(env.ENCRYPTION_KEYS_FILE, 'utf8'));
+    for (const [keyId, value] of Object.entries<string>(file.keys || {})) {
+      keys.set(keyId, decodeKey(value, keyId));
+    }
+    currentId = file.current ?? currentId;
+  } else if (env.ENCRYPTION_KEYS) {
+    for (const entry of env.ENCRYPTION_KEYS.split(',').filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const keyId = entry.slice(0, separator).trim();
+      keys.set(keyId, decodeKey(entry.slice(separator + 1), keyId));
+      currentId = currentId ?? keyId;
+    }
+  } else if (env.ENCRYPTION_KEY) {
+    currentId = currentId ?? 'primary';
+    keys.set(currentId, decodeKey(env.ENCRYPTION_KEY, currentId));
+  } else {
+    currentId = DEV_KEY_ID;
+    keys.set(DEV_KEY_ID, Buffer.from(DEV_KEY, 'utf8'));
+  }
+
+  const provider = new LocalKeyProvider(keys, currentId ?? '');
+  if (env.NODE_ENV === 'production' && provider.usesDefaultKey()) {
+    throw new Error(
+      'Refusing to start in production with the default encryption key; ' +
+      'set ENCRYPTION_KEYS_FILE, ENCRYPTION_KEYS or ENCRYPTION_KEY'
+    );
+  }
+  return provider;
+}
+
+let activeProvider: KeyProvider | null = null;
+
+// Called at startup when ENCRYPTION_KEY_PROVIDER=kms
+export function setKeyProvider(provider: KeyProvider): void {
+  activeProvider = provider;
+}
+
+export function getKeyProvider(): KeyProvider {
+  if (!activeProvider) {
+    if (process.env.ENCRYPTION_KEY_PROVIDER === 'kms') {
+      throw new Error('ENCRYPTION_KEY_PROVIDER is "kms" but no KMS key provider has been registered');
+    }
+    activeProvider = loadLocalKeyProvider();
+  }
+  return activeProvider;
+}
@@ -0,0 +1,121 @@
+/**
+ * Map Viewport Clustering
+ * Grid sizing and bounds snapping for viewport searches. Below the cluster
+ * zoom threshold facilities are grouped into square grid cells whose size
+ * halves with every zoom level.
+ */
+
+export interface Viewport {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface MapCluster {
+  id: string;
+  count: number;
+  centroid: { latitude: number; longitude: number };
+  bounds: Viewport;
+  facilityId?: string; // Set when the cell holds a single facility
+}
+
+// Row returned by cluster_facilities_in_viewport
+export interface MapClusterRow {
+  cell_x: number;
+  cell_y: number;
+  count: number;
+  latitude: number;
+  longitude: number;
+  max_lat: number;
+  min_lat: number;
+  max_lng: number;
+  min_lng: number;
+  facility_id: string | null;
+}
+
+export const MIN_ZOOM = 0;
+export const MAX_ZOOM = 22;
+
+// Zoom levels below this return clusters instead of individual facilities
+export const CLUSTER_MAX_ZOOM = (() => {
+  const value = parseInt(process.env.MAP_CLUSTER_MAX_ZOOM || '');
+  return Number.isInteger(value) && value >= MIN_ZOOM && value <= MAX_ZOOM ? value : 11;
+})();
+
+const CELLS_PER_TILE = 4; // Roughly one cluster per 64px on a 256px tile
+
+// A 4K screen shows about 60 x 34 cells; larger viewports are requests
+// for far more clusters than any map displays
+export const MAX_CLUSTER_CELLS = 4096;
+
+export function shouldCluster(zoom: number): boolean {
+  return zoom < CLUSTER_MAX_ZOOM;
+}
+
+// Cell edge length in degrees for a zoom level
+export function getClusterCellSize(zoom: number): number {
+  return 360 / (Math.pow(2, zoom) * CELLS_PER_TILE);
+}
+
+export function validateViewport(viewport: Viewport): string | null {
+  const { north, south, east, west } = viewport;
+
+  if (![north, south, east, west].every(Number.isFinite)) {
+    return 'north, south, east and west must all be numbers';
+  }
+  if (north > 90 || south < -90) return 'north and south must be between -90 and 90';
+  if (east > 180 || west < -180 || east < -180 || west > 180) {
+    return 'east and west must be between -180 and 180';
+  }
+  if (south >= north) return 'south must be less than north';
+
+  return null;
+}
+
+// Grid cells a (snapped) viewport spans, counting across the antimeridian
+export function countClusterCells(viewport: Viewport, cellSize: number): number {
+  const width = viewport.east >= viewport.west
+    ? viewport.east - viewport.west
+    : 360 - viewport.west + viewport.east;
+  const height = viewport.north - viewport.south;
+  return Math.ceil(width / cellSize) * Math.ceil(height / cellSize);
+}
+
+// Expand the viewport outward to whole grid cells so small pans reuse the
+// same clusters (and cache entries). Crossing the antimeridian is preserved.
+export function snapViewport(viewport: Viewport, cellSize: number): Viewport {
+  const snapDown = (value: number, origin: number) =>
+    Math.floor((value + origin) / cellSize) * cellSize - origin;
+  const snapUp = (value: number, origin: number) =>
+    Math.ceil((value + origin) / cellSize) * cellSize - origin;
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+  return {
+    north: round(Math.min(90, snapUp(viewport.north, 90))),
+    south: round(Math.max(-90, snapDown(viewport.south, 90))),
+    east: round(Math.min(180, snapUp(viewport.east, 180))),
+    west: round(Math.max(-180, snapDown(viewport.west, 180)))
+  };
+}
+
+// Build a cluster from a cluster_facilities_in_viewport row
+export function toMapCluster(row: MapClusterRow, zoom: number): MapCluster {
+  const cluster: MapCluster = {
+    id: `${zoom}:${row.cell_x}:${row.cell_y}`,
+    count: row.count,
+    centroid: { latitude: row.latitude, longitude: row.longitude },
+    bounds: {
+      north: row.max_lat,
+      south: row.min_lat,
+      east: row.max_lng,
+      west: row.min_lng
+    }
+  };
+
+  if (row.facility_id) {
+    cluster.facilityId = row.facility_id;
+  }
+
+  return cluster;
+}
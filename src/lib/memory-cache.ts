@@ -0,0 +1,249 @@
+/**
+ * In-Memory Cache
+ * Segmented LRU with a hard byte budget and per-entry TTLs. New entries
+ * start on probation; a second hit promotes them to the protected segment,
+ * so one-off keys (a burst of unique searches) are evicted before entries
+ * that are actually reused. Every operation is O(1): Map insertion order
+ * doubles as recency order.
+ */
+
+export interface MemoryCacheOptions {
+  maxBytes: number;
+  defaultTtlMs?: number;      // Entries never expire when unset
+  protectedRatio?: number;    // Share of the budget for reused entries (default 0.8)
+}
+
+export interface MemoryCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+  hitRate: number;
+}
+
+interface Entry<T> {
+  value: T;
+  size: number;
+  expiresAt: number; // Epoch ms; Infinity when the entry never expires
+}
+
+// Rough heap footprint: UTF-16 strings, 8-byte numbers and a fixed cost
+// per object and property. Walks the value once without serializing it.
+export function estimateSize(value: unknown): number {
+  let bytes = 0;
+  const stack: unknown[] = [value];
+  const seen = new Set<object>();
+
+  while (stack.length > 0) {
+    const item = stack.pop();
+
+    if (typeof item === 'string') {
+      bytes += 2 * item.length;
+    } else if (typeof item === 'number' || typeof item === 'bigint') {
+      bytes += 8;
+    } else if (typeof item === 'boolean' || item === null || item === undefined) {
+      bytes += 4;
+    } else if (typeof item === 'object') {
+      if (seen.has(item)) continue;
+      seen.add(item);
+      bytes += 16;
+
+      if (Array.isArray(item)) {
+        bytes += 8 * item.length;
+        stack.push(...item);
+      } else {
+        for (const [key, nested] of Object.entries(item)) {
+          bytes += 8 + 2 * key.length;
+          stack.push(nested);
+        }
+      }
+    }
+  }
+
+  return bytes;
+}
+
+export class MemoryCache<T = any> {
+  private probation = new Map<string, Entry<T>>();
+  private protectedSegment = new Map<string, Entry<T>>();
+  private probationBytes = 0;
+  private protectedBytes = 0;
+  private readonly maxProtectedBytes: number;
+
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(
+    readonly name: string,
+    private readonly options: MemoryCacheOptions
+  ) {
+    this.maxProtectedBytes = Math.floor(options.maxBytes * (options.protectedRatio ?? 0.8));
+  }
+
+  get size(): number {
+    return this.probation.size + this.protectedSegment.size;
+  }
+
+  get bytes(): number {
+    return this.probationBytes + this.protectedBytes;
+  }
+
+  get(key: string): T | null {
+    const now = Date.now();
+
+    let entry = this.protectedSegment.get(key);
+    if (entry) {
+      this.protectedSegment.delete(key);
+      if (entry.expiresAt <= now) {
+        this.protectedBytes -= entry.size;
+        return this.expire();
+      }
+      // Move to the most recently used end
+      this.protectedSegment.set(key, entry);
+      this.hits++;
+      return entry.value;
+    }
+
+    entry = this.probation.get(key);
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    this.probation.delete(key);
+    this.probationBytes -= entry.size;
+    if (entry.expiresAt <= now) {
+      return this.expire();
+    }
+
+    // Second access: promote, demoting the least recently used protected
+    // entries back to probation if the segment overflows
+    this.protectedSegment.set(key, entry);
+    this.protectedBytes += entry.size;
+    while (this.protectedBytes > this.maxProtectedBytes && this.protectedSegment.size > 1) {
+      const [oldestKey, oldest] = this.protectedSegment.entries().next().value!;
+      this.protectedSegment.delete(oldestKey);
+      this.protectedBytes -= oldest.size;
+      this.probation.set(oldestKey, oldest);
+      this.probationBytes += oldest.size;
+    }
+
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: T, options: { ttlMs?: number; size?: number } = {}): boolean {
+    this.delete(key);
+
+    const size = options.size ?? estimateSize(value);
+    // A single entry larger than the whole budget is never cached
+    if (size > this.options.maxBytes) {
+      return false;
+    }
+
+    const ttlMs = options.ttlMs ?? this.options.defaultTtlMs;
+    this.probation.set(key, {
+      value,
+      size,
+      expiresAt: ttlMs ? Date.now() + ttlMs : Infinity
+    });
+    this.probationBytes += size;
+
+    this.evictUntil(this.options.maxBytes);
+    return true;
+  }
+
+  delete(key: string): boolean {
+    const probationEntry = this.probation.get(key);
+    if (probationEntry) {
+      this.probation.delete(key);
+      this.probationBytes -= probationEntry.size;
+      return true;
+    }
+
+    const protectedEntry = this.protectedSegment.get(key);
+    if (protectedEntry) {
+      this.protectedSegment.delete(key);
+      this.protectedBytes -= protectedEntry.size;
+      return true;
+    }
+
+    return false;
+  }
+
+  clear(): void {
+    this.probation.clear();
+    this.protectedSegment.clear();
+    this.probationBytes = 0;
+    this.protectedBytes = 0;
+  }
+
+  // Evict (probation first, least recently used first) until under targetBytes
+  evictUntil(targetBytes: number): number {
+    let evicted = 0;
+
+    while (this.bytes > targetBytes) {
+      const segment = this.probation.size > 0 ? this.probation : this.protectedSegment;
+      const [oldestKey, oldest] = segment.entries().next().value!;
+      segment.delete(oldestKey);
+      if (segment === this.probation) {
+        this.probationBytes -= oldest.size;
+      } else {
+        this.protectedBytes -= oldest.size;
+      }
+      evicted++;
+    }
+
+    this.evictions += evicted;
+    return evicted;
+  }
+
+  // Drop expired entries; a full scan, so only run it from periodic cleanup
+  pruneExpired(): number {
+    const now = Date.now();
+    let pruned = 0;
+
+    for (const [key, entry] of this.probation) {
+      if (entry.expiresAt <= now) {
+        this.probation.delete(key);
+        this.probationBytes -= entry.size;
+        pruned++;
+      }
+    }
+    for (const [key, entry] of this.protectedSegment) {
+      if (entry.expiresAt <= now) {
+        this.protectedSegment.delete(key);
+        this.protectedBytes -= entry.size;
+        pruned++;
+      }
+    }
+
+    this.expirations += pruned;
+    return pruned;
+  }
+
+  getStats(): MemoryCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.size,
+      bytes: this.bytes,
+      maxBytes: this.options.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+
+  private expire(): null {
+    this.expirations++;
+    this.misses++;
+    return null;
+  }
+}
@@ -3,6 +3,9 @@
  * Implements memory monitoring, garbage collection, and optimization strategies
  */
 
+import { EdgeCache } from '@/lib/edge-cache';
+import { MemoryCache, MemoryCacheOptions, MemoryCacheStats } from '@/lib/memory-cache';
+
 interface MemoryMetrics {
   used: number;
   total: number;
@@ -11,17 +14,12 @@ interface MemoryMetrics {
   threshold: number;
 }
 
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  accessCount: number;
-  size: number;
-}
-
 export class MemoryOptimizer {
   private static instance: MemoryOptimizer;
-  private cacheMap = new Map<string, CacheEntry<any>>();
-  private readonly maxCacheSize = 100 * 1024 * 1024; // 100MB max cache
+  // Each namespace has its own budget so one workload can't evict another's data
+  private caches = new Map<string, MemoryCache>();
+  private readonly maxCacheSize = 100 * 1024 * 1024; // 100MB across all namespaces
+  private readonly defaultNamespaceSize = 16 * 1024 * 1024;
   private readonly memoryThreshold = 0.85; // 85% memory threshold
   private monitoringInterval: NodeJS.Timeout | null = null;
   private lastCleanup = Date.now();
@@ -72,7 +70,8 @@ export class MemoryOptimizer {
     if (metrics.percentage > this.memoryThreshold * 100) {
       console.warn(`High memory usage detected: ${metrics.percentage.toFixed(2)}%`);
       this.performEmergencyCleanup();
-    } else if (metrics.percentage > 70) {
+    } else {
+      // Expired entries are dropped on every check
       this.performRoutineCleanup();
     }
   }
@@ -80,14 +79,9 @@ export class MemoryOptimizer {
   private performEmergencyCleanup(): void {
     console.log('Performing emergency memory cleanup...');
     
-    // Clear least recently used cache entries
-    const sortedEntries = Array.from(this.cacheMap.entries())
-      .sort((a, b) => a[1].accessCount - b[1].accessCount);
-    
-    // Remove 50% of cache
-    const toRemove = Math.floor(sortedEntries.length / 2);
-    for (let i = 0; i < toRemove; i++) {
-      this.cacheMap.delete(sortedEntries[i][0]);
+    // Halve every cache, evicting least recently used entries first
+    for (const cache of this.caches.values()) {
+      cache.evictUntil(Math.floor(cache.bytes / 2));
     }
 
     // Force garbage collection if available
@@ -99,52 +93,49 @@ export class MemoryOptimizer {
   }
 
   private performRoutineCleanup(): void {
-    const now = Date.now();
-    const maxAge = 5 * 60 * 1000; // 5 minutes
-    
-    // Remove old cache entries
-    for (const [key, entry] of this.cacheMap.entries()) {
-      if (now - entry.timestamp > maxAge) {
-        this.cacheMap.delete(key);
-      }
+    for (const cache of this.caches.values()) {
+      cache.pruneExpired();
     }
 
-    this.lastCleanup = now;
+    this.lastCleanup = Date.now();
   }
 
-  cacheData<T>(key: string, data: T, sizeEstimate?: number): void {
-    const size = sizeEstimate || JSON.stringify(data).length;
-    const currentCacheSize = this.getCurrentCacheSize();
+  // Namespaced cache, created on first use. Budgets are carved out of
+  // maxCacheSize; later namespaces get whatever remains.
+  getCache<T = any>(namespace: string, options: Partial<MemoryCacheOptions> = {}): MemoryCache<T> {
+    const existing = this.caches.get(namespace);
+    if (existing) {
+      return existing;
+    }
 
-    // Check if adding this would exceed max cache size
-    if (currentCacheSize + size > this.maxCacheSize) {
-      this.performRoutineCleanup();
+    const allocated = Array.from(this.caches.values())
+      .reduce((total, cache) => total + cache.getStats().maxBytes, 0);
+    const requested = options.maxBytes ?? this.defaultNamespaceSize;
+    const maxBytes = Math.min(requested, this.maxCacheSize - allocated);
+    if (maxBytes < requested) {
+      console.warn(`Memory cache "${namespace}" limited to ${maxBytes} bytes (requested ${requested})`);
     }
 
-    this.cacheMap.set(key, {
-      data,
-      timestamp: Date.now(),
-      accessCount: 1,
-      size
-    });
+    const cache = new MemoryCache<T>(namespace, { ...options, maxBytes: Math.max(0, maxBytes) });
+    this.caches.set(namespace, cache);
+    return cache;
+  }
+
+  cacheData<T>(key: string, data: T, sizeEstimate?: number): void {
+    this.getCache('default').set(key, data, { size: sizeEstimate });
   }
 
   getCachedData<T>(key: string): T | null {
-    const entry = this.cacheMap.get(key);
-    if (entry) {
-      entry.accessCount++;
-      entry.timestamp = Date.now();
-      return entry.data;
-    }
-    return null;
+    return this.getCache<T>('default').get(key);
   }
 
-  private getCurrentCacheSize(): number {
-    let totalSize = 0;
-    for (const entry of this.cacheMap.values()) {
-      totalSize += entry.size;
+  // Remove keys from every namespace
+  removeCachedData(keys: string[]): void {
+    for (const cache of this.caches.values()) {
+      for (const key of keys) {
+        cache.delete(key);
+      }
     }
-    return totalSize;
   }
 
   // Stream processing for large datasets
@@ -192,16 +183,35 @@ export class MemoryOptimizer {
   }
 
   clearCache(): void {
-    this.cacheMap.clear();
+    for (const cache of this.caches.values()) {
+      cache.clear();
+    }
     if (global.gc) {
       global.gc();
     }
   }
 
   getStats() {
+    const caches: Record<string, MemoryCacheStats> = {};
+    const totals = { cacheEntries: 0, cacheSize: 0, hits: 0, misses: 0, evictions: 0, expirations: 0 };
+
+    for (const [namespace, cache] of this.caches) {
+      const stats = cache.getStats();
+      caches[namespace] = stats;
+      totals.cacheEntries += stats.entries;
+      totals.cacheSize += stats.bytes;
+      totals.hits += stats.hits;
+      totals.misses += stats.misses;
+      totals.evictions += stats.evictions;
+      totals.expirations += stats.expirations;
+    }
+
+    const lookups = totals.hits + totals.misses;
     return {
-      cacheEntries: this.cacheMap.size,
-      cacheSize: this.getCurrentCacheSize(),
+      ...totals,
+      maxCacheSize: this.maxCacheSize,
+      hitRate: lookups > 0 ? totals.hits / lookups : 0,
+      caches,
       lastCleanup: new Date(this.lastCleanup).toISOString(),
       memoryMetrics: this.getMemoryMetrics()
     };
@@ -212,4 +222,7 @@ export class MemoryOptimizer {
 export const memoryOptimizer = MemoryOptimizer.getInstance();
 
 // Start monitoring on module load
-memoryOptimizer.startMonitoring();
\ No newline at end of file
+memoryOptimizer.startMonitoring();
+
+// Drop local copies of entries purged from the edge cache
+EdgeCache.onInvalidate(keys => memoryOptimizer.removeCachedData(keys));
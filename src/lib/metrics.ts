@@ -0,0 +1,316 @@
+/**
+ * Metrics Registry
+ * Process-wide counters, gauges and histograms with labels, rendered in
+ * the Prometheus text exposition format (version 0.0.4) at /api/metrics
+ */
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Labels = Record<string, string | number>;
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+// Latency buckets in seconds, tuned around the 2s search target
+export const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  if (Number.isNaN(value)) return 'NaN';
+  return String(value);
+}
+
+function formatLabels(names: string[], values: string[]): string {
+  if (names.length === 0) return '';
+  const pairs = names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+abstract class Metric {
+  abstract readonly type: MetricType;
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[]
+  ) {
+    if (!METRIC_NAME.test(name)) {
+      throw new Error(`Invalid metric name "${name}"`);
+    }
+    for (const label of labelNames) {
+      if (!LABEL_NAME.test(label) || label === 'le') {
+        throw new Error(`Invalid label name "${label}" on ${name}`);
+      }
+    }
+  }
+
+  // Label values in declared order; series are keyed by their joined values
+  protected labelValues(labels: Labels = {}): string[] {
+    return this.labelNames.map(name => {
+      const value = labels[name];
+      if (value === undefined) {
+        throw new Error(`Missing label "${name}" on ${this.name}`);
+      }
+      return String(value);
+    });
+  }
+
+  protected seriesKey(values: string[]): string {
+    return JSON.stringify(values);
+  }
+
+  abstract render(): string[];
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private series = new Map<string, { labels: string[]; value: number }>();
+
+  inc(labels?: Labels, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    const values = this.labelValues(labels);
+    const key = this.seriesKey(values);
+    const current = this.series.get(key);
+    if (current) {
+      current.value += value;
+    } else {
+      this.series.set(key, { labels: values, value });
+    }
+  }
+
+  // Mirror a cumulative count kept elsewhere (read at scrape time)
+  set(labels: Labels | undefined, value: number): void {
+    const values = this.labelValues(labels);
+    this.series.set(this.seriesKey(values), { labels: values, value });
+  }
+
+  render(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private series = new Map<string, { labels: string[]; value: number }>();
+
+  set(labels: Labels | undefined, value: number): void {
+    const values = this.labelValues(labels);
+    this.series.set(this.seriesKey(values), { labels: values, value });
+  }
+
+  inc(labels?: Labels, value = 1): void {
+    const values = this.labelValues(labels);
+    const key = this.seriesKey(values);
+    const current = this.series.get(key);
+    this.series.set(key, { labels: values, value: (current?.value ?? 0) + value });
+  }
+
+  dec(labels?: Labels, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  render(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+interface HistogramSeries {
+  labels: string[];
+  counts: number[]; // Per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, HistogramSeries>();
+  private readonly buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[], buckets = LATENCY_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels | undefined, value: number): void {
+    const values = this.labelValues(labels);
+    const key = this.seriesKey(values);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: values, counts: new Array(this.buckets.length).fill(0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index !== -1) {
+      series.counts[index]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  // Returns a function that records the elapsed seconds when called
+  startTimer(labels?: Labels): () => number {
+    const start = performance.now();
+    return () => {
+      const seconds = (performance.now() - start) / 1000;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    const bucketLabels = [...this.labelNames, 'le'];
+
+    for (const series of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += series.counts[i];
+        lines.push(`${this.name}_bucket${formatLabels(bucketLabels, [...series.labels, formatValue(bound)])} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(bucketLabels, [...series.labels, '+Inf'])} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(this.labelNames, series.labels)} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(this.labelNames, series.labels)} ${series.count}`);
+    }
+
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private static instance: MetricsRegistry;
+  private metrics = new Map<string, Metric>();
+  private collectors: Array<() => void | Promise<void>> = [];
+
+  private constructor() {}
+
+  static getInstance(): MetricsRegistry {
+    if (!MetricsRegistry.instance) {
+      MetricsRegistry.instance = new MetricsRegistry();
+    }
+    return MetricsRegistry.instance;
+  }
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(name, () => new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(name, () => new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, labelNames, buckets));
+  }
+
+  // Runs before each scrape, e.g. to copy stats kept by other modules
+  registerCollector(collector: () => void | Promise<void>): void {
+    this.collectors.push(collector);
+  }
+
+  async render(): Promise<string> {
+    for (const collector of this.collectors) {
+      try {
+        await collector();
+      } catch (error) {
+        console.error('Metrics collector failed:', error);
+      }
+    }
+
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  // Registering the same name twice returns the existing metric, so
+  // modules can declare what they use without coordinating
+  private register<T extends Metric>(name: string, create: () => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      return existing as T;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+export const metricsRegistry = MetricsRegistry.getInstance();
+
+// Shared HTTP metrics (names match the Grafana dashboard)
+export const httpRequestsTotal = metricsRegistry.counter(
+  'http_requests_total',
+  'HTTP requests handled by API routes',
+  ['method', 'endpoint', 'status']
+);
+
+export const httpRequestDuration = metricsRegistry.histogram(
+  'http_request_duration_seconds',
+  'API route latency in seconds',
+  ['method', 'endpoint']
+);
+
+export const rateLimitRejections = metricsRegistry.counter(
+  'http_rate_limit_rejections_total',
+  'Requests rejected with 429 by route rate limits',
+  ['endpoint']
+);
+
+export const databaseErrors = metricsRegistry.counter(
+  'database_errors_total',
+  'Failed database queries',
+  ['endpoint']
+);
+
+export function recordHttpRequest(
+  method: string,
+  endpoint: string,
+  status: number,
+  durationSeconds: number
+): void {
+  httpRequestsTotal.inc({ method, endpoint, status });
+  httpRequestDuration.observe({ method, endpoint }, durationSeconds);
+  if (status === 429) {
+    rateLimitRejections.inc({ endpoint });
+  }
+}
+
+// Wraps a route handler to record the metrics above for every response.
+// endpoint is the route pattern (/api/facilities/[id]), not the request
+// path, to keep label cardinality bounded; a thrown error counts as a 500.
+export function withMetrics<A extends [{ method: string }, ...unknown[]], R extends { status: number }>(
+  endpoint: string,
+  handler: (...args: A) => Promise<R>
+): (...args: A) => Promise<R> {
+  return async (...args: A) => {
+    const start = performance.now();
+    let status = 500;
+    try {
+      const response = await handler(...args);
+      status = response.status;
+      return response;
+    } finally {
+      recordHttpRequest(args[0].method, endpoint, status, (performance.now() - start) / 1000);
+    }
+  };
+}
@@ -0,0 +1,310 @@
+/**
+ * Operators and Verification Requests
+ * Write and read paths for facility operators (with their KYC documents)
+ * and the verification requests they submit. Every write goes through the
+ * EncryptedTable definitions, so PII and documents are encrypted, and
+ * emails indexed, before they reach the database; reads come back decrypted.
+ */
+
+import crypto from 'crypto';
+import { createClient } from '@/lib/supabase';
+import { ApiError } from '@/lib/api-errors';
+import {
+  operatorFields,
+  verificationRequestFields,
+  OperatorRow,
+  VerificationRequestRow
+} from '@/lib/field-encryption';
+
+export type ReviewDecision = 'approved' | 'rejected';
+
+export const REVIEW_DECISIONS: ReviewDecision[] = ['approved', 'rejected'];
+
+export const OPERATOR_CHANGE_FIELDS = [
+  'name', 'email', 'phone', 'role', 'kycVerified', 'kycDocuments', 'approved'
+] as const;
+
+export interface OperatorInput {
+  facilityId: string;
+  name: string;
+  email: string;
+  phone?: string | null;
+  role?: string | null;
+  kycDocuments?: unknown;
+}
+
+export interface OperatorChanges {
+  name?: string;
+  email?: string;
+  phone?: string | null;
+  role?: string | null;
+  kycVerified?: boolean;
+  kycDocuments?: unknown;
+  approved?: boolean; // Sets or clears approvedAt and approvedBy
+}
+
+export interface VerificationRequestInput {
+  facilityId: string;
+  operatorId: string | null;
+  requestType: string;
+  documents?: unknown;
+  notes?: string | null;
+}
+
+export interface VerificationReview {
+  status: ReviewDecision;
+  notes?: string;
+}
+
+type ValidationIssue = { field: string; message: string } | null;
+
+const OPERATOR_COLUMNS = 'id, facilityId, name, email, emailIndex, phone, role, kycVerified, ' +
+  'kycDocuments, approvedAt, approvedBy, createdAt, updatedAt';
+const VERIFICATION_REQUEST_COLUMNS = 'id, facilityId, operatorId, requestType, status, documents, ' +
+  'notes, reviewedBy, reviewedAt, createdAt, updatedAt';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Postgres error codes surfaced by PostgREST
+const UNIQUE_VIOLATION = '23505';
+const FOREIGN_KEY_VIOLATION = '23503';
+
+function isText(value: unknown, maxLength: number): boolean {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+function isDocuments(value: unknown): boolean {
+  return typeof value === 'object'; // Includes arrays and null
+}
+
+export function validateOperatorInput(input: Record<string, unknown>): ValidationIssue {
+  if (!isText(input.facilityId, 100)) {
+    return { field: 'facilityId', message: 'facilityId is required' };
+  }
+  return validateOperatorFields(input, true);
+}
+
+export function validateOperatorChanges(input: Record<string, unknown>): ValidationIssue {
+  if (!OPERATOR_CHANGE_FIELDS.some(field => input[field] !== undefined)) {
+    return { field: 'name', message: `Provide at least one of: ${OPERATOR_CHANGE_FIELDS.join(', ')}` };
+  }
+  if (input.kycVerified !== undefined && typeof input.kycVerified !== 'boolean') {
+    return { field: 'kycVerified', message: 'kycVerified must be a boolean' };
+  }
+  if (input.approved !== undefined && typeof input.approved !== 'boolean') {
+    return { field: 'approved', message: 'approved must be a boolean' };
+  }
+  return validateOperatorFields(input, false);
+}
+
+function validateOperatorFields(input: Record<string, unknown>, required: boolean): ValidationIssue {
+  if ((required || input.name !== undefined) && !isText(input.name, 200)) {
+    return { field: 'name', message: 'name must be a non-empty string of at most 200 characters' };
+  }
+  if ((required || input.email !== undefined) &&
+    !(typeof input.email === 'string' && input.email.length <= 254 && EMAIL_PATTERN.test(input.email.trim()))) {
+    return { field: 'email', message: 'email must be a valid email address' };
+  }
+  if (input.phone != null && !isText(input.phone, 40)) {
+    return { field: 'phone', message: 'phone must be a string of at most 40 characters' };
+  }
+  if (input.role != null && !isText(input.role, 100)) {
+    return { field: 'role', message: 'role must be a string of at most 100 characters' };
+  }
+  if (input.kycDocuments !== undefined && !isDocuments(input.kycDocuments)) {
+    return { field: 'kycDocuments', message: 'kycDocuments must be an object, an array or null' };
+  }
+  return null;
+}
+
+export function validateVerificationRequest(input: Record<string, unknown>): ValidationIssue {
+  if (!isText(input.requestType, 50)) {
+    return { field: 'requestType', message: 'requestType must be a non-empty string of at most 50 characters' };
+  }
+  if (input.documents !== undefined && !isDocuments(input.documents)) {
+    return { field: 'documents', message: 'documents must be an object, an array or null' };
+  }
+  if (input.notes != null && !isText(input.notes, 2000)) {
+    return { field: 'notes', message: 'notes must be a string of at most 2000 characters' };
+  }
+  return null;
+}
+
+export function validateVerificationReview(input: Record<string, unknown>): ValidationIssue {
+  if (!REVIEW_DECISIONS.includes(input.status as ReviewDecision)) {
+    return { field: 'status', message: `status must be one of: ${REVIEW_DECISIONS.join(', ')}` };
+  }
+  if (input.notes !== undefined && !isText(input.notes, 2000)) {
+    return { field: 'notes', message: 'notes must be a string of at most 2000 characters' };
+  }
+  return null;
+}
+
+// Constraint violations become client errors; anything else is rethrown
+function toStoreError(error: { code?: string; message?: string }): unknown {
+  if (error.code === UNIQUE_VIOLATION) {
+    return new ApiError('CONFLICT', 'An operator with this email already exists', 'email');
+  }
+  if (error.code === FOREIGN_KEY_VIOLATION) {
+    return new ApiError('NOT_FOUND', 'Facility not found', 'facilityId');
+  }
+  return error;
+}
+
+export async function createOperator(input: OperatorInput): Promise<OperatorRow> {
+  const supabase = createClient();
+  const row = await operatorFields.encrypt({
+    id: crypto.randomUUID(),
+    facilityId: input.facilityId,
+    name: input.name.trim(),
+    email: input.email.trim(),
+    phone: input.phone ?? null,
+    role: input.role ?? null,
+    kycVerified: false,
+    kycDocuments: input.kycDocuments ?? null,
+    updatedAt: new Date().toISOString()
+  });
+
+  const { data, error } = await supabase
+    .from('operators')
+    .insert(row)
+    .select(OPERATOR_COLUMNS)
+    .single();
+
+  if (error) {
+    throw toStoreError(error);
+  }
+
+  return operatorFields.decrypt(data);
+}
+
+export async function getOperator(id: string): Promise<OperatorRow | null> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('operators')
+    .select(OPERATOR_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? operatorFields.decrypt(data) : null;
+}
+
+export async function updateOperator(
+  id: string,
+  changes: OperatorChanges,
+  updatedBy: string
+): Promise<OperatorRow> {
+  const now = new Date().toISOString();
+  const updates: Partial<OperatorRow> = { updatedAt: now };
+
+  if (changes.name !== undefined) updates.name = changes.name.trim();
+  if (changes.email !== undefined) updates.email = changes.email.trim();
+  if (changes.phone !== undefined) updates.phone = changes.phone;
+  if (changes.role !== undefined) updates.role = changes.role;
+  if (changes.kycVerified !== undefined) updates.kycVerified = changes.kycVerified;
+  if (changes.kycDocuments !== undefined) updates.kycDocuments = changes.kycDocuments;
+  if (changes.approved !== undefined) {
+    updates.approvedAt = changes.approved ? now : null;
+    updates.approvedBy = changes.approved ? updatedBy : null;
+  }
+
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('operators')
+    .update(await operatorFields.encrypt(updates))
+    .eq('id', id)
+    .select(OPERATOR_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw toStoreError(error);
+  }
+  if (!data) {
+    throw new ApiError('NOT_FOUND', 'Operator not found', 'id');
+  }
+
+  return operatorFields.decrypt(data);
+}
+
+export async function createVerificationRequest(
+  input: VerificationRequestInput
+): Promise<VerificationRequestRow> {
+  const supabase = createClient();
+  const row = await verificationRequestFields.encrypt({
+    id: crypto.randomUUID(),
+    facilityId: input.facilityId,
+    operatorId: input.operatorId,
+    requestType: input.requestType.trim(),
+    status: 'pending',
+    documents: input.documents ?? null,
+    notes: input.notes ?? null,
+    updatedAt: new Date().toISOString()
+  });
+
+  const { data, error } = await supabase
+    .from('verification_requests')
+    .insert(row)
+    .select(VERIFICATION_REQUEST_COLUMNS)
+    .single();
+
+  if (error) {
+    throw toStoreError(error);
+  }
+
+  return verificationRequestFields.decrypt(data);
+}
+
+export async function getVerificationRequest(id: string): Promise<VerificationRequestRow | null> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('verification_requests')
+    .select(VERIFICATION_REQUEST_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? verificationRequestFields.decrypt(data) : null;
+}
+
+// Decide a pending request; a request is only ever reviewed once
+export async function reviewVerificationRequest(
+  id: string,
+  review: VerificationReview,
+  reviewedBy: string
+): Promise<VerificationRequestRow> {
+  const now = new Date().toISOString();
+  const updates: Partial<VerificationRequestRow> = {
+    status: review.status,
+    reviewedBy,
+    reviewedAt: now,
+    updatedAt: now
+  };
+  if (review.notes !== undefined) {
+    updates.notes = review.notes;
+  }
+
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('verification_requests')
+    .update(updates)
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select(VERIFICATION_REQUEST_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApiError('NOT_FOUND', 'Verification request not found or already reviewed', 'id');
+  }
+
+  return verificationRequestFields.decrypt(data);
+}
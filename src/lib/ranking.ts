@@ -0,0 +1,94 @@
+/**
+ * Search Result Ranking
+ * Sort modes and the weights behind the relevance score. Scores are
+ * computed in search_facilities_nearby; weights come from the environment.
+ */
+
+export type SortMode = 'relevance' | 'distance' | 'availability' | 'quality';
+
+export const SORT_MODES: SortMode[] = ['relevance', 'distance', 'availability', 'quality'];
+
+export interface RankingWeights {
+  distance: number;
+  quality: number;
+  verified: number;
+  availability: number;
+  text: number;
+}
+
+export interface FactorScores extends RankingWeights {
+  relevance: number;
+}
+
+// Score columns of a search_facilities_nearby row
+export interface FactorScoreColumns {
+  distance_score: number;
+  quality_score: number;
+  verified_score: number;
+  availability_score: number;
+  text_score: number;
+  relevance_score: number;
+}
+
+const DEFAULT_WEIGHTS: RankingWeights = {
+  distance: 0.4,
+  quality: 0.2,
+  verified: 0.2,
+  availability: 0.2,
+  text: 0.3
+};
+
+function readWeight(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function normalize(weights: RankingWeights): RankingWeights {
+  const total = weights.distance + weights.quality + weights.verified +
+    weights.availability + weights.text;
+
+  return {
+    distance: weights.distance / total,
+    quality: weights.quality / total,
+    verified: weights.verified / total,
+    availability: weights.availability / total,
+    text: weights.text / total
+  };
+}
+
+// Weights are normalised so the relevance score stays within 0-1; the text
+// weight only applies when the search has a text query
+export function getRankingWeights(includeText = false): RankingWeights {
+  const weights: RankingWeights = {
+    distance: readWeight('SEARCH_WEIGHT_DISTANCE', DEFAULT_WEIGHTS.distance),
+    quality: readWeight('SEARCH_WEIGHT_QUALITY', DEFAULT_WEIGHTS.quality),
+    verified: readWeight('SEARCH_WEIGHT_VERIFIED', DEFAULT_WEIGHTS.verified),
+    availability: readWeight('SEARCH_WEIGHT_AVAILABILITY', DEFAULT_WEIGHTS.availability),
+    text: includeText ? readWeight('SEARCH_WEIGHT_TEXT', DEFAULT_WEIGHTS.text) : 0
+  };
+
+  const allZero = Object.values(weights).every(weight => weight === 0);
+  if (allZero) {
+    return normalize({ ...DEFAULT_WEIGHTS, text: includeText ? DEFAULT_WEIGHTS.text : 0 });
+  }
+
+  return normalize(weights);
+}
+
+// Sorts that use the availability score, which ages with each confirmation;
+// their pages are scored as of the first page's time (see search-cursor)
+export function isTimeDependentSort(sort: SortMode): boolean {
+  return sort === 'relevance' || sort === 'availability';
+}
+
+// Per-factor scores from a search row, returned in debug mode
+export function toFactorScores(row: FactorScoreColumns): FactorScores {
+  return {
+    distance: row.distance_score,
+    quality: row.quality_score,
+    verified: row.verified_score,
+    availability: row.availability_score,
+    text: row.text_score,
+    relevance: row.relevance_score
+  };
+}
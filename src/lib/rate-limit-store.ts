@@ -0,0 +1,263 @@
+/**
+ * Rate Limit Storage
+ * Backends for RateLimiter buckets. In-memory buckets only hold per
+ * isolate; Redis (sliding-window log in an atomic Lua script) and
+ * Postgres (sliding-window counter) enforce limits across instances.
+ */
+
+import { createClient } from '@/lib/supabase';
+
+export interface RateLimitPolicy {
+  limit: number;    // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;    // Epoch ms when the full limit is available again
+  retryAfter: number; // Seconds until the next request is allowed (0 when allowed)
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+}
+
+// Minimal EVAL surface so any Redis client (ioredis, node-redis, REST) can back the store
+export interface RedisScriptClient {
+  eval(script: string, keys: string[], args: Array<string | number>): Promise<unknown>;
+}
+
+// A request to Redis that takes longer than this counts as a failure
+const REDIS_REST_TIMEOUT_MS = parseInt(process.env.REDIS_REST_TIMEOUT_MS || '500', 10);
+// How long a failed store is skipped before it is tried again
+const STORE_COOLDOWN_MS = 30000;
+
+interface TokenBucket {
+  tokens: number;
+  lastRefill: number;
+}
+
+// Token buckets in process memory with LRU eviction
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  // Map iteration order doubles as recency order for LRU eviction
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(private readonly maxKeys = 10000) {}
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    const refillRate = policy.limit / policy.windowMs;
+    let bucket = this.buckets.get(key);
+
+    if (bucket) {
+      this.buckets.delete(key);
+      const timePassed = now - bucket.lastRefill;
+      bucket.tokens = Math.min(policy.limit, bucket.tokens + timePassed * refillRate);
+      bucket.lastRefill = now;
+    } else {
+      bucket = { tokens: policy.limit, lastRefill: now };
+      if (this.buckets.size >= this.maxKeys) {
+        const oldest = this.buckets.keys().next().value;
+        if (oldest !== undefined) {
+          this.buckets.delete(oldest);
+        }
+      }
+    }
+    this.buckets.set(key, bucket);
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+
+    return {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.floor(bucket.tokens),
+      resetAt: now + Math.ceil((policy.limit - bucket.tokens) / refillRate),
+      retryAfter: allowed ? 0 : Math.ceil((1 - bucket.tokens) / refillRate / 1000)
+    };
+  }
+}
+
+// Sliding-window log: one sorted-set member per request, scored by Redis
+// server time so instance clocks don't matter
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local window = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+local count = redis.call('ZCARD', key)
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', key, now, now .. '-' .. ARGV[3])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', key, window)
+
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+local oldestScore = now
+if oldest[2] then
+  oldestScore = tonumber(oldest[2])
+end
+return { allowed, count, oldestScore, now }
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+
+  constructor(private readonly client: RedisScriptClient) {}
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const nonce = Math.random().toString(36).slice(2, 10);
+    const reply = await this.client.eval(
+      SLIDING_WINDOW_SCRIPT,
+      [key],
+      [policy.windowMs, policy.limit, nonce]
+    ) as number[];
+
+    const [allowed, count, oldest, now] = reply.map(Number);
+    const resetAt = oldest + policy.windowMs;
+
+    return {
+      allowed: allowed === 1,
+      limit: policy.limit,
+      remaining: Math.max(0, policy.limit - count),
+      resetAt,
+      retryAfter: allowed === 1 ? 0 : Math.max(1, Math.ceil((resetAt - now) / 1000))
+    };
+  }
+}
+
+// Sliding-window counter in Postgres via consume_rate_limit()
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres';
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const supabase = createClient();
+    const { data, error } = await supabase.rpc('consume_rate_limit', {
+      bucket_key: key,
+      max_requests: policy.limit,
+      window_ms: policy.windowMs
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      allowed: row.allowed,
+      limit: policy.limit,
+      remaining: row.remaining,
+      resetAt: Number(row.reset_at),
+      retryAfter: row.allowed ? 0 : Math.max(1, Math.ceil(Number(row.retry_after_ms) / 1000))
+    };
+  }
+}
+
+// Tries each store in order; a store that errors falls through to the next
+// and is skipped for a cooldown, so an outage costs one failed call per
+// cooldown rather than one per request. The last store is always tried.
+export class FallbackRateLimitStore implements RateLimitStore {
+  readonly name: string;
+  // 0 while healthy; otherwise when the store may be tried again
+  private retryAt: number[];
+
+  constructor(
+    private readonly stores: RateLimitStore[],
+    private readonly cooldownMs = STORE_COOLDOWN_MS
+  ) {
+    this.name = stores.map(store => store.name).join('>');
+    this.retryAt = stores.map(() => 0);
+  }
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    let lastError: unknown;
+
+    for (const [index, store] of this.stores.entries()) {
+      const isLast = index === this.stores.length - 1;
+      if (!isLast && this.retryAt[index] > Date.now()) {
+        continue;
+      }
+
+      try {
+        const result = await store.consume(key, policy);
+        if (this.retryAt[index] !== 0) {
+          this.retryAt[index] = 0;
+          console.warn(`Rate limit store "${store.name}" recovered`);
+        }
+        return result;
+      } catch (error) {
+        lastError = error;
+        // Logged when the store goes down, not on every retry while it is
+        if (this.retryAt[index] === 0) {
+          console.error(`Rate limit store "${store.name}" failed; skipping it for ${this.cooldownMs / 1000}s:`, error);
+        }
+        this.retryAt[index] = Date.now() + this.cooldownMs;
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+// Redis over HTTP (Upstash REST API, or serverless-redis-http in front of a
+// local container); works on the edge runtime where TCP clients don't
+export function createRestRedisClient(url: string, token: string): RedisScriptClient {
+  return {
+    async eval(script, keys, args) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(['EVAL', script, keys.length, ...keys, ...args.map(String)]),
+        signal: AbortSignal.timeout(REDIS_REST_TIMEOUT_MS)
+      });
+
+      const body = await response.json().catch(() => null);
+      if (!response.ok || !body || body.error) {
+        throw new Error(`Redis REST request failed: ${body?.error || response.status}`);
+      }
+
+      return body.result;
+    }
+  };
+}
+
+// RATE_LIMIT_STORE picks the backend (memory, redis or postgres). Shared
+// stores fall back to Postgres, then to memory, so an outage degrades to
+// per-instance limits instead of failing requests.
+export function createRateLimitStore(): RateLimitStore {
+  const redisUrl = process.env.REDIS_REST_URL || process.env.UPSTASH_REDIS_REST_URL;
+  const redisToken = process.env.REDIS_REST_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+  const backend = process.env.RATE_LIMIT_STORE || (redisUrl ? 'redis' : 'memory');
+  const memory = new MemoryRateLimitStore();
+
+  if (backend === 'redis' && redisUrl && redisToken) {
+    return new FallbackRateLimitStore([
+      new RedisRateLimitStore(createRestRedisClient(redisUrl, redisToken)),
+      new PostgresRateLimitStore(),
+      memory
+    ]);
+  }
+
+  if (backend === 'redis' || backend === 'postgres') {
+    if (backend === 'redis') {
+      console.warn('RATE_LIMIT_STORE=redis but REDIS_REST_URL/REDIS_REST_TOKEN are not set; using postgres');
+    }
+    return new FallbackRateLimitStore([new PostgresRateLimitStore(), memory]);
+  }
+
+  return memory;
+}
@@ -1,13 +1,27 @@
 /**
  * Rate Limiter with Exponential Backoff
- * Implements token bucket algorithm with retry logic
+ * Per-client limits (IP, API key or user) over a pluggable store, with retry logic.
+ * Loaded by the Edge middleware (via api-keys), so it sticks to Web APIs.
  */
 
+import {
+  createRateLimitStore,
+  MemoryRateLimitStore,
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore
+} from '@/lib/rate-limit-store';
+
+export type { RateLimitResult, RateLimitStore } from '@/lib/rate-limit-store';
+
 interface RateLimiterConfig {
   requests: number;      // Number of allowed requests
   per: number;          // Time period in milliseconds
   maxRetries?: number;  // Maximum retry attempts
   initialDelay?: number; // Initial retry delay
+  name?: string;        // Namespaces this limiter's buckets in a shared store
+  store?: RateLimitStore; // Defaults to a private in-memory store
+  maxKeys?: number;     // In-memory buckets kept before LRU eviction
 }
 
 interface RetryConfig {
@@ -17,18 +31,19 @@ interface RetryConfig {
   factor: number;
 }
 
+// Key for callers that don't identify a client
+const GLOBAL_KEY = 'global';
+
 export class RateLimiter {
-  private tokens: number;
-  private lastRefill: number;
-  private readonly maxTokens: number;
-  private readonly refillRate: number;
+  private readonly policy: RateLimitPolicy;
+  private readonly name: string;
+  private readonly store: RateLimitStore;
   private readonly retryConfig: RetryConfig;
 
   constructor(config: RateLimiterConfig) {
-    this.maxTokens = config.requests;
-    this.tokens = config.requests;
-    this.refillRate = config.requests / config.per;
-    this.lastRefill = Date.now();
+    this.policy = { limit: config.requests, windowMs: config.per };
+    this.name = config.name ?? 'default';
+    this.store = config.store ?? new MemoryRateLimitStore(config.maxKeys);
     
     this.retryConfig = {
       maxRetries: config.maxRetries ?? 3,
@@ -38,30 +53,20 @@ export class RateLimiter {
     };
   }
 
-  private refillTokens(): void {
-    const now = Date.now();
-    const timePassed = now - this.lastRefill;
-    const tokensToAdd = (timePassed * this.refillRate);
-    
-    this.tokens = Math.min(this.maxTokens, this.tokens + tokensToAdd);
-    this.lastRefill = now;
+  // Take a request from the key's bucket and report the bucket state
+  async consume(key: string = GLOBAL_KEY): Promise<RateLimitResult> {
+    return this.store.consume(`ratelimit:${this.name}:${key}`, this.policy);
   }
 
-  async canMakeRequest(): Promise<boolean> {
-    this.refillTokens();
-    
-    if (this.tokens >= 1) {
-      this.tokens -= 1;
-      return true;
-    }
-    
-    return false;
+  async canMakeRequest(key: string = GLOBAL_KEY): Promise<boolean> {
+    return (await this.consume(key)).allowed;
   }
 
-  async waitForToken(): Promise<void> {
-    while (!(await this.canMakeRequest())) {
-      const waitTime = Math.ceil((1 - this.tokens) / this.refillRate);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+  async waitForToken(key: string = GLOBAL_KEY): Promise<void> {
+    let result = await this.consume(key);
+    while (!result.allowed) {
+      await new Promise(resolve => setTimeout(resolve, result.retryAfter * 1000));
+      result = await this.consume(key);
     }
   }
 
@@ -98,6 +103,64 @@ export class RateLimiter {
   }
 }
 
+// Proxies in front of the app that append to X-Forwarded-For (1: the nginx
+// or load balancer hop; 0: none, so forwarding headers are ignored)
+const TRUSTED_PROXY_HOPS = parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10);
+
+// What identifies the caller beyond its headers
+export interface ClientIdentity {
+  principalId?: string; // Resolved principal, e.g. "user:<id>"
+}
+
+// Client address for a request. Each proxy appends the address it saw to
+// X-Forwarded-For, so only the entry added by the outermost trusted proxy
+// is reliable; anything to its left is whatever the client sent.
+export function getClientIp(headers: Headers): string {
+  if (TRUSTED_PROXY_HOPS <= 0) {
+    return 'unknown';
+  }
+
+  const hops = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  if (hops.length > 0) {
+    return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)];
+  }
+  return headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+// Bucket key for a request: authenticated principal, then API key, then
+// client IP
+export async function getClientKey(headers: Headers, client: ClientIdentity = {}): Promise<string> {
+  if (client.principalId) {
+    return `principal:${client.principalId}`;
+  }
+
+  const apiKey = headers.get('x-api-key');
+  if (apiKey) {
+    // Raw keys never leave the request
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey)));
+    return `key:${Array.from(digest.slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  return `ip:${getClientIp(headers)}`;
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000))
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+
+  return headers;
+}
+
 // Exponential backoff utility
 export function exponentialBackoff(config: Partial<RetryConfig> = {}) {
   const finalConfig: RetryConfig = {
@@ -129,8 +192,13 @@ export function exponentialBackoff(config: Partial<RetryConfig> = {}) {
   };
 }
 
-// Global rate limiters for different services
+// Shared backend for the route policies; see createRateLimitStore
+export const sharedRateLimitStore = createRateLimitStore();
+
+// Per-client rate limit policies; routes pick one and key it by client
 export const apiRateLimiter = new RateLimiter({
+  name: 'api',
+  store: sharedRateLimitStore,
   requests: 10,
   per: 60000, // 10 requests per minute
   maxRetries: 3,
@@ -138,6 +206,8 @@ export const apiRateLimiter = new RateLimiter({
 });
 
 export const searchRateLimiter = new RateLimiter({
+  name: 'search',
+  store: sharedRateLimitStore,
   requests: 30,
   per: 60000, // 30 searches per minute
   maxRetries: 2,
@@ -145,6 +215,8 @@ export const searchRateLimiter = new RateLimiter({
 });
 
 export const bulkOperationRateLimiter = new RateLimiter({
+  name: 'bulk',
+  store: sharedRateLimitStore,
   requests: 5,
   per: 60000, // 5 bulk operations per minute
   maxRetries: 3,
@@ -0,0 +1,107 @@
+/**
+ * Re-encryption Job
+ * Brings every encrypted column onto the current master key: data keys
+ * still wrapped by an older key are rewrapped, and plaintext left from
+ * before field encryption is encrypted (and indexed). Rows are walked by
+ * id in pages; each update only applies if the row's updatedAt is
+ * unchanged, so rows written concurrently are left alone.
+ */
+
+import { createClient } from '@/lib/supabase';
+import { isEnvelope, needsRewrap, rewrapEnvelope } from '@/lib/envelope-encryption';
+import { getKeyProvider } from '@/lib/key-provider';
+import { EncryptedTable, ENCRYPTED_TABLES } from '@/lib/field-encryption';
+import { errorMessage } from '@/lib/api-errors';
+
+export interface ReencryptionResult {
+  table: string;
+  scanned: number;
+  reencrypted: number; // Rewrapped under the current key
+  encrypted: number; // Plaintext encrypted for the first time
+  skipped: number; // Changed while the job ran
+  failed: number;
+}
+
+type EncryptedRecord = Record<string, unknown>;
+
+// Encrypted columns plus the keys used to page and to update safely
+type StoredRow = EncryptedRecord & { id: string; updatedAt: string };
+
+const PAGE_SIZE = 500;
+
+async function reencryptRow(target: EncryptedTable<EncryptedRecord>, row: StoredRow): Promise<EncryptedRecord | null> {
+  const stale = target.columns.filter(column => isEnvelope(row[column]) && needsRewrap(row[column]));
+  const plaintext = target.columns.filter(column => row[column] != null && !isEnvelope(row[column]));
+  if (stale.length === 0 && plaintext.length === 0) {
+    return null;
+  }
+
+  const updates: EncryptedRecord = plaintext.length > 0
+    ? await target.encrypt(Object.fromEntries(plaintext.map(column => [column, row[column]])))
+    : {};
+  for (const column of stale) {
+    const value = row[column];
+    if (isEnvelope(value)) {
+      updates[column] = await rewrapEnvelope(value);
+    }
+  }
+  return updates;
+}
+
+export async function reencryptTable(target: EncryptedTable<EncryptedRecord>): Promise<ReencryptionResult> {
+  const supabase = createClient();
+  const result: ReencryptionResult = {
+    table: target.table, scanned: 0, reencrypted: 0, encrypted: 0, skipped: 0, failed: 0
+  };
+  let lastId: string | null = null;
+
+  for (;;) {
+    let query = supabase.from(target.table).select(['id', 'updatedAt', ...target.columns].join(', '));
+    if (lastId !== null) {
+      query = query.gt('id', lastId);
+    }
+    const { data, error } = await query.order('id', { ascending: true }).limit(PAGE_SIZE);
+    if (error) throw error;
+
+    const rows: StoredRow[] = data || [];
+    for (const row of rows) {
+      result.scanned++;
+      try {
+        const updates = await reencryptRow(target, row);
+        if (!updates) continue;
+
+        const { data: updated, error: updateError } = await supabase
+          .from(target.table)
+          .update(updates)
+          .eq('id', row.id)
+          .eq('updatedAt', row.updatedAt)
+          .select('id');
+        if (updateError) throw updateError;
+
+        if (!updated?.length) {
+          result.skipped++;
+        } else if (target.columns.some(column => row[column] != null && !isEnvelope(row[column]))) {
+          result.encrypted++;
+        } else {
+          result.reencrypted++;
+        }
+      } catch (rowError) {
+        result.failed++;
+        console.error(`Re-encryption failed for ${target.table}:${row.id}:`, errorMessage(rowError));
+      }
+    }
+
+    if (rows.length < PAGE_SIZE) {
+      return result;
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+}
+
+export async function reencryptAll(): Promise<{ keyId: string; results: ReencryptionResult[] }> {
+  const results: ReencryptionResult[] = [];
+  for (const target of ENCRYPTED_TABLES) {
+    results.push(await reencryptTable(target));
+  }
+  return { keyId: getKeyProvider().currentKeyId(), results };
+}
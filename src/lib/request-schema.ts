@@ -0,0 +1,163 @@
+/**
+ * Request Parameter Schemas
+ * Declarative query-string validation: each field declares its type,
+ * range or allowed values and default, and parsing fails with a
+ * VALIDATION_ERROR naming the offending parameter
+ */
+
+import { ApiError } from '@/lib/api-errors';
+
+export interface FieldSpec<T> {
+  param?: string; // Query parameter name when it differs from the key
+  parse(raw: string | null, name: string): T;
+}
+
+export type Schema = Record<string, FieldSpec<unknown>>;
+
+export type Infer<S extends Schema> = {
+  [K in keyof S]: S[K] extends FieldSpec<infer T> ? T : never;
+};
+
+interface BaseOptions<T> {
+  param?: string;
+  required?: boolean;
+  default?: T;
+}
+
+// Required or defaulted fields always have a value
+type Present<T> = { required: true } | { default: T };
+
+interface NumberOptions extends BaseOptions<number> {
+  min?: number;
+  max?: number;
+}
+
+interface StringOptions extends BaseOptions<string> {
+  maxLength?: number;
+}
+
+interface ListOptions extends BaseOptions<string[]> {
+  maxItems?: number;
+}
+
+function invalid(name: string, message: string): ApiError {
+  return new ApiError('VALIDATION_ERROR', `${name} ${message}`, name);
+}
+
+// Shared handling of absent values: required, defaulted or undefined
+function build<T>(
+  options: BaseOptions<T>,
+  convert: (raw: string, name: string) => T
+): FieldSpec<any> {
+  return {
+    param: options.param,
+    parse(raw, name) {
+      if (raw === null || raw.trim() === '') {
+        if (options.required) throw invalid(name, 'is required');
+        return options.default;
+      }
+      return convert(raw.trim(), name);
+    }
+  };
+}
+
+function checkRange(value: number, name: string, options: NumberOptions): number {
+  const { min, max } = options;
+  if (min !== undefined && max !== undefined && (value < min || value > max)) {
+    throw invalid(name, `must be between ${min} and ${max}`);
+  }
+  if (min !== undefined && value < min) throw invalid(name, `must be at least ${min}`);
+  if (max !== undefined && value > max) throw invalid(name, `must be at most ${max}`);
+  return value;
+}
+
+function number(options: NumberOptions & Present<number>): FieldSpec<number>;
+function number(options?: NumberOptions): FieldSpec<number | undefined>;
+function number(options: NumberOptions = {}) {
+  return build(options, (raw, name) => {
+    const value = Number(raw);
+    if (!Number.isFinite(value)) throw invalid(name, 'must be a number');
+    return checkRange(value, name, options);
+  });
+}
+
+function integer(options: NumberOptions & Present<number>): FieldSpec<number>;
+function integer(options?: NumberOptions): FieldSpec<number | undefined>;
+function integer(options: NumberOptions = {}) {
+  return build(options, (raw, name) => {
+    const value = Number(raw);
+    if (!Number.isInteger(value)) throw invalid(name, 'must be an integer');
+    return checkRange(value, name, options);
+  });
+}
+
+function boolean(options: BaseOptions<boolean> & Present<boolean>): FieldSpec<boolean>;
+function boolean(options?: BaseOptions<boolean>): FieldSpec<boolean | undefined>;
+function boolean(options: BaseOptions<boolean> = {}) {
+  return build(options, (raw, name) => {
+    if (raw !== 'true' && raw !== 'false') throw invalid(name, 'must be "true" or "false"');
+    return raw === 'true';
+  });
+}
+
+function string(options: StringOptions & Present<string>): FieldSpec<string>;
+function string(options?: StringOptions): FieldSpec<string | undefined>;
+function string(options: StringOptions = {}) {
+  return build(options, (raw, name) => {
+    if (options.maxLength !== undefined && raw.length > options.maxLength) {
+      throw invalid(name, `must be at most ${options.maxLength} characters`);
+    }
+    return raw;
+  });
+}
+
+function oneOf<V extends string>(
+  values: readonly V[],
+  options: BaseOptions<V> & Present<V>
+): FieldSpec<V>;
+function oneOf<V extends string>(values: readonly V[], options?: BaseOptions<V>): FieldSpec<V | undefined>;
+function oneOf<V extends string>(values: readonly V[], options: BaseOptions<V> = {}) {
+  return build(options, (raw, name) => {
+    if (!values.includes(raw as V)) throw invalid(name, `must be one of: ${values.join(', ')}`);
+    return raw as V;
+  });
+}
+
+// ISO 8601 date or date-time
+function timestamp(options: BaseOptions<Date> = {}): FieldSpec<Date | undefined> {
+  return build(options, (raw, name) => {
+    const value = new Date(raw);
+    if (!/^\d{4}-\d{2}-\d{2}/.test(raw) || Number.isNaN(value.getTime())) {
+      throw invalid(name, 'must be an ISO 8601 date or date-time');
+    }
+    return value;
+  });
+}
+
+// Comma-separated values; blanks are dropped
+function list(options: ListOptions = {}): FieldSpec<string[] | undefined> {
+  return build(options, (raw, name) => {
+    const items = raw.split(',').map(item => item.trim()).filter(Boolean);
+    if (options.maxItems !== undefined && items.length > options.maxItems) {
+      throw invalid(name, `must have at most ${options.maxItems} values`);
+    }
+    return items.length > 0 ? items : options.default;
+  });
+}
+
+export const field = { number, integer, boolean, string, oneOf, list, timestamp };
+
+// Throws ApiError on the first invalid parameter
+export function parseSearchParams<S extends Schema>(
+  searchParams: URLSearchParams,
+  schema: S
+): Infer<S> {
+  const parsed: Record<string, unknown> = {};
+
+  for (const [key, spec] of Object.entries(schema)) {
+    const name = spec.param ?? key;
+    parsed[key] = spec.parse(searchParams.get(name), name);
+  }
+
+  return parsed as Infer<S>;
+}
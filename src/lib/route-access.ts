@@ -0,0 +1,45 @@
+/**
+ * Route Access Wrapper
+ * Resolves the caller and checks the access policy before a route handler
+ * runs. Anonymous callers get 401, everyone else 403; the handler receives
+ * the resolved principal.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, toErrorResponse } from '@/lib/api-errors';
+import { hipaaCompliance } from '@/lib/hipaa-compliance';
+import { resolvePrincipal, AccessAction, Principal, ANONYMOUS } from '@/lib/access-control';
+
+type AccessHandler<C> = (
+  request: NextRequest,
+  context: C,
+  principal: Principal
+) => Promise<NextResponse>;
+
+export function withAccess<C = { params: Record<string, string> }>(
+  action: AccessAction,
+  resource: string | ((context: C) => string),
+  handler: AccessHandler<C>
+): (request: NextRequest, context: C) => Promise<NextResponse> {
+  return async (request, context) => {
+    const target = typeof resource === 'function' ? resource(context) : resource;
+
+    let principal: Principal;
+    try {
+      principal = await resolvePrincipal(request.headers);
+    } catch (error: any) {
+      return toErrorResponse(error, 'Failed to authenticate request');
+    }
+
+    if (!hipaaCompliance.validateAccess(principal, target, action)) {
+      return principal.id === ANONYMOUS.id
+        ? errorResponse(
+          'AUTHENTICATION_REQUIRED',
+          'Authentication is required (X-API-Key or Authorization: Bearer header)'
+        )
+        : errorResponse('INSUFFICIENT_PERMISSIONS', `Not permitted to ${action} ${target}`);
+    }
+
+    return handler(request, context, principal);
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Search Cache Keys
+ * Canonical cache keys for search responses. Parameters are sorted by name,
+ * list filters are sorted and de-duplicated, empty values are dropped and
+ * coordinates are bucketed to a geohash cell, so equivalent requests share
+ * one cache entry.
+ */
+
+export type CacheKeyValue = string | number | boolean | string[] | null | undefined;
+
+export interface SnappedCoordinates {
+  latitude: number;
+  longitude: number;
+  geohash: string;
+}
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Precision 6 cells are ~1.2 x 0.6 km, so snapped distances are off by at
+// most ~0.4 miles
+export const SEARCH_GEOHASH_PRECISION = (() => {
+  const value = parseInt(process.env.SEARCH_CACHE_GEOHASH_PRECISION || '', 10);
+  return Number.isInteger(value) && value >= 1 && value <= 12 ? value : 6;
+})();
+
+export function encodeGeohash(latitude: number, longitude: number, precision: number): string {
+  let latRange = [-90, 90];
+  let lngRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let charIndex = 0;
+  let evenBit = true; // Bits alternate longitude, latitude
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const value = evenBit ? longitude : latitude;
+    const mid = (range[0] + range[1]) / 2;
+
+    if (value >= mid) {
+      charIndex = charIndex * 2 + 1;
+      range[0] = mid;
+    } else {
+      charIndex = charIndex * 2;
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[charIndex];
+      bits = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+}
+
+export function decodeGeohash(hash: string): { latitude: number; longitude: number } {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let evenBit = true;
+
+  for (const char of hash) {
+    const index = GEOHASH_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid geohash character "${char}"`);
+    }
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = evenBit ? lngRange : latRange;
+      const mid = (range[0] + range[1]) / 2;
+      if ((index >> bit) & 1) {
+        range[0] = mid;
+      } else {
+        range[1] = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  // Cell centre
+  return {
+    latitude: (latRange[0] + latRange[1]) / 2,
+    longitude: (lngRange[0] + lngRange[1]) / 2
+  };
+}
+
+// Move a search point to the centre of its geohash cell; queries run from
+// the snapped point so a shared cache entry is exact for every requester
+export function snapToGeohash(
+  latitude: number,
+  longitude: number,
+  precision = SEARCH_GEOHASH_PRECISION
+): SnappedCoordinates {
+  const geohash = encodeGeohash(latitude, longitude, precision);
+  return { ...decodeGeohash(geohash), geohash };
+}
+
+// Precision 3 cells (~1.4 degrees square) tag the area a search covered,
+// so loading a facility there purges searches it might now appear in
+export const REGION_GEOHASH_PRECISION = 3;
+
+const MILES_PER_DEGREE = 69;
+
+// Every sample point between from and to, at most size apart
+function samples(from: number, to: number, size: number): number[] {
+  const values: number[] = [];
+  for (let value = from; value < to; value += size) {
+    values.push(value);
+  }
+  values.push(to);
+  return values;
+}
+
+// Geohash cells overlapping the bounding box of a radius search
+export function coveringGeohashes(
+  latitude: number,
+  longitude: number,
+  radiusMiles: number,
+  precision = REGION_GEOHASH_PRECISION
+): string[] {
+  // Longitude takes the extra bit of an odd bit count
+  const cellWidth = 360 / 2 ** Math.ceil(precision * 5 / 2);
+  const cellHeight = 180 / 2 ** Math.floor(precision * 5 / 2);
+
+  const latDelta = radiusMiles / MILES_PER_DEGREE;
+  const lngDelta = Math.min(
+    radiusMiles / (MILES_PER_DEGREE * Math.max(Math.cos(latitude * Math.PI / 180), 0.01)),
+    180
+  );
+  const south = Math.max(latitude - latDelta, -90);
+  const north = Math.min(latitude + latDelta, 90);
+
+  const hashes = new Set<string>();
+  for (const lat of samples(south, north, cellHeight)) {
+    for (const lng of samples(longitude - lngDelta, longitude + lngDelta, cellWidth)) {
+      // Wrap across the antimeridian
+      const wrapped = ((lng + 540) % 360) - 180;
+      hashes.add(encodeGeohash(lat, wrapped, precision));
+    }
+  }
+  return Array.from(hashes).sort();
+}
+
+function canonicalValue(value: CacheKeyValue): string | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return null;
+    return Array.from(new Set(value))
+      .sort()
+      .map(item => encodeURIComponent(item))
+      .join(',');
+  }
+
+  return encodeURIComponent(String(value));
+}
+
+// namespace:name=value&... with parameters in name order
+export function buildCacheKey(namespace: string, params: Record<string, CacheKeyValue>): string {
+  const parts: string[] = [];
+
+  for (const name of Object.keys(params).sort()) {
+    const value = canonicalValue(params[name]);
+    if (value !== null) {
+      parts.push(`${name}=${value}`);
+    }
+  }
+
+  return `${namespace}:${parts.join('&')}`;
+}
+
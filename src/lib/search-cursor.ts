@@ -0,0 +1,90 @@
+/**
+ * Search Result Cursors
+ * Opaque, HMAC-signed keyset cursors (last sort key + id) for paginating
+ * facility search results without offsets
+ */
+
+import crypto from 'crypto';
+
+export type CursorDirection = 'next' | 'prev';
+
+export interface SearchCursor {
+  value: number; // Sort key of the boundary row (distance when sorting by distance)
+  id: string;
+  direction: CursorDirection;
+  query: string; // Fingerprint of the search the cursor belongs to
+  asOf?: number; // Time (ms) the sort keys were scored at, for time-dependent sorts
+}
+
+const DEFAULT_CURSOR_SECRET = 'default-dev-cursor-secret';
+const CURSOR_SECRET = process.env.SEARCH_CURSOR_SECRET || DEFAULT_CURSOR_SECRET;
+
+// Anyone who knows the default could forge cursors, including audit log ones
+if (
+  CURSOR_SECRET === DEFAULT_CURSOR_SECRET &&
+  process.env.NODE_ENV === 'production' &&
+  process.env.NEXT_PHASE !== 'phase-production-build'
+) {
+  throw new Error('Refusing to use the default cursor secret in production; set SEARCH_CURSOR_SECRET');
+}
+
+function sign(payload: string): string {
+  return crypto
+    .createHmac('sha256', CURSOR_SECRET)
+    .update(payload)
+    .digest('base64url')
+    .slice(0, 22);
+}
+
+// Cursors are deterministic so cached responses keep handing out valid links
+export function encodeCursor(cursor: SearchCursor): string {
+  const fields: unknown[] = [cursor.value, cursor.id, cursor.direction, cursor.query];
+  if (cursor.asOf !== undefined) {
+    fields.push(cursor.asOf);
+  }
+  const payload = Buffer.from(JSON.stringify(fields)).toString('base64url');
+
+  return `${payload}.${sign(payload)}`;
+}
+
+export function decodeCursor(token: string): SearchCursor | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = sign(payload);
+  if (
+    signature.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    return null;
+  }
+
+  try {
+    const [value, id, direction, query, asOf] = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8')
+    );
+
+    if (
+      typeof value !== 'number' ||
+      typeof id !== 'string' ||
+      (direction !== 'next' && direction !== 'prev') ||
+      typeof query !== 'string' ||
+      (asOf !== undefined && typeof asOf !== 'number')
+    ) {
+      return null;
+    }
+
+    return asOf === undefined ? { value, id, direction, query } : { value, id, direction, query, asOf };
+  } catch {
+    return null;
+  }
+}
+
+// Short fingerprint so a cursor can't be replayed against a different search
+export function fingerprintQuery(parts: unknown[]): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(parts))
+    .digest('base64url')
+    .slice(0, 12);
+}
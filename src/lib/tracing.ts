@@ -0,0 +1,244 @@
+/**
+ * Request Tracing
+ * Spans on the OpenTelemetry SDK with W3C traceparent propagation. Spans
+ * are batched and exported over OTLP/HTTP only when
+ * OTEL_EXPORTER_OTLP_ENDPOINT (or ..._TRACES_ENDPOINT) is set; trace ids
+ * are generated either way so responses and logs can reference them.
+ * Sampling (OTEL_TRACES_SAMPLER, OTEL_TRACES_SAMPLER_ARG) and batch limits
+ * (OTEL_BSP_*) use the standard SDK environment variables.
+ */
+
+import {
+  context,
+  trace,
+  Context,
+  ROOT_CONTEXT,
+  Span as OtelSpan,
+  SpanKind as OtelSpanKind,
+  SpanStatusCode,
+  TraceFlags
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  ParentBasedSampler,
+  Sampler,
+  TraceIdRatioBasedSampler
+} from '@opentelemetry/sdk-trace-base';
+
+export type SpanKind = 'internal' | 'server' | 'client';
+export type AttributeValue = string | number | boolean;
+
+export interface SpanContext {
+  traceId: string; // 32 hex chars
+  spanId: string;  // 16 hex chars
+  sampled: boolean;
+}
+
+interface SpanOptions {
+  kind?: SpanKind;
+  parent?: SpanContext | null; // Defaults to the active span
+  attributes?: Record<string, AttributeValue | undefined>;
+}
+
+const SPAN_KINDS: Record<SpanKind, OtelSpanKind> = {
+  internal: OtelSpanKind.INTERNAL,
+  server: OtelSpanKind.SERVER,
+  client: OtelSpanKind.CLIENT
+};
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+// Bounds on memory held for export; OTEL_BSP_* variables take precedence
+const DEFAULT_BATCH_LIMITS = {
+  maxQueueSize: 2048,        // Spans beyond this are dropped until the queue drains
+  maxExportBatchSize: 512,
+  scheduledDelayMillis: 5000,
+  exportTimeoutMillis: 10000
+};
+
+export function parseTraceparent(header: string | null | undefined): SpanContext | null {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT);
+  if (!match || match[1] === INVALID_TRACE_ID || match[2] === INVALID_SPAN_ID) {
+    return null;
+  }
+
+  return {
+    traceId: match[1],
+    spanId: match[2],
+    sampled: (parseInt(match[3], 16) & 1) === 1
+  };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+function withoutUndefined(attributes: Record<string, AttributeValue | undefined>): Record<string, AttributeValue> {
+  const defined: Record<string, AttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) defined[key] = value;
+  }
+  return defined;
+}
+
+// Thin wrapper so routes don't depend on the SDK's span interface
+export class Span {
+  constructor(readonly otelSpan: OtelSpan) {}
+
+  get context(): SpanContext {
+    const { traceId, spanId, traceFlags } = this.otelSpan.spanContext();
+    return { traceId, spanId, sampled: (traceFlags & TraceFlags.SAMPLED) === TraceFlags.SAMPLED };
+  }
+
+  get traceId(): string {
+    return this.otelSpan.spanContext().traceId;
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (value !== undefined) {
+      this.otelSpan.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | undefined>): this {
+    this.otelSpan.setAttributes(withoutUndefined(attributes));
+    return this;
+  }
+
+  addEvent(name: string, attributes: Record<string, AttributeValue> = {}): this {
+    this.otelSpan.addEvent(name, attributes);
+    return this;
+  }
+
+  recordException(error: any): this {
+    this.otelSpan.recordException(error instanceof Error ? error : String(error));
+    return this.setStatus('error', error?.message || String(error));
+  }
+
+  setStatus(status: 'ok' | 'error', message?: string): this {
+    this.otelSpan.setStatus({ code: status === 'ok' ? SpanStatusCode.OK : SpanStatusCode.ERROR, message });
+    return this;
+  }
+
+  end(): void {
+    this.otelSpan.end();
+  }
+}
+
+function createProvider(): BasicTracerProvider {
+  const exporting = process.env.OTEL_SDK_DISABLED !== 'true' && Boolean(
+    process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_ENDPOINT
+  );
+
+  // The exporter reads the endpoint and OTEL_EXPORTER_OTLP_HEADERS itself
+  return new BasicTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': process.env.OTEL_SERVICE_NAME || 'soberlivings-web' }),
+    sampler: sampler(),
+    spanProcessors: exporting ? [new BatchSpanProcessor(new OTLPTraceExporter(), batchLimits())] : []
+  });
+}
+
+// OTEL_TRACES_SAMPLER picks any standard sampler; without it,
+// OTEL_TRACES_SAMPLER_ARG alone is the fraction of new traces sampled
+function sampler(): Sampler | undefined {
+  if (process.env.OTEL_TRACES_SAMPLER) {
+    return undefined;
+  }
+  const ratio = parseFloat(process.env.OTEL_TRACES_SAMPLER_ARG || '1');
+  return new ParentBasedSampler({
+    root: new TraceIdRatioBasedSampler(Number.isFinite(ratio) ? Math.min(Math.max(ratio, 0), 1) : 1)
+  });
+}
+
+function batchLimits() {
+  const limits = { ...DEFAULT_BATCH_LIMITS };
+  const fromEnv: Array<[keyof typeof limits, string]> = [
+    ['maxQueueSize', 'OTEL_BSP_MAX_QUEUE_SIZE'],
+    ['maxExportBatchSize', 'OTEL_BSP_MAX_EXPORT_BATCH_SIZE'],
+    ['scheduledDelayMillis', 'OTEL_BSP_SCHEDULE_DELAY'],
+    ['exportTimeoutMillis', 'OTEL_BSP_EXPORT_TIMEOUT']
+  ];
+  for (const [option, variable] of fromEnv) {
+    const value = parseInt(process.env[variable] || '', 10);
+    if (Number.isFinite(value) && value > 0) limits[option] = value;
+  }
+  limits.maxExportBatchSize = Math.min(limits.maxExportBatchSize, limits.maxQueueSize);
+  return limits;
+}
+
+export class Tracer {
+  private static instance: Tracer;
+  private provider = createProvider();
+  private tracer = this.provider.getTracer('soberlivings');
+
+  private constructor() {
+    // Lets the active span follow async calls (no-op if already registered)
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  }
+
+  static getInstance(): Tracer {
+    if (!Tracer.instance) {
+      Tracer.instance = new Tracer();
+    }
+    return Tracer.instance;
+  }
+
+  getActiveSpan(): Span | undefined {
+    const active = trace.getActiveSpan();
+    return active ? new Span(active) : undefined;
+  }
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    return new Span(this.tracer.startSpan(name, {
+      kind: SPAN_KINDS[options.kind ?? 'internal'],
+      attributes: withoutUndefined(options.attributes ?? {})
+    }, parentContext(options.parent)));
+  }
+
+  // Run fn with a new span as the active span; the span ends when fn
+  // settles and records the error if it throws
+  async withSpan<T>(
+    name: string,
+    options: SpanOptions,
+    fn: (span: Span) => Promise<T>
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await context.with(trace.setSpan(context.active(), span.otelSpan), () => fn(span));
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  flush(): Promise<void> {
+    return this.provider.forceFlush();
+  }
+}
+
+// undefined: the active span; null: a new trace; otherwise a remote parent
+function parentContext(parent: SpanContext | null | undefined): Context {
+  if (parent === undefined) {
+    return context.active();
+  }
+  if (parent === null) {
+    return ROOT_CONTEXT;
+  }
+  return trace.setSpanContext(ROOT_CONTEXT, {
+    traceId: parent.traceId,
+    spanId: parent.spanId,
+    traceFlags: parent.sampled ? TraceFlags.SAMPLED : TraceFlags.NONE,
+    isRemote: true
+  });
+}
+
+export const tracer = Tracer.getInstance();
@@ -0,0 +1,79 @@
+/**
+ * API Key Middleware
+ * Authenticates X-API-Key on facility routes, enforces monthly quotas and
+ * tells routes which key and tier the request belongs to. Runs on the Edge
+ * runtime: everything it imports must avoid Node built-ins.
+ */
+
+import { NextFetchEvent, NextRequest, NextResponse } from 'next/server';
+import { errorResponse, toErrorResponse } from '@/lib/api-errors';
+import {
+  authenticateApiKey,
+  flushApiKeyUsage,
+  recordApiKeyUsage,
+  API_KEY_ID_HEADER,
+  API_KEY_TIER_HEADER
+} from '@/lib/api-keys';
+
+export const config = {
+  matcher: '/api/facilities/:path*'
+};
+
+export async function middleware(request: NextRequest, event: NextFetchEvent) {
+  // Identity headers only ever come from here, never from the client
+  const headers = new Headers(request.headers);
+  headers.delete(API_KEY_ID_HEADER);
+  headers.delete(API_KEY_TIER_HEADER);
+
+  const key = request.headers.get('x-api-key');
+  if (!key) {
+    if (process.env.API_KEYS_REQUIRED === 'true') {
+      return errorResponse('AUTHENTICATION_REQUIRED', 'An API key is required (X-API-Key header)', {
+        field: 'X-API-Key'
+      });
+    }
+    return NextResponse.next({ request: { headers } });
+  }
+
+  try {
+    const apiKey = await authenticateApiKey(key);
+    if (!apiKey) {
+      return errorResponse('AUTHENTICATION_REQUIRED', 'Invalid, expired or revoked API key', {
+        field: 'X-API-Key'
+      });
+    }
+
+    // Usage is written in the background, batched across requests
+    const usage = recordApiKeyUsage(apiKey);
+    const flush = flushApiKeyUsage();
+    if (flush) {
+      event.waitUntil(flush);
+    }
+
+    const quotaHeaders: Record<string, string> = usage.quota === null ? {} : {
+      'X-Quota-Limit': String(usage.quota),
+      'X-Quota-Remaining': String(Math.max(0, usage.quota - usage.used))
+    };
+
+    if (usage.exceeded) {
+      return errorResponse(
+        'QUOTA_EXCEEDED',
+        `Monthly quota of ${usage.quota} requests used for ${usage.period}`,
+        { headers: quotaHeaders }
+      );
+    }
+
+    headers.set(API_KEY_ID_HEADER, apiKey.id);
+    headers.set(API_KEY_TIER_HEADER, apiKey.tier);
+
+    const response = NextResponse.next({ request: { headers } });
+    for (const [name, value] of Object.entries(quotaHeaders)) {
+      response.headers.set(name, value);
+    }
+    return response;
+
+  } catch (error: any) {
+    console.error('API key middleware error:', error);
+    return toErrorResponse(error, 'API key check failed');
+  }
+}
@@ -0,0 +1,63 @@
+-- Radius search pushed into the database
+-- Bounding box on latitude/longitude narrows candidates via
+-- "facilities_latitude_longitude_idx", Haversine trims the box corners
+-- and results come back nearest-first across the whole table.
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "public"."search_facilities_nearby"(
+    search_lat DOUBLE PRECISION,
+    search_lng DOUBLE PRECISION,
+    radius_miles DOUBLE PRECISION DEFAULT 25,
+    service_filter TEXT[] DEFAULT NULL,
+    max_results INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    "id" TEXT,
+    "name" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "zip" TEXT,
+    "phone" TEXT,
+    "website" TEXT,
+    "services" TEXT[],
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "distance" DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH bounds AS (
+        SELECT
+            radius_miles / 69.0 AS lat_delta,
+            -- Degrees of longitude shrink towards the poles
+            radius_miles / (69.0 * GREATEST(COS(RADIANS(search_lat)), 0.01)) AS lng_delta
+    ),
+    candidates AS (
+        SELECT
+            f."id",
+            f."name",
+            f."city",
+            f."state",
+            f."zip",
+            f."phone",
+            f."website",
+            f."services",
+            f."latitude",
+            f."longitude",
+            3959 * 2 * ASIN(LEAST(1, SQRT(
+                POWER(SIN(RADIANS(f."latitude" - search_lat) / 2), 2) +
+                COS(RADIANS(search_lat)) * COS(RADIANS(f."latitude")) *
+                POWER(SIN(RADIANS(f."longitude" - search_lng) / 2), 2)
+            ))) AS distance
+        FROM "public"."facilities" f, bounds b
+        WHERE f."latitude" BETWEEN search_lat - b.lat_delta AND search_lat + b.lat_delta
+          AND f."longitude" BETWEEN search_lng - b.lng_delta AND search_lng + b.lng_delta
+          AND (service_filter IS NULL OR f."services" @> service_filter)
+    )
+    SELECT *
+    FROM candidates
+    WHERE distance <= radius_miles
+    ORDER BY distance, "id"
+    LIMIT max_results;
+$$;
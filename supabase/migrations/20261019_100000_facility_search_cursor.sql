@@ -0,0 +1,77 @@
+-- Keyset pagination for radius search
+-- Results are ordered by (distance, id); a cursor resumes after (or, with
+-- reverse_order, before) that pair so deep pages never re-read earlier rows.
+
+-- DropFunction
+DROP FUNCTION IF EXISTS "public"."search_facilities_nearby"(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[], INTEGER);
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "public"."search_facilities_nearby"(
+    search_lat DOUBLE PRECISION,
+    search_lng DOUBLE PRECISION,
+    radius_miles DOUBLE PRECISION DEFAULT 25,
+    service_filter TEXT[] DEFAULT NULL,
+    max_results INTEGER DEFAULT 50,
+    cursor_distance DOUBLE PRECISION DEFAULT NULL,
+    cursor_id TEXT DEFAULT NULL,
+    reverse_order BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    "id" TEXT,
+    "name" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "zip" TEXT,
+    "phone" TEXT,
+    "website" TEXT,
+    "services" TEXT[],
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "distance" DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH bounds AS (
+        SELECT
+            radius_miles / 69.0 AS lat_delta,
+            -- Degrees of longitude shrink towards the poles
+            radius_miles / (69.0 * GREATEST(COS(RADIANS(search_lat)), 0.01)) AS lng_delta
+    ),
+    candidates AS (
+        SELECT
+            f."id",
+            f."name",
+            f."city",
+            f."state",
+            f."zip",
+            f."phone",
+            f."website",
+            f."services",
+            f."latitude",
+            f."longitude",
+            3959 * 2 * ASIN(LEAST(1, SQRT(
+                POWER(SIN(RADIANS(f."latitude" - search_lat) / 2), 2) +
+                COS(RADIANS(search_lat)) * COS(RADIANS(f."latitude")) *
+                POWER(SIN(RADIANS(f."longitude" - search_lng) / 2), 2)
+            ))) AS distance
+        FROM "public"."facilities" f, bounds b
+        WHERE f."latitude" BETWEEN search_lat - b.lat_delta AND search_lat + b.lat_delta
+          AND f."longitude" BETWEEN search_lng - b.lng_delta AND search_lng + b.lng_delta
+          AND (service_filter IS NULL OR f."services" @> service_filter)
+    )
+    SELECT *
+    FROM candidates c
+    WHERE c.distance <= radius_miles
+      AND (
+          cursor_distance IS NULL
+          OR (NOT reverse_order AND (c.distance, c."id") > (cursor_distance, cursor_id))
+          OR (reverse_order AND (c.distance, c."id") < (cursor_distance, cursor_id))
+      )
+    ORDER BY
+        CASE WHEN reverse_order THEN c.distance END DESC,
+        CASE WHEN reverse_order THEN c."id" END DESC,
+        c.distance,
+        c."id"
+    LIMIT max_results;
+$$;
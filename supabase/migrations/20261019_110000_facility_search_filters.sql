@@ -0,0 +1,109 @@
+-- Facility attribute filters for radius search
+-- Array filters match any-of (&&) or all-of (@>); capacity and
+-- verification narrow results to houses that can actually take referrals.
+
+-- DropFunction
+DROP FUNCTION IF EXISTS "public"."search_facilities_nearby"(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[], INTEGER, DOUBLE PRECISION, TEXT, BOOLEAN);
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "public"."search_facilities_nearby"(
+    search_lat DOUBLE PRECISION,
+    search_lng DOUBLE PRECISION,
+    radius_miles DOUBLE PRECISION DEFAULT 25,
+    service_filter TEXT[] DEFAULT NULL,
+    max_results INTEGER DEFAULT 50,
+    cursor_distance DOUBLE PRECISION DEFAULT NULL,
+    cursor_id TEXT DEFAULT NULL,
+    reverse_order BOOLEAN DEFAULT false,
+    insurance_filter TEXT[] DEFAULT NULL,
+    insurance_match_all BOOLEAN DEFAULT false,
+    amenity_filter TEXT[] DEFAULT NULL,
+    amenity_match_all BOOLEAN DEFAULT false,
+    program_filter TEXT[] DEFAULT NULL,
+    program_match_all BOOLEAN DEFAULT false,
+    min_capacity INTEGER DEFAULT NULL,
+    verified_only BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    "id" TEXT,
+    "name" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "zip" TEXT,
+    "phone" TEXT,
+    "website" TEXT,
+    "services" TEXT[],
+    "acceptedInsurance" TEXT[],
+    "amenities" TEXT[],
+    "programs" TEXT[],
+    "capacity" INTEGER,
+    "verified" BOOLEAN,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "distance" DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH bounds AS (
+        SELECT
+            radius_miles / 69.0 AS lat_delta,
+            -- Degrees of longitude shrink towards the poles
+            radius_miles / (69.0 * GREATEST(COS(RADIANS(search_lat)), 0.01)) AS lng_delta
+    ),
+    candidates AS (
+        SELECT
+            f."id",
+            f."name",
+            f."city",
+            f."state",
+            f."zip",
+            f."phone",
+            f."website",
+            f."services",
+            f."acceptedInsurance",
+            f."amenities",
+            f."programs",
+            f."capacity",
+            f."verified",
+            f."latitude",
+            f."longitude",
+            3959 * 2 * ASIN(LEAST(1, SQRT(
+                POWER(SIN(RADIANS(f."latitude" - search_lat) / 2), 2) +
+                COS(RADIANS(search_lat)) * COS(RADIANS(f."latitude")) *
+                POWER(SIN(RADIANS(f."longitude" - search_lng) / 2), 2)
+            ))) AS distance
+        FROM "public"."facilities" f, bounds b
+        WHERE f."latitude" BETWEEN search_lat - b.lat_delta AND search_lat + b.lat_delta
+          AND f."longitude" BETWEEN search_lng - b.lng_delta AND search_lng + b.lng_delta
+          AND (service_filter IS NULL OR f."services" @> service_filter)
+          AND (insurance_filter IS NULL OR CASE
+              WHEN insurance_match_all THEN f."acceptedInsurance" @> insurance_filter
+              ELSE f."acceptedInsurance" && insurance_filter
+          END)
+          AND (amenity_filter IS NULL OR CASE
+              WHEN amenity_match_all THEN f."amenities" @> amenity_filter
+              ELSE f."amenities" && amenity_filter
+          END)
+          AND (program_filter IS NULL OR CASE
+              WHEN program_match_all THEN f."programs" @> program_filter
+              ELSE f."programs" && program_filter
+          END)
+          AND (min_capacity IS NULL OR f."capacity" >= min_capacity)
+          AND (NOT verified_only OR f."verified")
+    )
+    SELECT *
+    FROM candidates c
+    WHERE c.distance <= radius_miles
+      AND (
+          cursor_distance IS NULL
+          OR (NOT reverse_order AND (c.distance, c."id") > (cursor_distance, cursor_id))
+          OR (reverse_order AND (c.distance, c."id") < (cursor_distance, cursor_id))
+      )
+    ORDER BY
+        CASE WHEN reverse_order THEN c.distance END DESC,
+        CASE WHEN reverse_order THEN c."id" END DESC,
+        c.distance,
+        c."id"
+    LIMIT max_results;
+$$;
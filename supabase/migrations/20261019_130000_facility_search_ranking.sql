@@ -0,0 +1,181 @@
+-- Ranked radius search
+-- Every result carries per-factor scores (distance, data quality,
+-- verification, availability) and a weighted relevance score. Pagination
+-- keys on (sort_key, id) where sort_key ascends in the requested order.
+
+-- AlterTable
+-- Written by the Supabase ETL (etl-backup) but missing from the Prisma sync
+ALTER TABLE "public"."facilities" ADD COLUMN IF NOT EXISTS "data_quality" DOUBLE PRECISION;
+
+-- DropFunction
+DROP FUNCTION IF EXISTS "public"."search_facilities_nearby"(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[], INTEGER, DOUBLE PRECISION, TEXT, BOOLEAN, TEXT[], BOOLEAN, TEXT[], BOOLEAN, TEXT[], BOOLEAN, INTEGER, BOOLEAN, BOOLEAN, INTEGER);
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "public"."search_facilities_nearby"(
+    search_lat DOUBLE PRECISION,
+    search_lng DOUBLE PRECISION,
+    radius_miles DOUBLE PRECISION DEFAULT 25,
+    service_filter TEXT[] DEFAULT NULL,
+    max_results INTEGER DEFAULT 50,
+    cursor_value DOUBLE PRECISION DEFAULT NULL,
+    cursor_id TEXT DEFAULT NULL,
+    reverse_order BOOLEAN DEFAULT false,
+    insurance_filter TEXT[] DEFAULT NULL,
+    insurance_match_all BOOLEAN DEFAULT false,
+    amenity_filter TEXT[] DEFAULT NULL,
+    amenity_match_all BOOLEAN DEFAULT false,
+    program_filter TEXT[] DEFAULT NULL,
+    program_match_all BOOLEAN DEFAULT false,
+    min_capacity INTEGER DEFAULT NULL,
+    verified_only BOOLEAN DEFAULT false,
+    has_openings BOOLEAN DEFAULT false,
+    max_waitlist INTEGER DEFAULT NULL,
+    sort_mode TEXT DEFAULT 'distance',
+    weight_distance DOUBLE PRECISION DEFAULT 0.4,
+    weight_quality DOUBLE PRECISION DEFAULT 0.2,
+    weight_verified DOUBLE PRECISION DEFAULT 0.2,
+    weight_availability DOUBLE PRECISION DEFAULT 0.2
+)
+RETURNS TABLE (
+    "id" TEXT,
+    "name" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "zip" TEXT,
+    "phone" TEXT,
+    "website" TEXT,
+    "services" TEXT[],
+    "acceptedInsurance" TEXT[],
+    "amenities" TEXT[],
+    "programs" TEXT[],
+    "capacity" INTEGER,
+    "verified" BOOLEAN,
+    "data_quality" DOUBLE PRECISION,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "availableBeds" INTEGER,
+    "totalBeds" INTEGER,
+    "waitlistCount" INTEGER,
+    "lastConfirmed" TIMESTAMP(3),
+    "distance" DOUBLE PRECISION,
+    "distance_score" DOUBLE PRECISION,
+    "quality_score" DOUBLE PRECISION,
+    "verified_score" DOUBLE PRECISION,
+    "availability_score" DOUBLE PRECISION,
+    "relevance_score" DOUBLE PRECISION,
+    "sort_key" DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH bounds AS (
+        SELECT
+            radius_miles / 69.0 AS lat_delta,
+            -- Degrees of longitude shrink towards the poles
+            radius_miles / (69.0 * GREATEST(COS(RADIANS(search_lat)), 0.01)) AS lng_delta
+    ),
+    candidates AS (
+        SELECT
+            f."id",
+            f."name",
+            f."city",
+            f."state",
+            f."zip",
+            f."phone",
+            f."website",
+            f."services",
+            f."acceptedInsurance",
+            f."amenities",
+            f."programs",
+            f."capacity",
+            f."verified",
+            f."data_quality",
+            f."latitude",
+            f."longitude",
+            latest."availableBeds",
+            latest."totalBeds",
+            latest."waitlistCount",
+            latest."lastConfirmed",
+            3959 * 2 * ASIN(LEAST(1, SQRT(
+                POWER(SIN(RADIANS(f."latitude" - search_lat) / 2), 2) +
+                COS(RADIANS(search_lat)) * COS(RADIANS(f."latitude")) *
+                POWER(SIN(RADIANS(f."longitude" - search_lng) / 2), 2)
+            ))) AS distance
+        FROM "public"."facilities" f
+        CROSS JOIN bounds b
+        LEFT JOIN LATERAL (
+            SELECT a."availableBeds", a."totalBeds", a."waitlistCount", a."lastConfirmed"
+            FROM "public"."availability_updates" a
+            WHERE a."facilityId" = f."id"
+            ORDER BY a."lastConfirmed" DESC
+            LIMIT 1
+        ) latest ON true
+        WHERE f."latitude" BETWEEN search_lat - b.lat_delta AND search_lat + b.lat_delta
+          AND f."longitude" BETWEEN search_lng - b.lng_delta AND search_lng + b.lng_delta
+          AND (service_filter IS NULL OR f."services" @> service_filter)
+          AND (insurance_filter IS NULL OR CASE
+              WHEN insurance_match_all THEN f."acceptedInsurance" @> insurance_filter
+              ELSE f."acceptedInsurance" && insurance_filter
+          END)
+          AND (amenity_filter IS NULL OR CASE
+              WHEN amenity_match_all THEN f."amenities" @> amenity_filter
+              ELSE f."amenities" && amenity_filter
+          END)
+          AND (program_filter IS NULL OR CASE
+              WHEN program_match_all THEN f."programs" @> program_filter
+              ELSE f."programs" && program_filter
+          END)
+          AND (min_capacity IS NULL OR f."capacity" >= min_capacity)
+          AND (NOT verified_only OR f."verified")
+          AND (NOT has_openings OR latest."availableBeds" > 0)
+          AND (max_waitlist IS NULL OR latest."waitlistCount" <= max_waitlist)
+    ),
+    scored AS (
+        SELECT
+            c.*,
+            GREATEST(0, 1 - c.distance / GREATEST(radius_miles, 0.000001)) AS distance_score,
+            LEAST(1, GREATEST(0, COALESCE(c."data_quality", 0))) AS quality_score,
+            CASE WHEN c."verified" THEN 1.0 ELSE 0.0 END AS verified_score,
+            -- Open beds count for less as the confirmation ages (windows match src/lib/availability.ts)
+            CASE
+                WHEN c."availableBeds" IS NULL OR c."availableBeds" <= 0 THEN 0.0
+                WHEN c."lastConfirmed" >= (NOW() AT TIME ZONE 'UTC') - INTERVAL '1 day' THEN 1.0
+                WHEN c."lastConfirmed" >= (NOW() AT TIME ZONE 'UTC') - INTERVAL '3 days' THEN 0.6
+                ELSE 0.2
+            END AS availability_score
+        FROM candidates c
+        WHERE c.distance <= radius_miles
+    ),
+    ranked AS (
+        SELECT
+            s.*,
+            weight_distance * s.distance_score +
+            weight_quality * s.quality_score +
+            weight_verified * s.verified_score +
+            weight_availability * s.availability_score AS relevance_score
+        FROM scored s
+    ),
+    keyed AS (
+        SELECT
+            r.*,
+            -- Ascending sort key; score-based modes fall back to distance on ties
+            CASE sort_mode
+                WHEN 'relevance' THEN -r.relevance_score
+                WHEN 'availability' THEN -r.availability_score * 100000 + r.distance
+                WHEN 'quality' THEN -r.quality_score * 100000 + r.distance
+                ELSE r.distance
+            END AS sort_key
+        FROM ranked r
+    )
+    SELECT *
+    FROM keyed k
+    WHERE cursor_value IS NULL
+       OR (NOT reverse_order AND (k.sort_key, k."id") > (cursor_value, cursor_id))
+       OR (reverse_order AND (k.sort_key, k."id") < (cursor_value, cursor_id))
+    ORDER BY
+        CASE WHEN reverse_order THEN k.sort_key END DESC,
+        CASE WHEN reverse_order THEN k."id" END DESC,
+        k.sort_key,
+        k."id"
+    LIMIT max_results;
+$$;
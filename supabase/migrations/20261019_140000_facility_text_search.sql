@@ -0,0 +1,261 @@
+-- Typo-tolerant text search for facilities
+-- Full-text search over name, services, programs and description plus
+-- trigram matching on the name, so "Serenity Hse" still finds the house.
+-- Location becomes optional when a text query is given.
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateFunction
+-- IMMUTABLE wrapper: array_to_string is only STABLE, which generated columns reject
+CREATE OR REPLACE FUNCTION "public"."facility_search_document"(
+    name TEXT,
+    description TEXT,
+    services TEXT[],
+    programs TEXT[]
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT
+        setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(array_to_string(services, ' '), '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(array_to_string(programs, ' '), '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(description, '')), 'C');
+$$;
+
+-- AlterTable
+ALTER TABLE "public"."facilities" ADD COLUMN IF NOT EXISTS "search_vector" tsvector
+    GENERATED ALWAYS AS ("public"."facility_search_document"("name", "description", "services", "programs")) STORED;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "facilities_search_vector_idx" ON "public"."facilities" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "facilities_name_trgm_idx" ON "public"."facilities" USING GIN ("name" gin_trgm_ops);
+
+-- DropFunction
+DROP FUNCTION IF EXISTS "public"."search_facilities_nearby"(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[], INTEGER, DOUBLE PRECISION, TEXT, BOOLEAN, TEXT[], BOOLEAN, TEXT[], BOOLEAN, TEXT[], BOOLEAN, INTEGER, BOOLEAN, BOOLEAN, INTEGER, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "public"."search_facilities_nearby"(
+    search_lat DOUBLE PRECISION DEFAULT NULL,
+    search_lng DOUBLE PRECISION DEFAULT NULL,
+    radius_miles DOUBLE PRECISION DEFAULT 25,
+    service_filter TEXT[] DEFAULT NULL,
+    max_results INTEGER DEFAULT 50,
+    cursor_value DOUBLE PRECISION DEFAULT NULL,
+    cursor_id TEXT DEFAULT NULL,
+    reverse_order BOOLEAN DEFAULT false,
+    insurance_filter TEXT[] DEFAULT NULL,
+    insurance_match_all BOOLEAN DEFAULT false,
+    amenity_filter TEXT[] DEFAULT NULL,
+    amenity_match_all BOOLEAN DEFAULT false,
+    program_filter TEXT[] DEFAULT NULL,
+    program_match_all BOOLEAN DEFAULT false,
+    min_capacity INTEGER DEFAULT NULL,
+    verified_only BOOLEAN DEFAULT false,
+    has_openings BOOLEAN DEFAULT false,
+    max_waitlist INTEGER DEFAULT NULL,
+    sort_mode TEXT DEFAULT 'distance',
+    weight_distance DOUBLE PRECISION DEFAULT 0.4,
+    weight_quality DOUBLE PRECISION DEFAULT 0.2,
+    weight_verified DOUBLE PRECISION DEFAULT 0.2,
+    weight_availability DOUBLE PRECISION DEFAULT 0.2,
+    text_query TEXT DEFAULT NULL,
+    weight_text DOUBLE PRECISION DEFAULT 0
+)
+RETURNS TABLE (
+    "id" TEXT,
+    "name" TEXT,
+    "description" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "zip" TEXT,
+    "phone" TEXT,
+    "website" TEXT,
+    "services" TEXT[],
+    "acceptedInsurance" TEXT[],
+    "amenities" TEXT[],
+    "programs" TEXT[],
+    "capacity" INTEGER,
+    "verified" BOOLEAN,
+    "data_quality" DOUBLE PRECISION,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "availableBeds" INTEGER,
+    "totalBeds" INTEGER,
+    "waitlistCount" INTEGER,
+    "lastConfirmed" TIMESTAMP(3),
+    "distance" DOUBLE PRECISION,
+    "text_score" DOUBLE PRECISION,
+    "distance_score" DOUBLE PRECISION,
+    "quality_score" DOUBLE PRECISION,
+    "verified_score" DOUBLE PRECISION,
+    "availability_score" DOUBLE PRECISION,
+    "relevance_score" DOUBLE PRECISION,
+    "sort_key" DOUBLE PRECISION,
+    "name_highlight" TEXT,
+    "snippet" TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH search_query AS (
+        SELECT websearch_to_tsquery('english', COALESCE(text_query, '')) AS tsq
+    ),
+    bounds AS (
+        SELECT
+            radius_miles / 69.0 AS lat_delta,
+            -- Degrees of longitude shrink towards the poles
+            radius_miles / (69.0 * GREATEST(COS(RADIANS(search_lat)), 0.01)) AS lng_delta
+    ),
+    candidates AS (
+        SELECT
+            f."id",
+            f."name",
+            f."description",
+            f."city",
+            f."state",
+            f."zip",
+            f."phone",
+            f."website",
+            f."services",
+            f."acceptedInsurance",
+            f."amenities",
+            f."programs",
+            f."capacity",
+            f."verified",
+            f."data_quality",
+            f."latitude",
+            f."longitude",
+            latest."availableBeds",
+            latest."totalBeds",
+            latest."waitlistCount",
+            latest."lastConfirmed",
+            CASE WHEN search_lat IS NULL THEN NULL ELSE
+                3959 * 2 * ASIN(LEAST(1, SQRT(
+                    POWER(SIN(RADIANS(f."latitude" - search_lat) / 2), 2) +
+                    COS(RADIANS(search_lat)) * COS(RADIANS(f."latitude")) *
+                    POWER(SIN(RADIANS(f."longitude" - search_lng) / 2), 2)
+                )))
+            END AS distance,
+            CASE WHEN text_query IS NULL THEN 0.0 ELSE
+                GREATEST(
+                    LEAST(1, ts_rank_cd(f."search_vector", q.tsq)),
+                    word_similarity(text_query, f."name")
+                )
+            END AS text_score
+        FROM "public"."facilities" f
+        CROSS JOIN bounds b
+        CROSS JOIN search_query q
+        LEFT JOIN LATERAL (
+            SELECT a."availableBeds", a."totalBeds", a."waitlistCount", a."lastConfirmed"
+            FROM "public"."availability_updates" a
+            WHERE a."facilityId" = f."id"
+            ORDER BY a."lastConfirmed" DESC
+            LIMIT 1
+        ) latest ON true
+        WHERE (search_lat IS NULL OR (
+              f."latitude" BETWEEN search_lat - b.lat_delta AND search_lat + b.lat_delta
+              AND f."longitude" BETWEEN search_lng - b.lng_delta AND search_lng + b.lng_delta
+          ))
+          -- Full-text match, or a trigram match on the name for misspellings
+          AND (text_query IS NULL
+              OR f."search_vector" @@ q.tsq
+              OR f."name" % text_query
+              OR text_query <% f."name")
+          AND (service_filter IS NULL OR f."services" @> service_filter)
+          AND (insurance_filter IS NULL OR CASE
+              WHEN insurance_match_all THEN f."acceptedInsurance" @> insurance_filter
+              ELSE f."acceptedInsurance" && insurance_filter
+          END)
+          AND (amenity_filter IS NULL OR CASE
+              WHEN amenity_match_all THEN f."amenities" @> amenity_filter
+              ELSE f."amenities" && amenity_filter
+          END)
+          AND (program_filter IS NULL OR CASE
+              WHEN program_match_all THEN f."programs" @> program_filter
+              ELSE f."programs" && program_filter
+          END)
+          AND (min_capacity IS NULL OR f."capacity" >= min_capacity)
+          AND (NOT verified_only OR f."verified")
+          AND (NOT has_openings OR latest."availableBeds" > 0)
+          AND (max_waitlist IS NULL OR latest."waitlistCount" <= max_waitlist)
+    ),
+    scored AS (
+        SELECT
+            c.*,
+            COALESCE(GREATEST(0, 1 - c.distance / GREATEST(radius_miles, 0.000001)), 0) AS distance_score,
+            LEAST(1, GREATEST(0, COALESCE(c."data_quality", 0))) AS quality_score,
+            CASE WHEN c."verified" THEN 1.0 ELSE 0.0 END AS verified_score,
+            -- Open beds count for less as the confirmation ages (windows match src/lib/availability.ts)
+            CASE
+                WHEN c."availableBeds" IS NULL OR c."availableBeds" <= 0 THEN 0.0
+                WHEN c."lastConfirmed" >= (NOW() AT TIME ZONE 'UTC') - INTERVAL '1 day' THEN 1.0
+                WHEN c."lastConfirmed" >= (NOW() AT TIME ZONE 'UTC') - INTERVAL '3 days' THEN 0.6
+                ELSE 0.2
+            END AS availability_score
+        FROM candidates c
+        WHERE search_lat IS NULL OR c.distance <= radius_miles
+    ),
+    ranked AS (
+        SELECT
+            s.*,
+            weight_distance * s.distance_score +
+            weight_quality * s.quality_score +
+            weight_verified * s.verified_score +
+            weight_availability * s.availability_score +
+            weight_text * s.text_score AS relevance_score
+        FROM scored s
+    ),
+    keyed AS (
+        SELECT
+            r.*,
+            -- Ascending sort key; score-based modes fall back to distance on ties
+            CASE sort_mode
+                WHEN 'relevance' THEN -r.relevance_score
+                WHEN 'availability' THEN -r.availability_score * 100000 + COALESCE(r.distance, 0)
+                WHEN 'quality' THEN -r.quality_score * 100000 + COALESCE(r.distance, 0)
+                ELSE r.distance
+            END AS sort_key
+        FROM ranked r
+    ),
+    page AS (
+        SELECT *
+        FROM keyed k
+        WHERE cursor_value IS NULL
+           OR (NOT reverse_order AND (k.sort_key, k."id") > (cursor_value, cursor_id))
+           OR (reverse_order AND (k.sort_key, k."id") < (cursor_value, cursor_id))
+        ORDER BY
+            CASE WHEN reverse_order THEN k.sort_key END DESC,
+            CASE WHEN reverse_order THEN k."id" END DESC,
+            k.sort_key,
+            k."id"
+        LIMIT max_results
+    )
+    -- Headlines only for the returned page; source text is HTML-escaped so
+    -- <mark> is the only markup in the output
+    SELECT
+        p.*,
+        CASE WHEN text_query IS NULL THEN NULL ELSE ts_headline(
+            'english',
+            replace(replace(replace(p."name", '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+            q.tsq,
+            'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'
+        ) END AS name_highlight,
+        CASE WHEN text_query IS NULL THEN NULL ELSE ts_headline(
+            'english',
+            replace(replace(replace(COALESCE(p."description", ''), '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+            q.tsq,
+            'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5'
+        ) END AS snippet
+    FROM page p
+    CROSS JOIN search_query q
+    ORDER BY
+        CASE WHEN reverse_order THEN p.sort_key END DESC,
+        CASE WHEN reverse_order THEN p."id" END DESC,
+        p.sort_key,
+        p."id";
+$$;
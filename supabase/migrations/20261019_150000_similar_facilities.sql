@@ -0,0 +1,90 @@
+-- Nearby similar facilities for the facility detail page
+-- Similarity blends services overlap (Jaccard) with proximity; candidates
+-- come from a bounding box around the target facility.
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "public"."find_similar_facilities"(
+    target_id TEXT,
+    radius_miles DOUBLE PRECISION DEFAULT 50,
+    max_results INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    "id" TEXT,
+    "name" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "services" TEXT[],
+    "verified" BOOLEAN,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "distance" DOUBLE PRECISION,
+    "services_overlap" DOUBLE PRECISION,
+    "similarity" DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH target AS (
+        SELECT
+            f."latitude",
+            f."longitude",
+            COALESCE(f."services", '{}') AS services,
+            radius_miles / 69.0 AS lat_delta,
+            radius_miles / (69.0 * GREATEST(COS(RADIANS(f."latitude")), 0.01)) AS lng_delta
+        FROM "public"."facilities" f
+        WHERE f."id" = target_id
+          AND f."latitude" IS NOT NULL
+          AND f."longitude" IS NOT NULL
+    ),
+    candidates AS (
+        SELECT
+            f."id",
+            f."name",
+            f."city",
+            f."state",
+            f."services",
+            f."verified",
+            f."latitude",
+            f."longitude",
+            3959 * 2 * ASIN(LEAST(1, SQRT(
+                POWER(SIN(RADIANS(f."latitude" - t."latitude") / 2), 2) +
+                COS(RADIANS(t."latitude")) * COS(RADIANS(f."latitude")) *
+                POWER(SIN(RADIANS(f."longitude" - t."longitude") / 2), 2)
+            ))) AS distance,
+            (SELECT COUNT(*) FROM unnest(f."services") s WHERE s = ANY(t.services))::DOUBLE PRECISION AS shared,
+            cardinality(COALESCE(f."services", '{}')) AS own_count,
+            cardinality(t.services) AS target_count
+        FROM "public"."facilities" f
+        CROSS JOIN target t
+        WHERE f."id" <> target_id
+          AND f."latitude" BETWEEN t."latitude" - t.lat_delta AND t."latitude" + t.lat_delta
+          AND f."longitude" BETWEEN t."longitude" - t.lng_delta AND t."longitude" + t.lng_delta
+          -- Facilities without listed services fall back to proximity alone
+          AND (cardinality(t.services) = 0 OR f."services" && t.services)
+    ),
+    scored AS (
+        SELECT
+            c.*,
+            CASE
+                WHEN c.own_count + c.target_count - c.shared = 0 THEN 0.0
+                ELSE c.shared / (c.own_count + c.target_count - c.shared)
+            END AS services_overlap
+        FROM candidates c
+        WHERE c.distance <= radius_miles
+    )
+    SELECT
+        s."id",
+        s."name",
+        s."city",
+        s."state",
+        s."services",
+        s."verified",
+        s."latitude",
+        s."longitude",
+        s.distance,
+        s.services_overlap,
+        0.6 * s.services_overlap + 0.4 * GREATEST(0, 1 - s.distance / GREATEST(radius_miles, 0.000001)) AS similarity
+    FROM scored s
+    ORDER BY similarity DESC, s.distance, s."id"
+    LIMIT max_results;
+$$;
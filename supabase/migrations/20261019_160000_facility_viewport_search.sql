@@ -0,0 +1,134 @@
+-- Map viewport search
+-- Bounding-box queries for the map UI: individual facilities at high zoom,
+-- grid clusters (count, centroid, extent) at low zoom. A viewport whose west
+-- edge is greater than its east edge crosses the antimeridian.
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "public"."search_facilities_in_viewport"(
+    north DOUBLE PRECISION,
+    south DOUBLE PRECISION,
+    east DOUBLE PRECISION,
+    west DOUBLE PRECISION,
+    service_filter TEXT[] DEFAULT NULL,
+    verified_only BOOLEAN DEFAULT false,
+    has_openings BOOLEAN DEFAULT false,
+    max_results INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+    "id" TEXT,
+    "name" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "zip" TEXT,
+    "phone" TEXT,
+    "website" TEXT,
+    "services" TEXT[],
+    "capacity" INTEGER,
+    "verified" BOOLEAN,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "availableBeds" INTEGER,
+    "totalBeds" INTEGER,
+    "waitlistCount" INTEGER,
+    "lastConfirmed" TIMESTAMP(3)
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        f."id",
+        f."name",
+        f."city",
+        f."state",
+        f."zip",
+        f."phone",
+        f."website",
+        f."services",
+        f."capacity",
+        f."verified",
+        f."latitude",
+        f."longitude",
+        latest."availableBeds",
+        latest."totalBeds",
+        latest."waitlistCount",
+        latest."lastConfirmed"
+    FROM "public"."facilities" f
+    LEFT JOIN LATERAL (
+        SELECT a."availableBeds", a."totalBeds", a."waitlistCount", a."lastConfirmed"
+        FROM "public"."availability_updates" a
+        WHERE a."facilityId" = f."id"
+        ORDER BY a."lastConfirmed" DESC
+        LIMIT 1
+    ) latest ON true
+    WHERE f."latitude" BETWEEN south AND north
+      AND CASE
+          WHEN west <= east THEN f."longitude" BETWEEN west AND east
+          ELSE f."longitude" >= west OR f."longitude" <= east
+      END
+      AND (service_filter IS NULL OR f."services" @> service_filter)
+      AND (NOT verified_only OR f."verified")
+      AND (NOT has_openings OR latest."availableBeds" > 0)
+    ORDER BY f."id"
+    LIMIT max_results;
+$$;
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "public"."cluster_facilities_in_viewport"(
+    north DOUBLE PRECISION,
+    south DOUBLE PRECISION,
+    east DOUBLE PRECISION,
+    west DOUBLE PRECISION,
+    cell_size DOUBLE PRECISION,
+    service_filter TEXT[] DEFAULT NULL,
+    verified_only BOOLEAN DEFAULT false,
+    has_openings BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    "cell_x" INTEGER,
+    "cell_y" INTEGER,
+    "count" INTEGER,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "max_lat" DOUBLE PRECISION,
+    "min_lat" DOUBLE PRECISION,
+    "max_lng" DOUBLE PRECISION,
+    "min_lng" DOUBLE PRECISION,
+    "facility_id" TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        FLOOR((f."longitude" + 180) / cell_size)::INTEGER AS cell_x,
+        FLOOR((f."latitude" + 90) / cell_size)::INTEGER AS cell_y,
+        COUNT(*)::INTEGER AS "count",
+        AVG(f."latitude") AS latitude,
+        AVG(f."longitude") AS longitude,
+        MAX(f."latitude") AS max_lat,
+        MIN(f."latitude") AS min_lat,
+        MAX(f."longitude") AS max_lng,
+        MIN(f."longitude") AS min_lng,
+        -- Single-facility cells can be rendered as a plain marker
+        CASE WHEN COUNT(*) = 1 THEN MIN(f."id") END AS facility_id
+    FROM "public"."facilities" f
+    WHERE f."latitude" BETWEEN south AND north
+      AND CASE
+          WHEN west <= east THEN f."longitude" BETWEEN west AND east
+          ELSE f."longitude" >= west OR f."longitude" <= east
+      END
+      AND (service_filter IS NULL OR f."services" @> service_filter)
+      AND (NOT verified_only OR f."verified")
+      AND (NOT has_openings OR EXISTS (
+          SELECT 1
+          FROM (
+              SELECT a."availableBeds"
+              FROM "public"."availability_updates" a
+              WHERE a."facilityId" = f."id"
+              ORDER BY a."lastConfirmed" DESC
+              LIMIT 1
+          ) latest
+          WHERE latest."availableBeds" > 0
+      ))
+    GROUP BY 1, 2
+    ORDER BY 1, 2;
+$$;
@@ -0,0 +1,97 @@
+-- Shared rate limiting
+-- Sliding-window counters for RateLimiter's Postgres store, used when Redis
+-- is unavailable. Each key keeps at most its current and previous window.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "public"."rate_limit_windows" (
+    "key" TEXT NOT NULL,
+    "windowStart" BIGINT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "rate_limit_windows_pkey" PRIMARY KEY ("key", "windowStart")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "rate_limit_windows_windowStart_idx" ON "public"."rate_limit_windows"("windowStart");
+
+-- CreateFunction
+-- The previous window's count is weighted by how much of it still overlaps
+-- the sliding window; the row lock serialises concurrent requests per key
+CREATE OR REPLACE FUNCTION "public"."consume_rate_limit"(
+    bucket_key TEXT,
+    max_requests INTEGER,
+    window_ms BIGINT
+)
+RETURNS TABLE (
+    "allowed" BOOLEAN,
+    "remaining" INTEGER,
+    "reset_at" BIGINT,
+    "retry_after_ms" BIGINT
+)
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+    now_ms BIGINT := (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT;
+    current_start BIGINT := now_ms - (now_ms % window_ms);
+    elapsed BIGINT := now_ms - current_start;
+    current_hits INTEGER;
+    previous_hits INTEGER;
+    weighted DOUBLE PRECISION;
+    is_allowed BOOLEAN;
+BEGIN
+    INSERT INTO "public"."rate_limit_windows" ("key", "windowStart", "count")
+    VALUES (bucket_key, current_start, 0)
+    ON CONFLICT ("key", "windowStart") DO NOTHING;
+
+    SELECT w."count" INTO current_hits
+    FROM "public"."rate_limit_windows" w
+    WHERE w."key" = bucket_key AND w."windowStart" = current_start
+    FOR UPDATE;
+
+    SELECT COALESCE(MAX(w."count"), 0) INTO previous_hits
+    FROM "public"."rate_limit_windows" w
+    WHERE w."key" = bucket_key AND w."windowStart" = current_start - window_ms;
+
+    weighted := previous_hits * (1 - elapsed::DOUBLE PRECISION / window_ms) + current_hits;
+    is_allowed := weighted + 1 <= max_requests;
+
+    IF is_allowed THEN
+        UPDATE "public"."rate_limit_windows" w
+        SET "count" = w."count" + 1
+        WHERE w."key" = bucket_key AND w."windowStart" = current_start;
+        current_hits := current_hits + 1;
+        weighted := weighted + 1;
+    END IF;
+
+    DELETE FROM "public"."rate_limit_windows" w
+    WHERE w."key" = bucket_key AND w."windowStart" < current_start - window_ms;
+
+    RETURN QUERY SELECT
+        is_allowed,
+        GREATEST(0, FLOOR(max_requests - weighted))::INTEGER,
+        current_start + window_ms,
+        CASE
+            WHEN is_allowed THEN 0::BIGINT
+            -- Wait until enough of the previous window has slid out
+            WHEN previous_hits > 0 AND current_hits + 1 <= max_requests THEN
+                GREATEST(1, CEIL(window_ms * (1 - (max_requests - current_hits - 1)::DOUBLE PRECISION / previous_hits) - elapsed))::BIGINT
+            ELSE current_start + window_ms - now_ms
+        END;
+END;
+$$;
+
+-- Keys that go quiet leave their last windows behind; clear them periodically
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "public"."prune_rate_limit_windows"(older_than_ms BIGINT DEFAULT 3600000)
+RETURNS INTEGER
+LANGUAGE sql
+VOLATILE
+AS $$
+    WITH deleted AS (
+        DELETE FROM "public"."rate_limit_windows"
+        WHERE "windowStart" < (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT - older_than_ms
+        RETURNING 1
+    )
+    SELECT COUNT(*)::INTEGER FROM deleted;
+$$;
@@ -0,0 +1,70 @@
+-- Partner API keys
+-- Keys are stored as HMAC-SHA256 hashes; only the short prefix is kept in
+-- clear for identification. Usage is counted per key per calendar month.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "public"."api_keys" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tier" TEXT NOT NULL DEFAULT 'free',
+    "keyPrefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "ownerEmail" TEXT,
+    "monthlyQuota" INTEGER,
+    "createdBy" TEXT,
+    "lastUsedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "replacedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "api_keys_tier_check" CHECK ("tier" IN ('free', 'partner', 'internal'))
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "public"."api_key_usage" (
+    "apiKeyId" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "requestCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "api_key_usage_pkey" PRIMARY KEY ("apiKeyId", "period")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "api_keys_keyHash_key" ON "public"."api_keys"("keyHash");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "api_keys_tier_idx" ON "public"."api_keys"("tier");
+
+-- AddForeignKey
+ALTER TABLE "public"."api_key_usage" ADD CONSTRAINT "api_key_usage_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "public"."api_keys"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateFunction
+-- Counts one request against the key's monthly usage and returns the new total
+CREATE OR REPLACE FUNCTION "public"."increment_api_key_usage"(
+    key_id TEXT,
+    usage_period TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+    new_count INTEGER;
+BEGIN
+    INSERT INTO "public"."api_key_usage" ("apiKeyId", "period", "requestCount", "updatedAt")
+    VALUES (key_id, usage_period, 1, CURRENT_TIMESTAMP)
+    ON CONFLICT ("apiKeyId", "period") DO UPDATE
+    SET "requestCount" = "api_key_usage"."requestCount" + 1,
+        "updatedAt" = CURRENT_TIMESTAMP
+    RETURNING "requestCount" INTO new_count;
+
+    UPDATE "public"."api_keys"
+    SET "lastUsedAt" = CURRENT_TIMESTAMP
+    WHERE "id" = key_id;
+
+    RETURN new_count;
+END;
+$$;
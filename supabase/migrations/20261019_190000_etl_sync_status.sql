@@ -0,0 +1,20 @@
+-- ETL sync status
+-- One row per ETL pipeline run, written by etl-backup (updateSyncStatus).
+-- /api/ready reads the latest row to report data freshness.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "public"."etl_sync_status" (
+    "id" BIGSERIAL NOT NULL,
+    "pipeline" TEXT NOT NULL,
+    "lastSync" TIMESTAMPTZ NOT NULL,
+    "recordsProcessed" INTEGER NOT NULL DEFAULT 0,
+    "recordsLoaded" INTEGER NOT NULL DEFAULT 0,
+    "recordsRejected" INTEGER NOT NULL DEFAULT 0,
+    "duration" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT "etl_sync_status_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "etl_sync_status_pipeline_created_at_idx" ON "public"."etl_sync_status"("pipeline", "created_at" DESC);
@@ -0,0 +1,84 @@
+-- Tamper-evident audit log
+-- Audit entries form a hash chain: each row stores the previous row's hash
+-- and its own hash covers that link, its sequence number and a hash of its
+-- content. Edited, deleted or reordered rows break the chain. Rows written
+-- before this migration have no sequence and are outside the chain.
+
+-- AlterTable
+ALTER TABLE "public"."audit_logs"
+    ADD COLUMN IF NOT EXISTS "result" TEXT,
+    ADD COLUMN IF NOT EXISTS "sequence" BIGINT,
+    ADD COLUMN IF NOT EXISTS "prevHash" TEXT,
+    ADD COLUMN IF NOT EXISTS "hash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "audit_logs_sequence_key" ON "public"."audit_logs"("sequence");
+
+-- CreateFunction
+-- Appends a batch of entries to the chain. The advisory lock serialises
+-- writers across instances so every entry links to the latest one. Entries
+-- whose id already exists are skipped, so retrying a batch whose response
+-- was lost is safe. Returns the number of entries appended.
+CREATE OR REPLACE FUNCTION "public"."append_audit_logs"(entries JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+    entry JSONB;
+    last_sequence BIGINT;
+    last_hash TEXT;
+    next_hash TEXT;
+    appended INTEGER := 0;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('audit_logs_chain'));
+
+    SELECT "sequence", "hash" INTO last_sequence, last_hash
+    FROM "public"."audit_logs"
+    WHERE "sequence" IS NOT NULL
+    ORDER BY "sequence" DESC
+    LIMIT 1;
+
+    last_sequence := COALESCE(last_sequence, 0);
+    last_hash := COALESCE(last_hash, repeat('0', 64));
+
+    FOR entry IN SELECT * FROM jsonb_array_elements(entries)
+    LOOP
+        CONTINUE WHEN EXISTS (
+            SELECT 1 FROM "public"."audit_logs" WHERE "id" = entry->>'id'
+        );
+
+        last_sequence := last_sequence + 1;
+        next_hash := encode(
+            sha256(convert_to(last_hash || ':' || last_sequence || ':' || (entry->>'contentHash'), 'UTF8')),
+            'hex'
+        );
+
+        INSERT INTO "public"."audit_logs" (
+            "id", "userId", "action", "entityType", "entityId", "result",
+            "metadata", "ipAddress", "userAgent", "createdAt",
+            "sequence", "prevHash", "hash"
+        )
+        VALUES (
+            entry->>'id',
+            entry->>'userId',
+            entry->>'action',
+            entry->>'entityType',
+            entry->>'entityId',
+            entry->>'result',
+            entry->'metadata',
+            entry->>'ipAddress',
+            entry->>'userAgent',
+            (entry->>'createdAt')::TIMESTAMPTZ AT TIME ZONE 'UTC',
+            last_sequence,
+            last_hash,
+            next_hash
+        );
+
+        last_hash := next_hash;
+        appended := appended + 1;
+    END LOOP;
+
+    RETURN appended;
+END;
+$$;
@@ -0,0 +1,18 @@
+-- Field-level encryption for operator PII and KYC documents
+-- operators.email, operators.phone, operators.kycDocuments and
+-- verification_requests.documents hold encryption envelopes written by the
+-- application (JSONB columns store the envelope as a JSON string). Existing
+-- plaintext rows are encrypted by POST /api/admin/encryption/reencrypt.
+-- Ciphertext can't be compared, so email lookups and uniqueness move to an
+-- HMAC blind index.
+
+-- AlterTable
+ALTER TABLE "public"."operators"
+    ADD COLUMN IF NOT EXISTS "emailIndex" TEXT;
+
+-- DropIndex
+DROP INDEX IF EXISTS "public"."operators_email_key";
+DROP INDEX IF EXISTS "public"."operators_email_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "operators_emailIndex_key" ON "public"."operators"("emailIndex");
@@ -0,0 +1,35 @@
+-- Batched API key usage counts
+-- Instances count requests locally and write them every few seconds, so
+-- increment_api_key_usage() takes the number of requests to add.
+
+-- DropFunction
+DROP FUNCTION IF EXISTS "public"."increment_api_key_usage"(TEXT, TEXT);
+
+-- CreateFunction
+-- Adds amount requests to the key's monthly usage and returns the new total
+CREATE OR REPLACE FUNCTION "public"."increment_api_key_usage"(
+    key_id TEXT,
+    usage_period TEXT,
+    amount INTEGER DEFAULT 1
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+    new_count INTEGER;
+BEGIN
+    INSERT INTO "public"."api_key_usage" ("apiKeyId", "period", "requestCount", "updatedAt")
+    VALUES (key_id, usage_period, amount, CURRENT_TIMESTAMP)
+    ON CONFLICT ("apiKeyId", "period") DO UPDATE
+    SET "requestCount" = "api_key_usage"."requestCount" + amount,
+        "updatedAt" = CURRENT_TIMESTAMP
+    RETURNING "requestCount" INTO new_count;
+
+    UPDATE "public"."api_keys"
+    SET "lastUsedAt" = CURRENT_TIMESTAMP
+    WHERE "id" = key_id;
+
+    RETURN new_count;
+END;
+$$;
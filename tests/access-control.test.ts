@@ -0,0 +1,225 @@
+import { evaluateAccess, resolvePrincipal, AccessAction, Principal, Role } from '@/lib/access-control';
+import { operatorFields } from '@/lib/field-encryption';
+import { setSupabaseClient, queryResult } from '@/lib/supabase';
+
+const OWNED = 'facility-owned';
+const OTHER = 'facility-other';
+
+const CONFIRMED = '2026-10-01T00:00:00Z';
+
+const ACTIONS: AccessAction[] = ['read', 'create', 'update', 'delete', 'review'];
+
+const PRINCIPALS: Record<Role, Principal> = {
+  public: { id: 'anonymous', role: 'public', facilityIds: [] },
+  operator: { id: 'user:operator', role: 'operator', facilityIds: [OWNED] },
+  reviewer: { id: 'user:reviewer', role: 'reviewer', facilityIds: [] },
+  admin: { id: 'apikey:internal', role: 'admin', facilityIds: [] }
+};
+
+// The documented matrix (API_DOCUMENTATION.md, "Roles & Access Control"):
+// resource -> action -> roles allowed. Anything not listed is denied.
+const MATRIX: Record<string, Partial<Record<AccessAction, Role[]>>> = {
+  facility: {
+    read: ['public', 'operator', 'reviewer', 'admin'],
+    create: ['admin'],
+    update: ['admin'],
+    delete: ['admin']
+  },
+  [`facility:${OWNED}`]: {
+    read: ['public', 'operator', 'reviewer', 'admin'],
+    create: ['admin'],
+    update: ['operator', 'admin'],
+    delete: ['admin']
+  },
+  [`facility:${OTHER}`]: {
+    read: ['public', 'operator', 'reviewer', 'admin'],
+    create: ['admin'],
+    update: ['admin'],
+    delete: ['admin']
+  },
+  verification_requests: {
+    read: ['reviewer', 'admin'],
+    review: ['reviewer', 'admin']
+  },
+  [`verification_requests:${OWNED}`]: {
+    create: ['operator'],
+    read: ['reviewer', 'admin'],
+    review: ['reviewer', 'admin']
+  },
+  [`verification_requests:${OTHER}`]: {
+    read: ['reviewer', 'admin'],
+    review: ['reviewer', 'admin']
+  },
+  audit_logs: {
+    read: ['admin']
+  },
+  api_keys: {
+    read: ['admin'],
+    create: ['admin']
+  },
+  'api_key:key-1': {
+    read: ['admin'],
+    update: ['admin'],
+    delete: ['admin']
+  },
+  edge_cache: {
+    read: ['admin'],
+    delete: ['admin']
+  },
+  encryption_keys: {
+    update: ['admin']
+  },
+  operators: {
+    create: ['admin']
+  },
+  'operator:op-1': {
+    read: ['admin'],
+    update: ['admin']
+  }
+};
+
+const cases = Object.entries(MATRIX).flatMap(([resource, allowed]) =>
+  (Object.keys(PRINCIPALS) as Role[]).flatMap(role =>
+    ACTIONS.map(action => [role, action, resource, (allowed[action] ?? []).includes(role)] as const)
+  )
+);
+
+describe('evaluateAccess', () => {
+  it.each(cases)('%s %s %s -> %s', (role, action, resource, expected) => {
+    expect(evaluateAccess(PRINCIPALS[role], resource, action).allowed).toBe(expected);
+  });
+
+  it('denies unknown resources to every role', () => {
+    for (const principal of Object.values(PRINCIPALS)) {
+      for (const action of ACTIONS) {
+        expect(evaluateAccess(principal, 'unknown_resource', action).allowed).toBe(false);
+      }
+    }
+  });
+
+  it('explains ownership denials', () => {
+    const decision = evaluateAccess(PRINCIPALS.operator, `facility:${OTHER}`, 'update');
+    expect(decision).toEqual({ allowed: false, reason: `operator does not manage facility:${OTHER}` });
+  });
+
+  it('does not treat a bare type as an owned instance', () => {
+    expect(evaluateAccess(PRINCIPALS.operator, 'facility:', 'update').allowed).toBe(false);
+  });
+});
+
+describe('resolvePrincipal', () => {
+  function bearer(token: string): Headers {
+    return new Headers({ authorization: `Bearer ${token}` });
+  }
+
+  function installUser(user: Record<string, unknown> | null, operators: Array<{ id: string; facilityId: string }> = []) {
+    const operatorQuery = queryResult({ data: operators });
+    const getUser = jest.fn(async () =>
+      user ? { data: { user }, error: null } : { data: { user: null }, error: { message: 'invalid' } }
+    );
+    setSupabaseClient({ auth: { getUser }, from: () => operatorQuery });
+    return { operatorQuery, getUser };
+  }
+
+  it('treats requests without credentials as anonymous', async () => {
+    await expect(resolvePrincipal(new Headers())).resolves.toMatchObject({ id: 'anonymous', role: 'public' });
+  });
+
+  it('takes staff roles from app_metadata', async () => {
+    installUser({ id: 'u-reviewer', email: 'r@example.com', app_metadata: { role: 'reviewer' } });
+    await expect(resolvePrincipal(bearer('token-reviewer'))).resolves.toEqual({
+      id: 'user:u-reviewer', role: 'reviewer', facilityIds: []
+    });
+  });
+
+  it('makes approved operators owners of their facilities', async () => {
+    const { operatorQuery } = installUser(
+      { id: 'u-operator', email: 'Op@Example.com', email_confirmed_at: CONFIRMED, app_metadata: {} },
+      [{ id: 'op-1', facilityId: OWNED }]
+    );
+
+    const principal = await resolvePrincipal(bearer('token-operator'));
+    expect(principal).toEqual({
+      id: 'user:u-operator',
+      role: 'operator',
+      facilityIds: [OWNED],
+      operatorIds: { [OWNED]: 'op-1' }
+    });
+    expect(evaluateAccess(principal, `facility:${OWNED}`, 'update').allowed).toBe(true);
+    expect(evaluateAccess(principal, `facility:${OTHER}`, 'update').allowed).toBe(false);
+    expect(operatorQuery.calls).toContainEqual(['eq', ['kycVerified', true]]);
+  });
+
+  it('matches operators by blind index, or by plaintext email before the backfill', async () => {
+    const { operatorQuery } = installUser(
+      { id: 'u-legacy', email: 'Legacy"Op@Example.com', email_confirmed_at: CONFIRMED, app_metadata: {} },
+      [{ id: 'op-2', facilityId: OWNED }]
+    );
+    await resolvePrincipal(bearer('token-legacy'));
+
+    const [, [filter]] = operatorQuery.calls.find(([method]: [string]) => method === 'or');
+    const index = operatorFields.blindIndex('email', 'legacy"op@example.com');
+    expect(filter).toBe(`emailIndex.eq.${index},and(emailIndex.is.null,email.eq."Legacy\\"Op@Example.com")`);
+  });
+
+  it('leaves users without an approved operator record public', async () => {
+    installUser({ id: 'u-public', email: 'p@example.com', email_confirmed_at: CONFIRMED, app_metadata: {} });
+    await expect(resolvePrincipal(bearer('token-public'))).resolves.toMatchObject({ role: 'public' });
+  });
+
+  it('does not match operators on an unconfirmed email', async () => {
+    const { operatorQuery } = installUser(
+      { id: 'u-squatter', email: 'Op@Example.com', email_confirmed_at: null, app_metadata: {} },
+      [{ id: 'op-1', facilityId: OWNED }]
+    );
+
+    const principal = await resolvePrincipal(bearer('token-unconfirmed'));
+    expect(principal).toEqual({ id: 'user:u-squatter', role: 'public', facilityIds: [] });
+    expect(evaluateAccess(principal, `facility:${OWNED}`, 'update').allowed).toBe(false);
+    expect(operatorQuery.calls).toEqual([]);
+  });
+
+  it('rejects invalid bearer tokens', async () => {
+    installUser(null);
+    await expect(resolvePrincipal(bearer('token-invalid'))).rejects.toMatchObject({ code: 'AUTHENTICATION_REQUIRED' });
+  });
+
+  describe('principal cache', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('reuses a resolved principal until it expires', async () => {
+      jest.useFakeTimers({ now: Date.now() });
+      const { getUser } = installUser({ id: 'u-cached', email: 'c@example.com', app_metadata: { role: 'admin' } });
+
+      await resolvePrincipal(bearer('token-cached'));
+      await resolvePrincipal(bearer('token-cached'));
+      expect(getUser).toHaveBeenCalledTimes(1);
+
+      jest.setSystemTime(Date.now() + 61 * 1000);
+      await resolvePrincipal(bearer('token-cached'));
+      expect(getUser).toHaveBeenCalledTimes(2);
+    });
+
+    it('evicts the least recently used token when full', async () => {
+      const { getUser } = installUser({ id: 'u-many', email: 'm@example.com', app_metadata: { role: 'reviewer' } });
+
+      await resolvePrincipal(bearer('token-first'));
+      await resolvePrincipal(bearer('token-second'));
+      for (let i = 0; i < 9999; i++) {
+        await resolvePrincipal(bearer(`token-filler-${i}`));
+        if (i === 0) {
+          // Touch the first token so the second becomes the oldest
+          await resolvePrincipal(bearer('token-first'));
+        }
+      }
+      getUser.mockClear();
+
+      await resolvePrincipal(bearer('token-first'));
+      expect(getUser).not.toHaveBeenCalled();
+      await resolvePrincipal(bearer('token-second'));
+      expect(getUser).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { ApiError, errorMessage, errorResponse, getDocsUrl, toErrorResponse, validationError } from '@/lib/api-errors';
+import { tracer } from '@/lib/tracing';
+
+describe('error envelope', () => {
+  it('builds the envelope with the default status and docs link', async () => {
+    const response = errorResponse('NOT_FOUND', 'Facility not found');
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Facility not found',
+        docsUrl: 'https://docs.soberlivings.com/api/errors#not-found'
+      }
+    });
+    expect(getDocsUrl('RATE_LIMIT_EXCEEDED')).toMatch(/#rate-limit-exceeded$/);
+  });
+
+  it('names the field of validation errors and passes headers through', async () => {
+    const invalid = validationError('radius must be a number', 'radius');
+    expect(invalid.status).toBe(400);
+    await expect(invalid.json()).resolves.toMatchObject({ error: { code: 'VALIDATION_ERROR', field: 'radius' } });
+
+    const limited = errorResponse('RATE_LIMIT_EXCEEDED', 'Slow down', { headers: { 'Retry-After': '5' } });
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('5');
+  });
+
+  it('includes the trace id inside a traced request', async () => {
+    await tracer.withSpan('request', { parent: null }, async span => {
+      const response = errorResponse('INTERNAL_ERROR', 'boom');
+      await expect(response.json()).resolves.toMatchObject({ error: { traceId: span.traceId } });
+    });
+  });
+});
+
+describe('toErrorResponse', () => {
+  const env = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.NODE_ENV = env;
+  });
+
+  it('keeps the code, status and field of an ApiError', async () => {
+    const response = toErrorResponse(new ApiError('CONFLICT', 'Email already exists', 'email'), 'Failed');
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: 'CONFLICT', message: 'Email already exists', field: 'email' }
+    });
+  });
+
+  it('hides other errors outside development', async () => {
+    const response = toErrorResponse(new Error('relation "facilities" does not exist'), 'Search failed');
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toMatchObject({ error: { code: 'INTERNAL_ERROR', message: 'Search failed' } });
+
+    process.env.NODE_ENV = 'development';
+    await expect(toErrorResponse({ message: 'timeout' }, 'Search failed').json())
+      .resolves.toMatchObject({ error: { message: 'Search failed: timeout' } });
+  });
+});
+
+describe('errorMessage', () => {
+  it('reads Errors, Supabase error objects and anything else', () => {
+    expect(errorMessage(new Error('boom'))).toBe('boom');
+    expect(errorMessage({ message: 'duplicate key', code: '23505' })).toBe('duplicate key');
+    expect(errorMessage('plain')).toBe('plain');
+    expect(errorMessage(null)).toBe('null');
+  });
+});
@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import type { ApiKeyRecord } from '@/lib/api-keys';
+
+type ApiKeysModule = typeof import('@/lib/api-keys');
+type SupabaseDouble = typeof import('@/lib/supabase');
+
+function loadApiKeys(): { apiKeys: ApiKeysModule; supabase: SupabaseDouble } {
+  let modules!: { apiKeys: ApiKeysModule; supabase: SupabaseDouble };
+  jest.isolateModules(() => {
+    modules = { apiKeys: require('@/lib/api-keys'), supabase: require('@/lib/supabase') };
+  });
+  return modules;
+}
+
+function record(overrides: Partial<ApiKeyRecord> = {}): ApiKeyRecord {
+  return {
+    id: 'key-1',
+    name: 'partner',
+    tier: 'free',
+    keyPrefix: 'slk_abcdefgh',
+    ownerEmail: null,
+    monthlyQuota: null,
+    createdBy: null,
+    lastUsedAt: null,
+    expiresAt: null,
+    revokedAt: null,
+    replacedById: null,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('hashApiKey', () => {
+  it('matches the HMAC written by the create-api-key CLI', async () => {
+    const { apiKeys } = loadApiKeys();
+    const expected = crypto.createHmac('sha256', 'default-dev-api-key-pepper').update('slk_example').digest('hex');
+    await expect(apiKeys.hashApiKey('slk_example')).resolves.toBe(expected);
+  });
+});
+
+describe('API key usage', () => {
+  function installUsageStore(supabase: SupabaseDouble) {
+    const totals = new Map<string, number>();
+    const rpc = jest.fn(async (_name: string, args: { key_id: string; usage_period: string; amount: number }) => {
+      const total = (totals.get(args.key_id) ?? 0) + args.amount;
+      totals.set(args.key_id, total);
+      return { data: total, error: null as { message: string } | null };
+    });
+    supabase.setSupabaseClient({ rpc });
+    return { rpc, totals };
+  }
+
+  it('counts requests locally and writes them in one batch', async () => {
+    const { apiKeys, supabase } = loadApiKeys();
+    const { rpc, totals } = installUsageStore(supabase);
+
+    for (let i = 0; i < 5; i++) {
+      apiKeys.recordApiKeyUsage(record());
+    }
+    expect(rpc).not.toHaveBeenCalled();
+
+    await apiKeys.flushApiKeyUsage(true);
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith('increment_api_key_usage', expect.objectContaining({ key_id: 'key-1', amount: 5 }));
+    expect(totals.get('key-1')).toBe(5);
+  });
+
+  it('skips flushes inside the interval unless forced', async () => {
+    const { apiKeys, supabase } = loadApiKeys();
+    installUsageStore(supabase);
+
+    apiKeys.recordApiKeyUsage(record());
+    const first = apiKeys.flushApiKeyUsage();
+    expect(first).not.toBeNull();
+    await first;
+
+    apiKeys.recordApiKeyUsage(record());
+    expect(apiKeys.flushApiKeyUsage()).toBeNull();
+    expect(apiKeys.flushApiKeyUsage(true)).not.toBeNull();
+  });
+
+  it('checks the quota against stored and pending usage', async () => {
+    const { apiKeys, supabase } = loadApiKeys();
+    const { totals } = installUsageStore(supabase);
+    totals.set('key-1', 8); // Written by other instances
+
+    const limited = record({ monthlyQuota: 10 });
+    apiKeys.recordApiKeyUsage(limited);
+    await apiKeys.flushApiKeyUsage(true);
+
+    expect(apiKeys.recordApiKeyUsage(limited)).toMatchObject({ used: 10, quota: 10, exceeded: false });
+    expect(apiKeys.recordApiKeyUsage(limited)).toMatchObject({ used: 11, exceeded: true });
+  });
+
+  it('keeps counts that failed to write for the next flush', async () => {
+    const { apiKeys, supabase } = loadApiKeys();
+    const { rpc, totals } = installUsageStore(supabase);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    rpc.mockResolvedValueOnce({ data: null as unknown as number, error: { message: 'timeout' } });
+
+    apiKeys.recordApiKeyUsage(record());
+    apiKeys.recordApiKeyUsage(record());
+    await apiKeys.flushApiKeyUsage(true);
+    expect(totals.get('key-1')).toBeUndefined();
+
+    apiKeys.recordApiKeyUsage(record());
+    await apiKeys.flushApiKeyUsage(true);
+    expect(totals.get('key-1')).toBe(3);
+  });
+});
+
+describe('consumeRequestRateLimit', () => {
+  function keyed(tier: string): Headers {
+    return new Headers({ 'x-api-key-id': `key-${tier}-${Math.random()}`, 'x-api-key-tier': tier });
+  }
+
+  it('lets a partner key exceed the anonymous route limit', async () => {
+    const { apiKeys } = loadApiKeys();
+    const { RateLimiter } = require('@/lib/rate-limiter') as typeof import('@/lib/rate-limiter');
+    const search = new RateLimiter({ name: 'search', requests: 30, per: 60000 });
+    const headers = keyed('partner');
+
+    const results = [];
+    for (let i = 0; i < 40; i++) {
+      results.push(await apiKeys.consumeRequestRateLimit(headers, search));
+    }
+    expect(results.every(result => result.allowed)).toBe(true);
+    expect(results[39]).toMatchObject({ limit: 600, remaining: 560 });
+
+    // The route limit still holds for anonymous callers
+    const anonymous = new Headers({ 'x-real-ip': '198.51.100.9' });
+    for (let i = 0; i < 30; i++) {
+      await apiKeys.consumeRequestRateLimit(anonymous, search);
+    }
+    await expect(apiKeys.consumeRequestRateLimit(anonymous, search)).resolves.toMatchObject({ allowed: false });
+  });
+
+  it('holds keyed requests to their tier policy', async () => {
+    const { apiKeys } = loadApiKeys();
+    const { RateLimiter } = require('@/lib/rate-limiter') as typeof import('@/lib/rate-limiter');
+    const generous = new RateLimiter({ name: 'generous', requests: 1000, per: 60000 });
+
+    const result = await apiKeys.consumeRequestRateLimit(keyed('free'), generous);
+    expect(result).toMatchObject({ allowed: true, limit: 60, remaining: 59 });
+  });
+
+  it('limits requests without a key by the route policy alone', async () => {
+    const { apiKeys } = loadApiKeys();
+    const { RateLimiter } = require('@/lib/rate-limiter') as typeof import('@/lib/rate-limiter');
+    const route = new RateLimiter({ name: 'route', requests: 5, per: 60000 });
+
+    const result = await apiKeys.consumeRequestRateLimit(new Headers({ 'x-real-ip': '198.51.100.7' }), route);
+    expect(result).toMatchObject({ allowed: true, limit: 5, remaining: 4 });
+  });
+});
+
+describe('API_KEY_PEPPER', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const nodeEnv = env.NODE_ENV;
+
+  afterEach(() => {
+    env.NODE_ENV = nodeEnv;
+    delete env.API_KEY_PEPPER;
+  });
+
+  it('is required in production', () => {
+    env.NODE_ENV = 'production';
+    expect(loadApiKeys).toThrow('set API_KEY_PEPPER');
+
+    env.API_KEY_PEPPER = 'production-pepper';
+    expect(loadApiKeys).not.toThrow();
+  });
+});
@@ -0,0 +1,181 @@
+import type { AuditEntry, AuditLogRow } from '@/lib/audit-log';
+
+type AuditLogModule = typeof import('@/lib/audit-log');
+type SupabaseDouble = typeof import('@/lib/supabase');
+type MetricsModule = typeof import('@/lib/metrics');
+
+// Fresh module instances (writer singleton, metrics) with the given settings
+function loadAuditLog(env: Record<string, string> = {}) {
+  let modules!: { audit: AuditLogModule; supabase: SupabaseDouble; metrics: MetricsModule };
+  jest.isolateModules(() => {
+    Object.assign(process.env, env);
+    modules = {
+      audit: require('@/lib/audit-log'),
+      supabase: require('@/lib/supabase'),
+      metrics: require('@/lib/metrics')
+    };
+  });
+  for (const name of Object.keys(env)) delete process.env[name];
+  return modules;
+}
+
+// In-memory audit_logs with the append_audit_logs() logic from the migration
+function installAuditStore({ audit, supabase }: { audit: AuditLogModule; supabase: SupabaseDouble }) {
+  const rows: AuditLogRow[] = [];
+  type RpcResult = { data: number | null; error: { message: string } | null };
+  const rpc = jest.fn(async (name: string, { entries }: { entries: any[] }): Promise<RpcResult> => {
+    expect(name).toBe('append_audit_logs');
+    for (const { contentHash, ...entry } of entries) {
+      if (rows.some(row => row.id === entry.id)) continue;
+      const last = rows[rows.length - 1];
+      const sequence = (last?.sequence ?? 0) + 1;
+      const prevHash = last?.hash ?? audit.GENESIS_HASH;
+      rows.push({
+        ...entry,
+        // Stored without a zone, and JSONB reorders keys
+        createdAt: entry.createdAt.replace('Z', ''),
+        metadata: entry.metadata && Object.fromEntries(Object.entries(entry.metadata).reverse()),
+        sequence,
+        prevHash,
+        hash: audit.hashLink(prevHash, sequence, contentHash)
+      });
+    }
+    return { data: entries.length, error: null };
+  });
+  supabase.setSupabaseClient({ rpc, from: () => supabase.tableQuery(rows) });
+  return { rows, rpc };
+}
+
+function entry(index: number, overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    id: `entry-${index}`,
+    timestamp: new Date(Date.UTC(2026, 9, 19, 12, 0, index)),
+    userId: 'user:alice',
+    action: 'view_facility',
+    resource: `facility:${index}`,
+    result: 'success',
+    details: { responseTime: index, source: 'database' },
+    ...overrides
+  };
+}
+
+async function writeChain(modules: { audit: AuditLogModule; supabase: SupabaseDouble }, count: number) {
+  const store = installAuditStore(modules);
+  for (let i = 1; i <= count; i++) {
+    modules.audit.auditLogWriter.append(entry(i));
+  }
+  await modules.audit.auditLogWriter.flush();
+  return store;
+}
+
+describe('audit hash chain', () => {
+  it('verifies an intact chain across pages', async () => {
+    const modules = loadAuditLog();
+    const { rows } = await writeChain(modules, 7);
+
+    const result = await modules.audit.verifyAuditChain({ pageSize: 3 });
+    expect(result).toEqual({ valid: true, checked: 7, head: { sequence: 7, hash: rows[6].hash } });
+  });
+
+  it('links the first entry to the genesis hash', async () => {
+    const modules = loadAuditLog();
+    const { rows } = await writeChain(modules, 1);
+    expect(rows[0].prevHash).toBe(modules.audit.GENESIS_HASH);
+    expect(rows[0].sequence).toBe(1);
+  });
+
+  it('detects an edited entry', async () => {
+    const modules = loadAuditLog();
+    const { rows } = await writeChain(modules, 5);
+    rows[2].result = 'failure';
+
+    const result = await modules.audit.verifyAuditChain();
+    expect(result).toMatchObject({
+      valid: false,
+      checked: 2,
+      head: { sequence: 2 },
+      brokenAt: { sequence: 3, id: 'entry-3', reason: 'Hash does not match the entry content' }
+    });
+  });
+
+  it('detects a deleted entry', async () => {
+    const modules = loadAuditLog();
+    const { rows } = await writeChain(modules, 5);
+    rows.splice(1, 1);
+
+    const result = await modules.audit.verifyAuditChain();
+    expect(result.brokenAt).toEqual({ sequence: 2, id: null, reason: 'Entry is missing' });
+  });
+
+  it('detects reordered entries', async () => {
+    const modules = loadAuditLog();
+    const { rows } = await writeChain(modules, 4);
+    [rows[1].sequence, rows[2].sequence] = [rows[2].sequence, rows[1].sequence];
+
+    const result = await modules.audit.verifyAuditChain();
+    expect(result.brokenAt).toMatchObject({
+      sequence: 2,
+      reason: 'Previous hash does not match the preceding entry'
+    });
+  });
+
+  it('verifies from a later sequence', async () => {
+    const modules = loadAuditLog();
+    await writeChain(modules, 6);
+
+    await expect(modules.audit.verifyAuditChain({ fromSequence: 4 })).resolves.toMatchObject({
+      valid: true,
+      checked: 3,
+      head: { sequence: 6 }
+    });
+  });
+});
+
+describe('AuditLogWriter', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes queued entries in batches', async () => {
+    const modules = loadAuditLog({ AUDIT_LOG_BATCH_SIZE: '2' });
+    const { rows, rpc } = await writeChain(modules, 5);
+
+    expect(rows.map(row => row.id)).toEqual(['entry-1', 'entry-2', 'entry-3', 'entry-4', 'entry-5']);
+    expect(rpc.mock.calls.map(([, { entries }]) => entries.length)).toEqual([2, 2, 1]);
+    expect(modules.audit.auditLogWriter.getStats()).toMatchObject({ queued: 0, written: 5 });
+  });
+
+  it('keeps a failed batch queued in order', async () => {
+    const modules = loadAuditLog();
+    const { rows, rpc } = installAuditStore(modules);
+    const write = rpc.getMockImplementation()!;
+    rpc.mockImplementationOnce(async () => ({ data: null, error: { message: 'connection reset' } }));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    modules.audit.auditLogWriter.append(entry(1));
+    modules.audit.auditLogWriter.append(entry(2));
+    await modules.audit.auditLogWriter.flush();
+    expect(modules.audit.auditLogWriter.getStats()).toMatchObject({ queued: 2, failures: 1 });
+
+    rpc.mockImplementation(write);
+    await modules.audit.auditLogWriter.flush();
+    expect(rows.map(row => row.id)).toEqual(['entry-1', 'entry-2']);
+  });
+
+  it('drops and counts entries once the queue is full', async () => {
+    const modules = loadAuditLog({ AUDIT_LOG_MAX_QUEUE: '3' });
+    const { rows } = installAuditStore(modules);
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const accepted = [1, 2, 3, 4, 5].map(i => modules.audit.auditLogWriter.append(entry(i)));
+    expect(accepted).toEqual([true, true, true, false, false]);
+    expect(modules.audit.auditLogWriter.getStats()).toMatchObject({ queued: 3, dropped: 2 });
+    expect(error).toHaveBeenCalledTimes(1);
+
+    await expect(modules.metrics.metricsRegistry.render()).resolves.toContain('audit_log_entries_dropped_total 2');
+
+    await modules.audit.auditLogWriter.flush();
+    expect(rows).toHaveLength(3);
+    expect(modules.audit.auditLogWriter.append(entry(6))).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+import { queryAuditLogs } from '@/lib/audit-query';
+import { queryResult, setSupabaseClient } from '@/lib/supabase';
+
+describe('audit log pagination', () => {
+  const rows = [
+    { id: 'c', createdAt: '2026-10-19T12:00:03.000Z', entityType: 'facility', entityId: '1' },
+    { id: 'b', createdAt: '2026-10-19T12:00:02.000Z', entityType: 'facility', entityId: '1' },
+    { id: 'a', createdAt: '2026-10-19T12:00:02.000Z', entityType: 'facility', entityId: '1' }
+  ];
+
+  it('hands out a cursor only when another page exists', async () => {
+    setSupabaseClient({ from: () => queryResult({ data: rows }) });
+    const page = await queryAuditLogs({ action: 'view_facility' }, { limit: 2 });
+    expect(page.entries.map(entry => entry.id)).toEqual(['c', 'b']);
+    expect(page.nextCursor).not.toBeNull();
+
+    const last = await queryAuditLogs({ action: 'view_facility' }, { limit: 3 });
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it('resumes strictly after the last entry, breaking timestamp ties by id', async () => {
+    setSupabaseClient({ from: () => queryResult({ data: rows }) });
+    const { nextCursor } = await queryAuditLogs({ action: 'view_facility' }, { limit: 2 });
+
+    const query = queryResult({ data: rows.slice(2) });
+    setSupabaseClient({ from: () => query });
+    const page = await queryAuditLogs({ action: 'view_facility' }, { limit: 2, cursor: nextCursor! });
+
+    expect(page.entries.map(entry => entry.id)).toEqual(['a']);
+    expect(query.calls).toContainEqual([
+      'or',
+      ['createdAt.lt."2026-10-19T12:00:02.000Z",and(createdAt.eq."2026-10-19T12:00:02.000Z",id.lt."b")']
+    ]);
+  });
+
+  it('rejects a cursor issued for other filters', async () => {
+    setSupabaseClient({ from: () => queryResult({ data: rows }) });
+    const { nextCursor } = await queryAuditLogs({ action: 'view_facility' }, { limit: 2 });
+
+    await expect(queryAuditLogs({ action: 'purge_cache' }, { limit: 2, cursor: nextCursor! }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR', field: 'cursor' });
+  });
+});
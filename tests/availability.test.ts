@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/facilities/[id]/availability/route';
+import { EdgeCache } from '@/lib/edge-cache';
+import { recordAvailabilityUpdate } from '@/lib/availability';
+import { queryResult, setSupabaseClient } from '@/lib/supabase';
+
+describe('recordAvailabilityUpdate', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('succeeds once the update is stored even if the cache purge fails', async () => {
+    const insert = queryResult({ data: null });
+    setSupabaseClient({ from: () => insert });
+    jest.spyOn(EdgeCache.prototype, 'purgeTags').mockRejectedValue(new Error('redis unavailable'));
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const snapshot = await recordAvailabilityUpdate({
+      facilityId: 'facility-1',
+      availableBeds: 3,
+      totalBeds: 10,
+      submittedBy: 'user:operator'
+    });
+
+    expect(snapshot).toMatchObject({ availableBeds: 3, totalBeds: 10, freshness: 'fresh' });
+    expect(insert.calls.filter(([method]: [string]) => method === 'insert')).toHaveLength(1);
+    expect(logged).toHaveBeenCalledWith(expect.stringContaining('facility-1'), expect.any(Error));
+  });
+});
+
+describe('POST /api/facilities/{id}/availability', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  function post(headers: Record<string, string>) {
+    return new NextRequest('https://example.com/api/facilities/facility-1/availability', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-forwarded-for': '198.51.100.9', ...headers },
+      body: JSON.stringify({ availableBeds: 2, totalBeds: 8, submittedBy: 'someone-else' })
+    });
+  }
+
+  it('requires authentication', async () => {
+    setSupabaseClient({ from: () => queryResult({ data: null }) });
+    const response = await POST(post({}), { params: { id: 'facility-1' } });
+    expect(response.status).toBe(401);
+  });
+
+  it('records the caller as the submitter, ignoring the body', async () => {
+    const insert = queryResult({ data: null });
+    setSupabaseClient({
+      from: () => insert,
+      auth: { getUser: async () => ({ data: { user: { id: 'admin-1', app_metadata: { role: 'admin' } } }, error: null }) }
+    });
+    jest.spyOn(EdgeCache.prototype, 'purgeTags').mockResolvedValue(0);
+
+    const response = await POST(post({ authorization: 'Bearer admin-token' }), { params: { id: 'facility-1' } });
+
+    expect(response.status).toBe(201);
+    const [, [row]] = insert.calls.find(([method]: [string]) => method === 'insert');
+    expect(row.submittedBy).toBe('user:admin-1');
+  });
+});
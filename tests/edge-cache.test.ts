@@ -0,0 +1,119 @@
+import { EdgeCache, MemoryEdgeCacheStore, RedisEdgeCacheStore } from '@/lib/edge-cache';
+import { RedisScriptClient } from '@/lib/rate-limit-store';
+
+// Redis Cluster routes a key by its {hash tag} when it has one
+function slotOf(key: string): string {
+  const match = /\{([^}]+)\}/.exec(key);
+  return match ? match[1] : key;
+}
+
+// Plays the store's scripts against in-memory strings and sorted sets
+class FakeRedis implements RedisScriptClient {
+  strings = new Map<string, string>();
+  sortedSets = new Map<string, Map<string, number>>();
+  calls: string[][] = [];
+
+  async eval(script: string, keys: string[], args: Array<string | number>): Promise<unknown> {
+    this.calls.push(keys);
+
+    if (script.includes('ZADD')) {
+      const [index, marker] = keys;
+      if (Number(this.strings.get(marker) ?? -1) >= Number(args[3])) return 0;
+      const members = this.sortedSets.get(index) ?? new Map<string, number>();
+      for (const [member, score] of members) {
+        if (score <= Number(args[2])) members.delete(member);
+      }
+      members.set(String(args[0]), Number(args[1]));
+      this.sortedSets.set(index, members);
+      return 1;
+    }
+    if (script.includes('ZRANGEBYSCORE')) {
+      const [index, marker] = keys;
+      const members = Array.from(this.sortedSets.get(index) ?? [])
+        .filter(([, score]) => score >= Number(args[0]))
+        .map(([member]) => member);
+      this.sortedSets.delete(index);
+      this.strings.set(marker, String(args[0]));
+      return members;
+    }
+    if (script.includes("'SET'")) {
+      this.strings.set(keys[0], String(args[0]));
+      return 'OK';
+    }
+    if (script.includes("'GET'")) {
+      return this.strings.get(keys[0]) ?? null;
+    }
+    if (script.includes("'DEL'")) {
+      return this.strings.delete(keys[0]) ? 1 : 0;
+    }
+    return 'PONG';
+  }
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => { resolve = done; });
+  return { promise, resolve };
+}
+
+describe.each([
+  ['memory', () => new MemoryEdgeCacheStore()],
+  ['redis', () => new RedisEdgeCacheStore(new FakeRedis())]
+])('EdgeCache over the %s store', (_name, createStore) => {
+  it('purges every entry carrying a tag', async () => {
+    const cache = new EdgeCache(createStore());
+    await cache.set('search:a', 1, { ttl: 60, tags: ['facility:1', 'state:CA'] });
+    await cache.set('search:b', 2, { ttl: 60, tags: ['facility:2', 'state:CA'] });
+    await cache.set('search:c', 3, { ttl: 60, tags: ['facility:3'] });
+
+    await expect(cache.purgeTags(['state:CA'])).resolves.toBe(2);
+    await expect(cache.get('search:a')).resolves.toBeNull();
+    await expect(cache.get('search:c')).resolves.toBe(3);
+  });
+
+  it('does not cache a value loaded before a purge that ran while it loaded', async () => {
+    const cache = new EdgeCache(createStore());
+    const loaded = deferred<string>();
+
+    const pending = cache.getOrSet('detail:1', () => loaded.promise, { ttl: 60, tags: ['facility:1'] });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.purgeTags(['facility:1']);
+    loaded.resolve('before the update');
+
+    await expect(pending).resolves.toMatchObject({ value: 'before the update', state: 'miss' });
+    await expect(cache.get('detail:1')).resolves.toBeNull();
+
+    // Loads that start after the purge are cached again
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.getOrSet('detail:1', async () => 'after the update', { ttl: 60, tags: ['facility:1'] });
+    await expect(cache.get('detail:1')).resolves.toBe('after the update');
+  });
+});
+
+describe('RedisEdgeCacheStore', () => {
+  it('keeps every script on a single cluster slot', async () => {
+    const redis = new FakeRedis();
+    const cache = new EdgeCache(new RedisEdgeCacheStore(redis));
+
+    await cache.set('search:a', 1, { ttl: 60, tags: ['facility:1', 'state:CA'] });
+    await cache.purgeTags(['facility:1', 'state:CA']);
+
+    expect(redis.calls.length).toBeGreaterThan(0);
+    for (const keys of redis.calls) {
+      expect(new Set(keys.map(slotOf)).size).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('prunes expired members from tag indexes on write', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisEdgeCacheStore(redis);
+    const now = Date.now();
+    const entry = (staleUntil: number) => ({ value: 1, freshUntil: staleUntil, staleUntil, tags: ['viewport'] });
+
+    await store.set('expired', entry(now + 1), now);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await store.set('current', entry(Date.now() + 60000), Date.now());
+
+    expect(Array.from(redis.sortedSets.get('cache:tag:{viewport}')!.keys())).toEqual(['cache:entry:current']);
+  });
+});
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import {
+  decryptEnvelope,
+  encryptEnvelope,
+  envelopeKeyId,
+  isEnvelope,
+  needsRewrap,
+  rewrapEnvelope
+} from '@/lib/envelope-encryption';
+import { loadLocalKeyProvider, LocalKeyProvider, setKeyProvider } from '@/lib/key-provider';
+
+const KEY_A = crypto.randomBytes(32);
+const KEY_B = crypto.randomBytes(32);
+
+function provider(current: string, keys: Record<string, Buffer>): LocalKeyProvider {
+  return new LocalKeyProvider(new Map(Object.entries(keys)), current);
+}
+
+describe('loadLocalKeyProvider', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('decodes hex and base64 keys', async () => {
+    const hex = loadLocalKeyProvider({ ENCRYPTION_KEYS: `a:${KEY_A.toString('hex')},b:${KEY_B.toString('base64')}` });
+    expect(hex.currentKeyId()).toBe('a');
+
+    // Wrapped by one provider, unwrapped by another holding the same keys
+    const { wrapped } = await provider('b', { b: KEY_B }).wrapKey(Buffer.from('data key'));
+    await expect(hex.unwrapKey('b', wrapped)).resolves.toEqual(Buffer.from('data key'));
+  });
+
+  it('accepts a legacy ENCRYPTION_KEY with a warning', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const legacy = loadLocalKeyProvider({ ENCRYPTION_KEY: 'dev-encryption-key-change-in-production' });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"primary" is not 32 bytes'));
+    const expected = provider('primary', { primary: Buffer.from('dev-encryption-key-change-in-pro') });
+    const { wrapped } = await legacy.wrapKey(Buffer.from('data key'));
+    await expect(expected.unwrapKey('primary', wrapped)).resolves.toEqual(Buffer.from('data key'));
+  });
+
+  it('refuses the development key in production', () => {
+    expect(() => loadLocalKeyProvider({ NODE_ENV: 'production' })).toThrow(/default encryption key/);
+    expect(() => loadLocalKeyProvider({ NODE_ENV: 'production', ENCRYPTION_KEY: KEY_A.toString('hex') })).not.toThrow();
+  });
+});
+
+describe('envelope encryption', () => {
+  beforeEach(() => setKeyProvider(provider('a', { a: KEY_A })));
+
+  it('round-trips values and gives each its own ciphertext', async () => {
+    const first = await encryptEnvelope('pat@example.com');
+    const second = await encryptEnvelope('pat@example.com');
+
+    expect(isEnvelope(first)).toBe(true);
+    expect(first).not.toBe(second);
+    expect(envelopeKeyId(first)).toBe('a');
+    await expect(decryptEnvelope(first)).resolves.toBe('pat@example.com');
+  });
+
+  it('rejects tampered ciphertext', async () => {
+    const envelope = await encryptEnvelope('pat@example.com');
+    const fields = envelope.split(':');
+    const payload = Buffer.from(fields[4], 'base64url');
+    payload[payload.length - 1] ^= 1;
+    fields[4] = payload.toString('base64url');
+
+    await expect(decryptEnvelope(fields.join(':'))).rejects.toThrow();
+  });
+
+  it('keeps old values readable across a rotation and rewraps them', async () => {
+    const stored = await encryptEnvelope('kyc document');
+    const untouched = await encryptEnvelope('never rewrapped');
+
+    // Rotate: b becomes current, a stays listed
+    setKeyProvider(provider('b', { a: KEY_A, b: KEY_B }));
+    expect(needsRewrap(stored)).toBe(true);
+    await expect(decryptEnvelope(stored)).resolves.toBe('kyc document');
+    expect(envelopeKeyId(await encryptEnvelope('new value'))).toBe('b');
+
+    const rewrapped = await rewrapEnvelope(stored);
+    expect(envelopeKeyId(rewrapped)).toBe('b');
+    expect(needsRewrap(rewrapped)).toBe(false);
+    // Only the data key is rewrapped; the ciphertext is unchanged
+    expect(rewrapped.split(':')[4]).toBe(stored.split(':')[4]);
+
+    // Retire a: rewrapped values decrypt, values left on it no longer do
+    setKeyProvider(provider('b', { b: KEY_B }));
+    await expect(decryptEnvelope(rewrapped)).resolves.toBe('kyc document');
+    await expect(decryptEnvelope(untouched)).rejects.toThrow(/"a" is not configured/);
+  });
+});
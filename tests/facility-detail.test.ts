@@ -0,0 +1,118 @@
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/facilities/[id]/route';
+import { queryResult, setSupabaseClient, tableQuery } from '@/lib/supabase';
+
+const FACILITY = {
+  id: 'facility-1',
+  name: 'Serenity House',
+  city: 'Oakland',
+  state: 'CA',
+  zip: '94612',
+  street: '1 Main St',
+  verified: true,
+  internalNotes: 'not for the public'
+};
+
+let client = 0;
+
+// Each request comes from a new client so the route's rate limit never trips
+function detail(id: string, query = '') {
+  return GET(new NextRequest(`https://example.com/api/facilities/${id}?${query}`, {
+    headers: { 'x-forwarded-for': `192.0.2.${++client}` }
+  }), { params: { id } });
+}
+
+function install(tables: Record<string, Array<Record<string, unknown>>>, rpc = jest.fn()) {
+  setSupabaseClient({ from: (table: string) => tableQuery(tables[table] ?? []), rpc });
+  return rpc;
+}
+
+describe('GET /api/facilities/{id}', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('returns the public record with availability, verification, operators and similar facilities', async () => {
+    const rpc = install({
+      facilities: [FACILITY],
+      availability_updates: [
+        { facilityId: 'facility-1', availableBeds: 1, totalBeds: 8, waitlistCount: 0, lastConfirmed: '2026-10-01T00:00:00Z' },
+        { facilityId: 'facility-1', availableBeds: 3, totalBeds: 8, waitlistCount: 2, lastConfirmed: '2026-10-18T00:00:00Z' }
+      ],
+      verification_requests: [
+        { facilityId: 'facility-1', requestType: 'license', status: 'approved', reviewedAt: '2026-10-02', createdAt: '2026-10-01' }
+      ],
+      operators: [
+        { facilityId: 'facility-1', name: 'Dana', role: 'director', phone: '555-0100', kycVerified: true, approvedAt: '2026-09-01' },
+        { facilityId: 'facility-1', name: 'Sam', role: 'staff', phone: '555-0101', kycVerified: false, approvedAt: null }
+      ]
+    }, jest.fn(async () => ({
+      data: [{
+        id: 'facility-2', name: 'Harbor Light', city: 'Oakland', state: 'CA', services: ['detox'], verified: false,
+        latitude: 37.8, longitude: -122.2, distance: 2.345, services_overlap: 0.6667, similarity: 0.81234
+      }],
+      error: null
+    })));
+
+    const response = await detail('facility-1', 'similarRadius=10&similarLimit=3');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.facility).toMatchObject({
+      name: 'Serenity House',
+      street: '1 Main St',
+      availability: { availableBeds: 3, waitlistCount: 2 },
+      verification: { verified: true, status: 'approved', requestType: 'license' },
+      operators: [{ name: 'Dana', role: 'director', phone: '555-0100' }]
+    });
+    expect(body.facility).not.toHaveProperty('internalNotes');
+    expect(body.similarFacilities).toEqual([expect.objectContaining({
+      id: 'facility-2',
+      distance: 2.3,
+      servicesOverlap: 0.67,
+      similarity: 0.812
+    })]);
+    expect(rpc).toHaveBeenCalledWith('find_similar_facilities', { target_id: 'facility-1', radius_miles: 10, max_results: 3 });
+  });
+
+  it('still returns the facility when similar facilities fail', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    install({ facilities: [FACILITY] }, jest.fn(async () => ({ data: null, error: { message: 'timeout' } })));
+
+    const response = await detail('facility-1');
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      facility: { availability: null, operators: [] },
+      similarFacilities: []
+    });
+  });
+
+  it('skips the similar lookup when no similar facilities are asked for', async () => {
+    const rpc = install({ facilities: [FACILITY] });
+
+    const response = await detail('facility-1', 'similarLimit=0');
+
+    expect(response.status).toBe(200);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('returns NOT_FOUND for an unknown facility and validates parameters', async () => {
+    install({ facilities: [FACILITY] });
+
+    const missing = await detail('facility-404');
+    expect(missing.status).toBe(404);
+    await expect(missing.json()).resolves.toMatchObject({ error: { code: 'NOT_FOUND', field: 'id' } });
+
+    const invalid = await detail('facility-1', 'similarLimit=50');
+    await expect(invalid.json()).resolves.toMatchObject({ error: { code: 'VALIDATION_ERROR', field: 'similarLimit' } });
+  });
+
+  it('returns a 500 envelope when the facility query fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    setSupabaseClient({ from: () => queryResult({ error: { message: 'connection reset' } }) });
+
+    const response = await detail('facility-1');
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toMatchObject({ error: { code: 'INTERNAL_ERROR', message: 'Failed to load facility' } });
+  });
+});
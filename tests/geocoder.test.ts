@@ -0,0 +1,55 @@
+import { GazetteerGeocoder } from '@/lib/geocoder';
+import { CityCentroid, StateCentroid } from '@/lib/gazetteer-data';
+
+const STATES: StateCentroid[] = [
+  { code: 'MO', name: 'Missouri', latitude: 38.4561, longitude: -92.2884 },
+  { code: 'NY', name: 'New York', latitude: 42.1657, longitude: -74.9481 },
+  { code: 'OR', name: 'Oregon', latitude: 44.5720, longitude: -122.0709 },
+  { code: 'ME', name: 'Maine', latitude: 44.6939, longitude: -69.3819 }
+];
+
+const CITIES: CityCentroid[] = [
+  { city: 'St Louis', state: 'MO', latitude: 38.6270, longitude: -90.1994, zipPrefixes: ['630', '631'] },
+  { city: 'New York', state: 'NY', latitude: 40.7128, longitude: -74.0060, zipPrefixes: ['100'] },
+  { city: 'Portland', state: 'OR', latitude: 45.5152, longitude: -122.6784, zipPrefixes: ['970'] },
+  { city: 'Portland', state: 'ME', latitude: 43.6591, longitude: -70.2568, zipPrefixes: ['040'] }
+];
+
+const geocoder = new GazetteerGeocoder(CITIES, STATES);
+
+describe('GazetteerGeocoder', () => {
+  it('resolves "City, ST", "City State" and bare city names', async () => {
+    await expect(geocoder.geocode('Portland, ME')).resolves.toMatchObject({
+      latitude: 43.6591,
+      precision: 'city',
+      label: 'Portland, ME',
+      source: 'gazetteer'
+    });
+    await expect(geocoder.geocode('portland oregon')).resolves.toMatchObject({ label: 'Portland, OR' });
+    await expect(geocoder.geocode('Saint Louis')).resolves.toMatchObject({ label: 'St Louis, MO' });
+    await expect(geocoder.geocode('St. Louis,  Missouri')).resolves.toMatchObject({ label: 'St Louis, MO' });
+  });
+
+  it('prefers a city over a state of the same name', async () => {
+    await expect(geocoder.geocode('New York')).resolves.toMatchObject({ precision: 'city', label: 'New York, NY' });
+    await expect(geocoder.geocode('Oregon')).resolves.toMatchObject({ precision: 'state', label: 'Oregon' });
+    await expect(geocoder.geocode(', NY')).resolves.toMatchObject({ precision: 'state' });
+  });
+
+  it('reports ZIP codes as resolved by their 3-digit prefix', async () => {
+    await expect(geocoder.geocode('63101-1234')).resolves.toEqual({
+      latitude: 38.6270,
+      longitude: -90.1994,
+      precision: 'zip3',
+      label: '63101 (St Louis, MO)',
+      source: 'gazetteer'
+    });
+    await expect(geocoder.geocode('99999')).resolves.toBeNull();
+  });
+
+  it('returns null for unknown places', async () => {
+    await expect(geocoder.geocode('Portland, CA')).resolves.toBeNull();
+    await expect(geocoder.geocode('Springfield')).resolves.toBeNull();
+    await expect(geocoder.geocode('   ')).resolves.toBeNull();
+  });
+});
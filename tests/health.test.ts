@@ -0,0 +1,30 @@
+import { EdgeCache } from '@/lib/edge-cache';
+import { getReadiness } from '@/lib/health';
+import { memoryOptimizer } from '@/lib/memory-optimizer';
+import { queryResult, setSupabaseClient, tableQuery } from '@/lib/supabase';
+
+describe('getReadiness', () => {
+  afterEach(() => jest.restoreAllMocks());
+  afterAll(() => memoryOptimizer.stopMonitoring());
+
+  it('stays ready, degraded, when the cache is down', async () => {
+    const recentSync = [{ pipeline: 'findtreatment', lastSync: new Date().toISOString(), created_at: 1 }];
+    setSupabaseClient({ from: (table: string) => tableQuery(table === 'etl_sync_status' ? recentSync : [{ id: 'f-1' }]) });
+    jest.spyOn(EdgeCache.prototype, 'ping').mockRejectedValue(new Error('ECONNREFUSED'));
+
+    const report = await getReadiness();
+
+    expect(report.status).toBe('degraded');
+    expect(report.checks.cache).toMatchObject({ status: 'degraded', message: 'ECONNREFUSED' });
+    expect(report.checks.database.status).toBe('healthy');
+  });
+
+  it('is unready when the database is down', async () => {
+    setSupabaseClient({ from: () => queryResult({ error: { message: 'connection refused' } }) });
+
+    const report = await getReadiness();
+
+    expect(report.status).toBe('unhealthy');
+    expect(report.checks.database).toMatchObject({ status: 'unhealthy', message: 'connection refused' });
+  });
+});
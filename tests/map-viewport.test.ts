@@ -0,0 +1,102 @@
+import {
+  countClusterCells,
+  getClusterCellSize,
+  MAX_CLUSTER_CELLS,
+  shouldCluster,
+  snapViewport,
+  toMapCluster,
+  validateViewport,
+  CLUSTER_MAX_ZOOM
+} from '@/lib/map-viewport';
+
+const WORLD = { north: 90, south: -90, east: 180, west: -180 };
+
+describe('cluster grid', () => {
+  it('halves the cell size with every zoom level', () => {
+    expect(getClusterCellSize(0)).toBe(90);
+    expect(getClusterCellSize(1)).toBe(45);
+    expect(getClusterCellSize(10)).toBeCloseTo(360 / 4096);
+  });
+
+  it('clusters below the cluster zoom only', () => {
+    expect(shouldCluster(CLUSTER_MAX_ZOOM - 1)).toBe(true);
+    expect(shouldCluster(CLUSTER_MAX_ZOOM)).toBe(false);
+  });
+
+  it('counts the cells a viewport spans, across the antimeridian too', () => {
+    expect(countClusterCells(WORLD, getClusterCellSize(0))).toBe(8);
+    expect(countClusterCells({ north: 10, south: 0, east: -170, west: 170 }, 5)).toBe(8);
+
+    // The whole world at zoom 10 is millions of cells
+    expect(countClusterCells(WORLD, getClusterCellSize(10))).toBeGreaterThan(MAX_CLUSTER_CELLS);
+  });
+});
+
+describe('validateViewport', () => {
+  it('accepts bounds crossing the antimeridian', () => {
+    expect(validateViewport({ north: 10, south: 0, east: -170, west: 170 })).toBeNull();
+  });
+
+  it('rejects out-of-range or inverted bounds', () => {
+    expect(validateViewport({ ...WORLD, north: NaN })).toMatch(/must all be numbers/);
+    expect(validateViewport({ ...WORLD, north: 91 })).toMatch(/between -90 and 90/);
+    expect(validateViewport({ ...WORLD, west: -181 })).toMatch(/between -180 and 180/);
+    expect(validateViewport({ ...WORLD, south: 90 })).toBe('south must be less than north');
+  });
+});
+
+describe('snapViewport', () => {
+  it('expands outward to whole cells', () => {
+    expect(snapViewport({ north: 37.9, south: 37.61, east: -122.3, west: -122.55 }, 0.25)).toEqual({
+      north: 38,
+      south: 37.5,
+      east: -122.25,
+      west: -122.75
+    });
+  });
+
+  it('keeps a viewport crossing the antimeridian crossing it', () => {
+    expect(snapViewport({ north: 10, south: -10, east: -170.5, west: 170.5 }, 1)).toEqual({
+      north: 10,
+      south: -10,
+      east: -170,
+      west: 170
+    });
+    expect(snapViewport({ north: 10, south: -10, east: -170, west: 170 }, 90)).toEqual({
+      north: 90,
+      south: -90,
+      east: -90,
+      west: 90
+    });
+  });
+
+  it('clamps to the world', () => {
+    expect(snapViewport({ north: 89, south: -89, east: 179, west: -179 }, 7)).toEqual(WORLD);
+  });
+});
+
+describe('toMapCluster', () => {
+  it('builds ids from the zoom and cell and keeps single facilities', () => {
+    const row = {
+      cell_x: 12,
+      cell_y: 7,
+      count: 1,
+      latitude: 37.77,
+      longitude: -122.42,
+      max_lat: 37.77,
+      min_lat: 37.77,
+      max_lng: -122.42,
+      min_lng: -122.42,
+      facility_id: 'facility-1'
+    };
+
+    expect(toMapCluster(row, 6)).toEqual({
+      id: '6:12:7',
+      count: 1,
+      centroid: { latitude: 37.77, longitude: -122.42 },
+      bounds: { north: 37.77, south: 37.77, east: -122.42, west: -122.42 },
+      facilityId: 'facility-1'
+    });
+    expect(toMapCluster({ ...row, count: 3, facility_id: null }, 6)).not.toHaveProperty('facilityId');
+  });
+});
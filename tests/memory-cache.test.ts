@@ -0,0 +1,129 @@
+import { estimateSize, MemoryCache } from '@/lib/memory-cache';
+
+// Sizes are given explicitly so budgets are easy to reason about
+function cache(maxBytes = 100, protectedRatio = 0.5) {
+  return new MemoryCache<string>('test', { maxBytes, protectedRatio });
+}
+
+function keys(target: MemoryCache<string>, candidates: string[]): string[] {
+  return candidates.filter(key => target.get(key) !== null);
+}
+
+describe('MemoryCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('evicts least recently used probation entries first', () => {
+    const lru = cache();
+    for (const key of ['a', 'b', 'c', 'd', 'e']) {
+      lru.set(key, key, { size: 20 });
+    }
+
+    lru.set('f', 'f', { size: 20 });
+
+    expect(lru.size).toBe(5);
+    expect(lru.getStats().evictions).toBe(1);
+    expect(keys(lru, ['a', 'b', 'c', 'd', 'e', 'f'])).toEqual(['b', 'c', 'd', 'e', 'f']);
+  });
+
+  it('keeps reused entries through a burst of one-off keys', () => {
+    const lru = cache();
+    lru.set('hot', 'hot', { size: 20 });
+    lru.get('hot'); // Promoted to the protected segment
+
+    for (let i = 0; i < 50; i++) {
+      lru.set(`once-${i}`, 'x', { size: 20 });
+    }
+
+    expect(lru.get('hot')).toBe('hot');
+    expect(lru.bytes).toBeLessThanOrEqual(100);
+    expect(lru.get('once-0')).toBeNull();
+    expect(lru.get('once-49')).toBe('x');
+  });
+
+  it('demotes the oldest protected entries when the segment overflows', () => {
+    const lru = cache(100, 0.5); // 50 bytes protected
+    for (const key of ['a', 'b', 'c']) {
+      lru.set(key, key, { size: 20 });
+      lru.get(key);
+    }
+
+    // "a" went back to probation, so it is the first to go
+    lru.set('d', 'd', { size: 20 });
+    lru.set('e', 'e', { size: 20 });
+    lru.set('f', 'f', { size: 20 });
+
+    expect(lru.get('a')).toBeNull();
+    expect(keys(lru, ['b', 'c'])).toEqual(['b', 'c']);
+  });
+
+  it('holds the byte budget and refuses entries larger than it', () => {
+    const lru = cache(100);
+    lru.set('a', 'a', { size: 60 });
+    lru.set('b', 'b', { size: 60 });
+
+    expect(lru.bytes).toBe(60);
+    expect(lru.get('a')).toBeNull();
+    expect(lru.set('huge', 'huge', { size: 101 })).toBe(false);
+    expect(lru.get('huge')).toBeNull();
+    expect(lru.get('b')).toBe('b');
+  });
+
+  it('replaces an existing key without double counting its bytes', () => {
+    const lru = cache();
+    lru.set('a', 'one', { size: 30 });
+    lru.get('a');
+    lru.set('a', 'two', { size: 40 });
+
+    expect(lru.size).toBe(1);
+    expect(lru.bytes).toBe(40);
+    expect(lru.get('a')).toBe('two');
+
+    expect(lru.delete('a')).toBe(true);
+    expect(lru.delete('a')).toBe(false);
+    expect(lru.bytes).toBe(0);
+  });
+
+  it('expires entries by TTL on read and on prune', () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const lru = new MemoryCache<string>('test', { maxBytes: 100, defaultTtlMs: 1000 });
+    lru.set('read', 'x', { size: 10 });
+    lru.set('protected', 'x', { size: 10 });
+    lru.get('protected');
+    lru.set('pruned', 'x', { size: 10 });
+    lru.set('forever', 'x', { size: 10, ttlMs: 60_000 });
+
+    jest.advanceTimersByTime(1000);
+
+    expect(lru.get('read')).toBeNull();
+    expect(lru.get('protected')).toBeNull();
+    expect(lru.pruneExpired()).toBe(1);
+    expect(lru.get('forever')).toBe('x');
+    expect(lru.bytes).toBe(10);
+    expect(lru.getStats()).toMatchObject({ expirations: 3, hits: 2, misses: 2 });
+  });
+
+  it('evicts down to a target on demand', () => {
+    const lru = cache();
+    for (const key of ['a', 'b', 'c', 'd']) {
+      lru.set(key, key, { size: 20 });
+    }
+    lru.get('a');
+
+    expect(lru.evictUntil(20)).toBe(3);
+    expect(keys(lru, ['a', 'b', 'c', 'd'])).toEqual(['a']);
+  });
+});
+
+describe('estimateSize', () => {
+  it('grows with content and tolerates cycles', () => {
+    const small = estimateSize({ id: '1' });
+    const large = estimateSize({ id: '1', name: 'x'.repeat(100), tags: [1, 2, 3] });
+    expect(large).toBeGreaterThan(small + 200);
+
+    const cyclic: Record<string, unknown> = { name: 'loop' };
+    cyclic.self = cyclic;
+    expect(estimateSize(cyclic)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { POST as createOperator } from '@/app/api/admin/operators/route';
+import { metricsRegistry, withMetrics } from '@/lib/metrics';
+
+describe('withMetrics', () => {
+  it('records each response under the route pattern', async () => {
+    const handler = withMetrics('/api/test/[id]', async (_request: { method: string }, status: number) => ({ status }));
+
+    await handler({ method: 'GET' }, 200);
+    await handler({ method: 'GET' }, 429);
+
+    const output = await metricsRegistry.render();
+    expect(output).toContain('http_requests_total{method="GET",endpoint="/api/test/[id]",status="200"} 1');
+    expect(output).toContain('http_rate_limit_rejections_total{endpoint="/api/test/[id]"} 1');
+    expect(output).toContain('http_request_duration_seconds_count{method="GET",endpoint="/api/test/[id]"} 2');
+  });
+
+  it('counts a thrown error as a 500 and rethrows it', async () => {
+    const handler = withMetrics('/api/test/throws', async (_request: { method: string }): Promise<{ status: number }> => {
+      throw new Error('boom');
+    });
+
+    await expect(handler({ method: 'POST' })).rejects.toThrow('boom');
+    await expect(metricsRegistry.render())
+      .resolves.toContain('http_requests_total{method="POST",endpoint="/api/test/throws",status="500"} 1');
+  });
+
+  it('covers admin routes, including denied requests', async () => {
+    const request = new NextRequest('https://example.com/api/admin/operators', { method: 'POST', body: '{}' });
+
+    const response = await createOperator(request, { params: {} });
+
+    expect(response.status).toBe(401);
+    await expect(metricsRegistry.render())
+      .resolves.toContain('http_requests_total{method="POST",endpoint="/api/admin/operators",status="401"} 1');
+  });
+});
+
+describe('GET /api/metrics', () => {
+  type MetricsRoute = typeof import('@/app/api/metrics/route');
+  type MemoryOptimizerModule = typeof import('@/lib/memory-optimizer');
+  let route: MetricsRoute;
+  let optimizer: MemoryOptimizerModule;
+
+  beforeAll(() => {
+    jest.isolateModules(() => {
+      process.env.METRICS_TOKEN = 'scrape-secret';
+      route = require('@/app/api/metrics/route');
+      optimizer = require('@/lib/memory-optimizer');
+    });
+    delete process.env.METRICS_TOKEN;
+  });
+
+  afterAll(() => {
+    optimizer.memoryOptimizer.stopMonitoring();
+  });
+
+  const scrape = (authorization?: string) => route.GET(new NextRequest('https://example.com/api/metrics', {
+    headers: authorization ? { authorization } : {}
+  }));
+
+  it('requires the configured bearer token', async () => {
+    for (const authorization of [undefined, 'Bearer wrong', 'Bearer scrape-secre', 'scrape-secret']) {
+      await expect(scrape(authorization)).resolves.toMatchObject({ status: 401 });
+    }
+
+    const response = await scrape('Bearer scrape-secret');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+  });
+});
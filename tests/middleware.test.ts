@@ -0,0 +1,58 @@
+import { NextFetchEvent, NextRequest } from 'next/server';
+import { middleware } from '@/middleware';
+import { hashApiKey } from '@/lib/api-keys';
+import { setSupabaseClient, tableQuery } from '@/lib/supabase';
+
+const KEY = 'slk_middleware-test-key';
+
+function request(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('https://example.com/api/facilities/search-optimized?q=detox', { headers });
+}
+
+describe('API key middleware', () => {
+  let rpc: jest.Mock;
+
+  beforeAll(async () => {
+    const keys = [{
+      id: 'key-1',
+      name: 'partner',
+      tier: 'free',
+      keyPrefix: KEY.slice(0, 12),
+      keyHash: await hashApiKey(KEY),
+      monthlyQuota: 2,
+      expiresAt: null,
+      revokedAt: null
+    }];
+    rpc = jest.fn(async (_name: string, args: { amount: number }) => ({ data: args.amount, error: null }));
+    setSupabaseClient({ from: () => tableQuery(keys), rpc });
+  });
+
+  it('passes anonymous requests through', async () => {
+    const response = await middleware(request(), new NextFetchEvent());
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Quota-Limit')).toBeNull();
+  });
+
+  it('rejects unknown keys', async () => {
+    const response = await middleware(request({ 'x-api-key': 'slk_unknown' }), new NextFetchEvent());
+    expect(response.status).toBe(401);
+  });
+
+  it('records usage in the background and enforces the quota', async () => {
+    const event = new NextFetchEvent();
+    const first = await middleware(request({ 'x-api-key': KEY }), event);
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-Quota-Remaining')).toBe('1');
+
+    // The first request on an instance schedules a write via waitUntil
+    expect(event.pending).toHaveLength(1);
+    await Promise.all(event.pending);
+    expect(rpc).toHaveBeenCalledWith('increment_api_key_usage', expect.objectContaining({ amount: 1 }));
+
+    const second = await middleware(request({ 'x-api-key': KEY }), new NextFetchEvent());
+    expect(second.status).toBe(200);
+    const third = await middleware(request({ 'x-api-key': KEY }), new NextFetchEvent());
+    expect(third.status).toBe(429);
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,152 @@
+import { isEnvelope } from '@/lib/envelope-encryption';
+import { operatorFields } from '@/lib/field-encryption';
+import {
+  createOperator,
+  createVerificationRequest,
+  reviewVerificationRequest,
+  updateOperator,
+  validateOperatorChanges,
+  validateOperatorInput
+} from '@/lib/operators';
+import { setSupabaseClient } from '@/lib/supabase';
+
+type Row = Record<string, any>;
+
+// Tables that keep what was written, so tests can inspect the stored values
+function installTables() {
+  const tables: Record<string, Row[]> = { operators: [], verification_requests: [] };
+
+  const query = (table: string) => {
+    const filters: Array<[string, unknown]> = [];
+    let write: { kind: 'insert' | 'update'; values: Row } | null = null;
+    let error: Row | null = null;
+
+    const run = () => {
+      if (error) return { data: null, error };
+      const rows = tables[table];
+      if (write?.kind === 'insert') {
+        if (table === 'operators' && rows.some(row => row.emailIndex === write!.values.emailIndex)) {
+          return { data: null, error: { code: '23505', message: 'duplicate key' } };
+        }
+        const row = { createdAt: '2026-10-19T00:00:00.000Z', ...write.values };
+        rows.push(row);
+        return { data: row, error: null };
+      }
+      const matched = rows.filter(row => filters.every(([column, value]) => row[column] === value));
+      if (write?.kind === 'update') {
+        matched.forEach(row => Object.assign(row, write!.values));
+      }
+      return { data: matched[0] ?? null, error: null };
+    };
+
+    const builder: any = {
+      insert: (values: Row) => { write = { kind: 'insert', values }; return builder; },
+      update: (values: Row) => { write = { kind: 'update', values }; return builder; },
+      select: () => builder,
+      eq: (column: string, value: unknown) => { filters.push([column, value]); return builder; },
+      single: () => builder,
+      maybeSingle: () => builder,
+      failWith: (next: Row) => { error = next; return builder; },
+      then: (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) =>
+        Promise.resolve().then(run).then(resolve, reject)
+    };
+    return builder;
+  };
+
+  setSupabaseClient({ from: query });
+  return tables;
+}
+
+const OPERATOR = {
+  facilityId: 'facility-1',
+  name: 'Pat Operator',
+  email: 'Pat@Example.com',
+  phone: '(415) 555-0100',
+  kycDocuments: [{ type: 'license', url: 'https://storage.example.com/license.pdf' }]
+};
+
+describe('operator writes', () => {
+  it('encrypts PII and indexes the email on create', async () => {
+    const tables = installTables();
+
+    const operator = await createOperator(OPERATOR);
+    const stored = tables.operators[0];
+
+    expect(isEnvelope(stored.email)).toBe(true);
+    expect(isEnvelope(stored.phone)).toBe(true);
+    expect(isEnvelope(stored.kycDocuments)).toBe(true);
+    expect(JSON.stringify(stored)).not.toContain('Pat@Example.com');
+    expect(stored.emailIndex).toBe(operatorFields.blindIndex('email', 'pat@example.com'));
+
+    // The caller gets plaintext back
+    expect(operator).toMatchObject({
+      email: 'Pat@Example.com',
+      phone: '(415) 555-0100',
+      kycDocuments: OPERATOR.kycDocuments,
+      kycVerified: false
+    });
+  });
+
+  it('rejects a second operator with the same email', async () => {
+    installTables();
+    await createOperator(OPERATOR);
+
+    await expect(createOperator({ ...OPERATOR, email: 'pat@example.com ' }))
+      .rejects.toMatchObject({ code: 'CONFLICT', status: 409, field: 'email' });
+  });
+
+  it('re-encrypts and re-indexes changed fields on update', async () => {
+    const tables = installTables();
+    const { id } = await createOperator(OPERATOR);
+
+    const updated = await updateOperator(id, { email: 'new@example.com', kycVerified: true, approved: true }, 'user:admin');
+    const stored = tables.operators[0];
+
+    expect(isEnvelope(stored.email)).toBe(true);
+    expect(stored.emailIndex).toBe(operatorFields.blindIndex('email', 'new@example.com'));
+    expect(stored.approvedBy).toBe('user:admin');
+    expect(updated).toMatchObject({ email: 'new@example.com', kycVerified: true, approvedBy: 'user:admin' });
+  });
+
+  it('reports unknown operators', async () => {
+    installTables();
+    await expect(updateOperator('missing', { name: 'x' }, 'user:admin')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
+
+describe('verification request writes', () => {
+  it('encrypts documents and only reviews pending requests once', async () => {
+    const tables = installTables();
+    const documents = [{ type: 'license', number: 'CA-12345' }];
+
+    const created = await createVerificationRequest({
+      facilityId: 'facility-1',
+      operatorId: 'op-1',
+      requestType: 'license',
+      documents
+    });
+    expect(isEnvelope(tables.verification_requests[0].documents)).toBe(true);
+    expect(created).toMatchObject({ status: 'pending', documents });
+
+    const reviewed = await reviewVerificationRequest(created.id, { status: 'approved' }, 'user:reviewer');
+    expect(reviewed).toMatchObject({ status: 'approved', reviewedBy: 'user:reviewer', documents });
+
+    await expect(reviewVerificationRequest(created.id, { status: 'rejected' }, 'user:reviewer'))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
+
+describe('operator validation', () => {
+  it('requires a facility, name and valid email on create', () => {
+    expect(validateOperatorInput({ ...OPERATOR })).toBeNull();
+    expect(validateOperatorInput({ ...OPERATOR, facilityId: undefined })).toMatchObject({ field: 'facilityId' });
+    expect(validateOperatorInput({ ...OPERATOR, email: 'not-an-email' })).toMatchObject({ field: 'email' });
+    expect(validateOperatorInput({ ...OPERATOR, kycDocuments: 'scan.pdf' })).toMatchObject({ field: 'kycDocuments' });
+  });
+
+  it('requires at least one known field on update', () => {
+    expect(validateOperatorChanges({})).toMatchObject({ field: 'name' });
+    expect(validateOperatorChanges({ approved: 'yes' })).toMatchObject({ field: 'approved' });
+    expect(validateOperatorChanges({ phone: null })).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { getRankingWeights, isTimeDependentSort, toFactorScores } from '@/lib/ranking';
+
+const WEIGHT_VARIABLES = [
+  'SEARCH_WEIGHT_DISTANCE',
+  'SEARCH_WEIGHT_QUALITY',
+  'SEARCH_WEIGHT_VERIFIED',
+  'SEARCH_WEIGHT_AVAILABILITY',
+  'SEARCH_WEIGHT_TEXT'
+];
+
+function total(weights: Record<string, number>): number {
+  return Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+}
+
+describe('getRankingWeights', () => {
+  afterEach(() => {
+    for (const name of WEIGHT_VARIABLES) delete process.env[name];
+  });
+
+  it('normalises the defaults and leaves text out without a query', () => {
+    const weights = getRankingWeights();
+    expect(weights.text).toBe(0);
+    expect(weights.distance).toBeCloseTo(0.4);
+    expect(total({ ...weights })).toBeCloseTo(1);
+
+    const withText = getRankingWeights(true);
+    expect(withText.text).toBeCloseTo(0.3 / 1.3);
+    expect(withText.distance).toBeCloseTo(0.4 / 1.3);
+    expect(total({ ...withText })).toBeCloseTo(1);
+  });
+
+  it('reads weights from the environment and ignores invalid ones', () => {
+    Object.assign(process.env, {
+      SEARCH_WEIGHT_DISTANCE: '3',
+      SEARCH_WEIGHT_QUALITY: '1',
+      SEARCH_WEIGHT_VERIFIED: '-1',
+      SEARCH_WEIGHT_AVAILABILITY: 'lots'
+    });
+
+    // Verified and availability fall back to their 0.2 defaults
+    const weights = getRankingWeights();
+    expect(weights.distance).toBeCloseTo(3 / 4.4);
+    expect(weights.quality).toBeCloseTo(1 / 4.4);
+    expect(weights.verified).toBeCloseTo(0.2 / 4.4);
+    expect(weights.availability).toBeCloseTo(0.2 / 4.4);
+  });
+
+  it('falls back to the defaults when every weight is zero', () => {
+    for (const name of WEIGHT_VARIABLES) process.env[name] = '0';
+    const weights = getRankingWeights(true);
+    expect(weights.distance).toBeCloseTo(0.4 / 1.3);
+    expect(weights.text).toBeCloseTo(0.3 / 1.3);
+    expect(getRankingWeights().text).toBe(0);
+  });
+});
+
+describe('toFactorScores', () => {
+  it('maps the score columns of a search row', () => {
+    expect(toFactorScores({
+      distance_score: 0.9,
+      quality_score: 0.5,
+      verified_score: 1,
+      availability_score: 0.6,
+      text_score: 0.2,
+      relevance_score: 0.71
+    })).toEqual({ distance: 0.9, quality: 0.5, verified: 1, availability: 0.6, text: 0.2, relevance: 0.71 });
+  });
+});
+
+describe('isTimeDependentSort', () => {
+  it('is true for the sorts that use the availability score', () => {
+    expect(isTimeDependentSort('relevance')).toBe(true);
+    expect(isTimeDependentSort('availability')).toBe(true);
+    expect(isTimeDependentSort('distance')).toBe(false);
+    expect(isTimeDependentSort('quality')).toBe(false);
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  createRestRedisClient,
+  FallbackRateLimitStore,
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  RateLimitStore,
+  RedisRateLimitStore,
+  RedisScriptClient
+} from '@/lib/rate-limit-store';
+import { setSupabaseClient } from '@/lib/supabase';
+
+const POLICY = { limit: 3, windowMs: 60000 };
+
+// Runs the sliding-window script's steps against in-memory sorted sets,
+// with TIME served from a clock the test controls
+class FakeRedis implements RedisScriptClient {
+  now = 1_700_000_000_123;
+  sortedSets = new Map<string, Map<string, number>>();
+  expiries = new Map<string, number>();
+  calls: Array<{ keys: string[]; args: Array<string | number> }> = [];
+
+  async eval(script: string, keys: string[], args: Array<string | number>): Promise<unknown> {
+    expect(script).toContain("redis.call('TIME')");
+    this.calls.push({ keys, args });
+
+    const [key] = keys;
+    const window = Number(args[0]);
+    const limit = Number(args[1]);
+    if ((this.expiries.get(key) ?? Infinity) <= this.now) {
+      this.sortedSets.delete(key);
+    }
+
+    const members = this.sortedSets.get(key) ?? new Map<string, number>();
+    for (const [member, score] of members) {
+      if (score <= this.now - window) members.delete(member);
+    }
+    let allowed = 0;
+    if (members.size < limit) {
+      members.set(`${this.now}-${args[2]}`, this.now);
+      allowed = 1;
+    }
+    this.sortedSets.set(key, members);
+    this.expiries.set(key, this.now + window);
+
+    const oldest = Math.min(...members.values(), this.now);
+    return [allowed, members.size, oldest, this.now];
+  }
+}
+
+describe('RedisRateLimitStore', () => {
+  it('allows the limit per window and reports when the oldest request ages out', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisRateLimitStore(redis);
+    const start = redis.now;
+
+    const allowed = [];
+    for (let i = 0; i < 3; i++) {
+      allowed.push(await store.consume('ratelimit:search:ip:1', POLICY));
+      redis.now += 1000;
+    }
+    expect(allowed.map(result => [result.allowed, result.remaining])).toEqual([[true, 2], [true, 1], [true, 0]]);
+
+    const blocked = await store.consume('ratelimit:search:ip:1', POLICY);
+    expect(blocked).toEqual({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      resetAt: start + POLICY.windowMs,
+      retryAfter: 57 // Window end minus server time, rounded up
+    });
+  });
+
+  it('slides the window instead of resetting it', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisRateLimitStore(redis);
+    const start = redis.now;
+
+    await store.consume('k', POLICY);
+    redis.now = start + 30000;
+    await store.consume('k', POLICY);
+    await store.consume('k', POLICY);
+
+    // Only the first request has left the window
+    redis.now = start + POLICY.windowMs;
+    await expect(store.consume('k', POLICY)).resolves.toMatchObject({ allowed: true, remaining: 0 });
+    await expect(store.consume('k', POLICY)).resolves.toMatchObject({ allowed: false });
+
+    redis.now = start + 30000 + POLICY.windowMs;
+    await expect(store.consume('k', POLICY)).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('counts requests landing in the same millisecond separately', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisRateLimitStore(redis);
+
+    const results = await Promise.all([1, 2, 3, 4].map(() => store.consume('k', POLICY)));
+
+    expect(results.filter(result => result.allowed)).toHaveLength(3);
+    expect(new Set(redis.calls.map(call => call.args[2])).size).toBe(4);
+  });
+
+  it('keys buckets independently and expires them with the window', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisRateLimitStore(redis);
+
+    for (let i = 0; i < 3; i++) {
+      await store.consume('a', POLICY);
+    }
+    await expect(store.consume('b', POLICY)).resolves.toMatchObject({ allowed: true, remaining: 2 });
+
+    expect(redis.calls.every(call => call.keys.length === 1)).toBe(true);
+    expect(redis.calls[0].args.slice(0, 2)).toEqual([POLICY.windowMs, POLICY.limit]);
+    expect(redis.expiries.get('a')).toBe(redis.now + POLICY.windowMs);
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('refills tokens continuously', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const store = new MemoryRateLimitStore();
+
+    for (let i = 0; i < 3; i++) {
+      await store.consume('k', POLICY);
+    }
+    await expect(store.consume('k', POLICY)).resolves.toMatchObject({ allowed: false, retryAfter: 20 });
+
+    jest.advanceTimersByTime(20000); // One token's worth
+    await expect(store.consume('k', POLICY)).resolves.toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('evicts the least recently used bucket past maxKeys', async () => {
+    const store = new MemoryRateLimitStore(2);
+    const exhaust = async (key: string) => {
+      for (let i = 0; i < 3; i++) await store.consume(key, POLICY);
+    };
+
+    await exhaust('a');
+    await exhaust('b');
+    await store.consume('a', POLICY); // "b" is now the oldest
+    await store.consume('c', POLICY);
+
+    await expect(store.consume('a', POLICY)).resolves.toMatchObject({ allowed: false });
+    await expect(store.consume('b', POLICY)).resolves.toMatchObject({ allowed: true, remaining: 2 });
+  });
+});
+
+describe('PostgresRateLimitStore', () => {
+  it('maps the consume_rate_limit row', async () => {
+    const rpc = jest.fn(async () => ({
+      data: [{ allowed: false, remaining: 0, reset_at: '1700000060000', retry_after_ms: '1500' }],
+      error: null
+    }));
+    setSupabaseClient({ rpc });
+
+    await expect(new PostgresRateLimitStore().consume('k', POLICY)).resolves.toEqual({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      resetAt: 1700000060000,
+      retryAfter: 2
+    });
+    expect(rpc).toHaveBeenCalledWith('consume_rate_limit', { bucket_key: 'k', max_requests: 3, window_ms: 60000 });
+  });
+});
+
+describe('FallbackRateLimitStore', () => {
+  const failing: RateLimitStore = {
+    name: 'redis',
+    consume: async () => { throw new Error('connection refused'); }
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('falls through to the next store when one fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new FallbackRateLimitStore([failing, new MemoryRateLimitStore()]);
+
+    expect(store.name).toBe('redis>memory');
+    await expect(store.consume('k', POLICY)).resolves.toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('rethrows when every store fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new FallbackRateLimitStore([failing, failing]);
+
+    await expect(store.consume('k', POLICY)).rejects.toThrow('connection refused');
+  });
+
+  it('skips a failed store for the cooldown and logs once per state change', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const warnings = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    let healthy = false;
+    const redis: RateLimitStore = {
+      name: 'redis',
+      consume: jest.fn(async () => {
+        if (!healthy) throw new Error('connection refused');
+        return { allowed: true, limit: 3, remaining: 2, resetAt: 0, retryAfter: 0 };
+      })
+    };
+    const store = new FallbackRateLimitStore([redis, new MemoryRateLimitStore()], 30000);
+
+    for (let i = 0; i < 5; i++) {
+      await store.consume(`k${i}`, POLICY);
+    }
+    expect(redis.consume).toHaveBeenCalledTimes(1);
+
+    // Still down when the cooldown ends: tried once more, not logged again
+    jest.advanceTimersByTime(30000);
+    await store.consume('k', POLICY);
+    await store.consume('k', POLICY);
+    expect(redis.consume).toHaveBeenCalledTimes(2);
+    expect(errors).toHaveBeenCalledTimes(1);
+
+    healthy = true;
+    jest.advanceTimersByTime(30000);
+    await store.consume('k', POLICY);
+    await store.consume('k', POLICY);
+    expect(redis.consume).toHaveBeenCalledTimes(4);
+    expect(warnings).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createRestRedisClient', () => {
+  const realFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  it('gives up on a Redis that does not answer', async () => {
+    global.fetch = jest.fn((_url: string | URL | Request, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+      })
+    ) as typeof fetch;
+
+    const client = createRestRedisClient('https://redis.example.com', 'token');
+    await expect(client.eval('return 1', [], [])).rejects.toMatchObject({ name: 'TimeoutError' });
+  });
+});
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import { getClientIp, getClientKey, RateLimiter } from '@/lib/rate-limiter';
+
+describe('getClientIp', () => {
+  it('takes the entry added by the trusted proxy, not the client-supplied ones', () => {
+    const headers = new Headers({ 'x-forwarded-for': 'spoofed-1, spoofed-2, 198.51.100.7' });
+    expect(getClientIp(headers)).toBe('198.51.100.7');
+  });
+
+  it('falls back to X-Real-IP without X-Forwarded-For', () => {
+    expect(getClientIp(new Headers({ 'x-real-ip': '198.51.100.8' }))).toBe('198.51.100.8');
+    expect(getClientIp(new Headers())).toBe('unknown');
+  });
+
+  it('honours TRUSTED_PROXY_HOPS', () => {
+    const headers = new Headers({ 'x-forwarded-for': 'spoofed, 198.51.100.7, 10.0.0.2' });
+
+    jest.isolateModules(() => {
+      process.env.TRUSTED_PROXY_HOPS = '2';
+      const limiter: typeof import('@/lib/rate-limiter') = require('@/lib/rate-limiter');
+      expect(limiter.getClientIp(headers)).toBe('198.51.100.7');
+
+      process.env.TRUSTED_PROXY_HOPS = '0';
+      jest.resetModules();
+      const direct: typeof import('@/lib/rate-limiter') = require('@/lib/rate-limiter');
+      expect(direct.getClientIp(headers)).toBe('unknown');
+    });
+    delete process.env.TRUSTED_PROXY_HOPS;
+  });
+});
+
+describe('getClientKey', () => {
+  it('keys resolved principals by id', async () => {
+    const headers = new Headers({ 'x-forwarded-for': '198.51.100.7' });
+    await expect(getClientKey(headers, { principalId: 'user:42' })).resolves.toBe('principal:user:42');
+  });
+
+  it('keys API key requests by a hash of the key', async () => {
+    const key = await getClientKey(new Headers({ 'x-api-key': 'slk_secret' }));
+    const expected = crypto.createHash('sha256').update('slk_secret').digest('hex').slice(0, 16);
+    expect(key).toBe(`key:${expected}`);
+  });
+
+  it('keys anonymous requests by client IP', async () => {
+    const headers = new Headers({ 'x-forwarded-for': 'spoofed, 198.51.100.7' });
+    await expect(getClientKey(headers)).resolves.toBe('ip:198.51.100.7');
+  });
+
+  it('cannot be dodged by rotating the leftmost X-Forwarded-For entry', async () => {
+    const limiter = new RateLimiter({ requests: 2, per: 60000 });
+    const results = [];
+    for (const spoofed of ['1.1.1.1', '2.2.2.2', '3.3.3.3']) {
+      const headers = new Headers({ 'x-forwarded-for': `${spoofed}, 198.51.100.7` });
+      results.push((await limiter.consume(await getClientKey(headers))).allowed);
+    }
+    expect(results).toEqual([true, true, false]);
+  });
+});
@@ -0,0 +1,82 @@
+import { ApiError } from '@/lib/api-errors';
+import { field, parseSearchParams } from '@/lib/request-schema';
+
+const schema = {
+  radius: field.number({ min: 0.1, max: 100, default: 25 }),
+  latitude: field.number({ min: -90 }),
+  page: field.integer({ required: true, min: 1 }),
+  verifiedOnly: field.boolean({ param: 'verified', default: false }),
+  q: field.string({ maxLength: 5 }),
+  sort: field.oneOf(['distance', 'quality'] as const, { default: 'distance' }),
+  services: field.list({ maxItems: 2 }),
+  since: field.timestamp()
+};
+
+function parse(query: string) {
+  return parseSearchParams(new URLSearchParams(query), schema);
+}
+
+// The ApiError thrown for a query
+function failure(query: string): ApiError {
+  try {
+    parse(query);
+  } catch (error) {
+    if (error instanceof ApiError) return error;
+    throw error;
+  }
+  throw new Error(`${query} parsed without an error`);
+}
+
+describe('parseSearchParams', () => {
+  it('applies defaults and leaves optional fields undefined', () => {
+    expect(parse('page=1')).toEqual({
+      radius: 25,
+      latitude: undefined,
+      page: 1,
+      verifiedOnly: false,
+      q: undefined,
+      sort: 'distance',
+      services: undefined,
+      since: undefined
+    });
+  });
+
+  it('converts values and reads renamed parameters', () => {
+    expect(parse('page=2&radius=%2010.5%20&verified=true&q=detox&sort=quality&services=a,,b&since=2026-10-01')).toMatchObject({
+      radius: 10.5,
+      page: 2,
+      verifiedOnly: true,
+      q: 'detox',
+      sort: 'quality',
+      services: ['a', 'b'],
+      since: new Date('2026-10-01')
+    });
+    expect(parse('page=1&verifiedOnly=true').verifiedOnly).toBe(false);
+  });
+
+  it('treats blank values as absent', () => {
+    expect(parse('page=1&radius=&services=,').radius).toBe(25);
+    expect(parse('page=1&services=,').services).toBeUndefined();
+    expect(failure('page=%20').message).toBe('page is required');
+  });
+
+  it('names the offending parameter', () => {
+    const cases: Array<[string, string]> = [
+      ['page=1&radius=far', 'radius must be a number'],
+      ['page=1&radius=0', 'radius must be between 0.1 and 100'],
+      ['page=1&latitude=-91', 'latitude must be at least -90'],
+      ['page=1.5', 'page must be an integer'],
+      ['page=1&verified=yes', 'verified must be "true" or "false"'],
+      ['page=1&q=sober living', 'q must be at most 5 characters'],
+      ['page=1&sort=name', 'sort must be one of: distance, quality'],
+      ['page=1&services=a,b,c', 'services must have at most 2 values'],
+      ['page=1&since=yesterday', 'since must be an ISO 8601 date or date-time']
+    ];
+
+    for (const [query, message] of cases) {
+      const error = failure(query);
+      expect(error).toMatchObject({ code: 'VALIDATION_ERROR', status: 400, message });
+      expect(error.field).toBe(message.split(' ')[0]);
+    }
+  });
+});
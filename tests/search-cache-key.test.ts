@@ -0,0 +1,80 @@
+import {
+  buildCacheKey,
+  coveringGeohashes,
+  decodeGeohash,
+  encodeGeohash,
+  snapToGeohash
+} from '@/lib/search-cache-key';
+
+describe('geohash', () => {
+  it('encodes the reference point', () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj');
+    expect(encodeGeohash(-90, -180, 4)).toBe('0000');
+    expect(encodeGeohash(90, 180, 4)).toBe('zzzz');
+  });
+
+  it('decodes to the cell centre', () => {
+    const centre = decodeGeohash('u4pruydqqvj');
+    expect(centre.latitude).toBeCloseTo(57.64911, 5);
+    expect(centre.longitude).toBeCloseTo(10.40744, 5);
+    expect(decodeGeohash('')).toEqual({ latitude: 0, longitude: 0 });
+    expect(() => decodeGeohash('u4a')).toThrow('Invalid geohash character "a"');
+  });
+
+  it('snaps nearby points to one shared centre', () => {
+    const a = snapToGeohash(37.77490, -122.41940, 6);
+    const b = snapToGeohash(37.77500, -122.41900, 6);
+
+    expect(a).toEqual(b);
+    expect(a.geohash).toHaveLength(6);
+    expect(encodeGeohash(a.latitude, a.longitude, 6)).toBe(a.geohash);
+    // Within half a precision-6 cell of the original point
+    expect(Math.abs(a.latitude - 37.7749)).toBeLessThan(0.003);
+    expect(Math.abs(a.longitude + 122.4194)).toBeLessThan(0.006);
+  });
+});
+
+describe('buildCacheKey', () => {
+  it('is the same for equivalent parameters', () => {
+    const key = buildCacheKey('search', {
+      q: 'detox',
+      services: ['residential', 'detox', 'residential'],
+      radius: 25,
+      verified: false
+    });
+
+    expect(key).toBe('search:q=detox&radius=25&services=detox,residential&verified=false');
+    expect(buildCacheKey('search', {
+      verified: false,
+      radius: 25,
+      services: ['detox', 'residential'],
+      q: 'detox',
+      cursor: undefined,
+      insurance: [],
+      location: '',
+      geohash: null
+    })).toBe(key);
+  });
+
+  it('escapes separators inside values', () => {
+    expect(buildCacheKey('search', { q: 'a&b=c', services: ['x,y', 'z'] }))
+      .toBe('search:q=a%26b%3Dc&services=x%2Cy,z');
+  });
+});
+
+describe('coveringGeohashes', () => {
+  it('covers every cell the search circle reaches', () => {
+    // San Francisco sits near the corner of four precision-3 cells
+    expect(coveringGeohashes(37.7749, -122.4194, 25)).toEqual(['9q8', '9q9', '9qb', '9qc']);
+    expect(coveringGeohashes(37.7749, -122.4194, 0.1)).toEqual([encodeGeohash(37.7749, -122.4194, 3)]);
+
+    // A facility 60 miles south is covered by a 100-mile search
+    expect(coveringGeohashes(37.7749, -122.4194, 100)).toContain(encodeGeohash(36.9, -122.0, 3));
+  });
+
+  it('wraps across the antimeridian', () => {
+    const hashes = coveringGeohashes(0, 179.9, 10);
+    expect(hashes).toContain(encodeGeohash(0.1, 179.95, 3));
+    expect(hashes).toContain(encodeGeohash(0.1, -179.95, 3));
+  });
+});
@@ -0,0 +1,51 @@
+import { decodeCursor, encodeCursor, fingerprintQuery, SearchCursor } from '@/lib/search-cursor';
+
+const CURSOR: SearchCursor = { value: 12.5, id: 'facility-9', direction: 'next', query: fingerprintQuery(['detox', 'CA']) };
+
+describe('search cursors', () => {
+  it('round-trips and is deterministic', () => {
+    const token = encodeCursor(CURSOR);
+    expect(encodeCursor(CURSOR)).toBe(token);
+    expect(decodeCursor(token)).toEqual(CURSOR);
+  });
+
+  it('carries the scoring time of time-dependent sorts', () => {
+    const scored = { ...CURSOR, asOf: 1_790_000_000_000 };
+    expect(decodeCursor(encodeCursor(scored))).toEqual(scored);
+    expect(decodeCursor(encodeCursor(CURSOR))).not.toHaveProperty('asOf');
+  });
+
+  it('rejects tampered or malformed tokens', () => {
+    const [payload, signature] = encodeCursor(CURSOR).split('.');
+    const forged = Buffer.from(JSON.stringify([0, 'facility-1', 'next', CURSOR.query])).toString('base64url');
+
+    expect(decodeCursor(`${forged}.${signature}`)).toBeNull();
+    expect(decodeCursor(payload)).toBeNull();
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+  });
+
+  it('fingerprints searches by their parameters', () => {
+    expect(fingerprintQuery(['detox', 'CA'])).toBe(CURSOR.query);
+    expect(fingerprintQuery(['detox', 'NV'])).not.toBe(CURSOR.query);
+  });
+
+  it('refuses the default secret in production', () => {
+    const env = { ...process.env };
+    try {
+      Object.assign(process.env, { NODE_ENV: 'production' });
+      delete process.env.SEARCH_CURSOR_SECRET;
+      jest.isolateModules(() => {
+        expect(() => require('@/lib/search-cursor')).toThrow(/SEARCH_CURSOR_SECRET/);
+      });
+
+      process.env.SEARCH_CURSOR_SECRET = 'a-real-secret';
+      jest.isolateModules(() => {
+        const production: typeof import('@/lib/search-cursor') = require('@/lib/search-cursor');
+        // Tokens signed with another secret don't verify
+        expect(production.decodeCursor(encodeCursor(CURSOR))).toBeNull();
+      });
+    } finally {
+      process.env = env;
+    }
+  });
+});
@@ -0,0 +1,148 @@
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/facilities/search-optimized/route';
+import { memoryOptimizer } from '@/lib/memory-optimizer';
+import { setSupabaseClient } from '@/lib/supabase';
+
+const START = Date.UTC(2026, 9, 19, 12);
+
+let client = 0;
+
+// Each request comes from a new client so the route's rate limit never trips
+function search(query: string) {
+  return GET(new NextRequest(`https://example.com/api/facilities/search-optimized?${query}`, {
+    headers: { 'x-forwarded-for': `198.51.100.${++client}` }
+  }));
+}
+
+function searchRow(id: string, sortKey: number) {
+  return {
+    id,
+    name: `Facility ${id}`,
+    description: null,
+    city: 'San Francisco',
+    state: 'CA',
+    zip: '94103',
+    phone: null,
+    website: null,
+    services: ['detox'],
+    acceptedInsurance: null,
+    amenities: null,
+    programs: null,
+    capacity: 10,
+    verified: true,
+    data_quality: 0.8,
+    latitude: 37.77,
+    longitude: -122.41,
+    availableBeds: null,
+    totalBeds: null,
+    waitlistCount: null,
+    lastConfirmed: null,
+    distance: 1.5,
+    sort_key: sortKey,
+    distance_score: 0.9,
+    quality_score: 0.8,
+    verified_score: 1,
+    availability_score: 0,
+    text_score: 0.5,
+    relevance_score: -sortKey,
+    name_highlight: null,
+    snippet: null
+  };
+}
+
+describe('GET /api/facilities/search-optimized', () => {
+  let rpc: jest.Mock;
+
+  beforeEach(() => {
+    rpc = jest.fn(async () => ({ data: [], error: null }));
+    setSupabaseClient({ rpc });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  afterAll(() => {
+    memoryOptimizer.stopMonitoring();
+  });
+
+  it('searches around a resolved ZIP code with a widened radius', async () => {
+    const response = await search('location=94103&radius=5&services=detox');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.resolvedLocation).toMatchObject({ precision: 'zip3', label: '94103 (San Francisco, CA)' });
+    expect(body.searchParams.radius).toBe(30);
+    expect(rpc).toHaveBeenCalledWith('search_facilities_nearby', expect.objectContaining({
+      radius_miles: 30,
+      service_filter: ['detox'],
+      sort_mode: 'distance',
+      reference_time: null
+    }));
+  });
+
+  it('rejects locations it cannot search around', async () => {
+    const state = await search('location=California');
+    expect(state.status).toBe(400);
+    await expect(state.json()).resolves.toMatchObject({
+      error: { code: 'VALIDATION_ERROR', field: 'location', message: expect.stringContaining('whole state') }
+    });
+
+    const unknown = await search('location=Atlantis');
+    await expect(unknown.json()).resolves.toMatchObject({ error: { field: 'location' } });
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('requires a location or a text query', async () => {
+    const response = await search('services=detox');
+    await expect(response.json()).resolves.toMatchObject({ error: { code: 'VALIDATION_ERROR', field: 'location' } });
+
+    const halfCoordinates = await search('latitude=37.7');
+    await expect(halfCoordinates.json()).resolves.toMatchObject({ error: { field: 'longitude' } });
+  });
+
+  it('scores every page of a relevance search as of the first page', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(START);
+    rpc.mockResolvedValue({ data: [searchRow('a', -0.9), searchRow('b', -0.8), searchRow('c', -0.7)], error: null });
+
+    const first = await (await search('q=serenity&latitude=37.77&longitude=-122.41&limit=2')).json();
+    expect(first.facilities.map((facility: { id: string }) => facility.id)).toEqual(['a', 'b']);
+    expect(first.pagination.prev).toBeNull();
+    expect(rpc).toHaveBeenLastCalledWith('search_facilities_nearby', expect.objectContaining({
+      sort_mode: 'relevance',
+      max_results: 3,
+      cursor_value: null,
+      reference_time: new Date(START).toISOString()
+    }));
+
+    // Days later the next page still uses the first page's scoring time
+    now.mockReturnValue(START + 3 * 24 * 60 * 60 * 1000);
+    rpc.mockResolvedValue({ data: [searchRow('c', -0.7)], error: null });
+    const second = await (await search(first.pagination.next.split('?')[1])).json();
+
+    expect(second.facilities.map((facility: { id: string }) => facility.id)).toEqual(['c']);
+    expect(second.pagination.next).toBeNull();
+    expect(second.pagination.prev).not.toBeNull();
+    expect(rpc).toHaveBeenLastCalledWith('search_facilities_nearby', expect.objectContaining({
+      cursor_value: -0.8,
+      cursor_id: 'b',
+      reverse_order: false,
+      reference_time: new Date(START).toISOString()
+    }));
+  });
+
+  it('rejects cursors from another search', async () => {
+    rpc.mockResolvedValue({ data: [searchRow('a', 1), searchRow('b', 2)], error: null });
+    const first = await (await search('latitude=40.71&longitude=-74.0&limit=1')).json();
+    const cursor = new URL(first.pagination.next, 'https://example.com').searchParams.get('cursor');
+
+    const response = await search(`latitude=40.71&longitude=-74.0&limit=1&verified=true&cursor=${cursor}`);
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({ error: { field: 'cursor' } });
+  });
+
+  it('serves repeated searches from memory', async () => {
+    const query = 'latitude=34.05&longitude=-118.24&radius=10';
+    expect((await search(query)).headers.get('X-Cache')).toBe('MISS');
+    expect((await search(query)).headers.get('X-Cache')).toBe('HIT-MEMORY');
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+});
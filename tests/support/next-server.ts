@@ -0,0 +1,37 @@
+/**
+ * next/server test double
+ * The slice of NextRequest and NextResponse the routes and middleware use,
+ * built on the Fetch API classes in Node.
+ */
+
+export class NextRequest extends Request {
+  readonly nextUrl: URL;
+  ip?: string;
+
+  constructor(input: string | URL, init?: RequestInit) {
+    super(input, init);
+    this.nextUrl = new URL(this.url);
+  }
+}
+
+export class NextFetchEvent {
+  readonly pending: Array<Promise<unknown>> = [];
+
+  waitUntil(promise: Promise<unknown>): void {
+    this.pending.push(promise);
+  }
+}
+
+export class NextResponse<T = unknown> extends Response {
+  static json<B>(body: B, init?: ResponseInit): NextResponse<B> {
+    const headers = new Headers(init?.headers);
+    if (!headers.has('content-type')) {
+      headers.set('content-type', 'application/json');
+    }
+    return new NextResponse<B>(JSON.stringify(body), { ...init, headers });
+  }
+
+  static next(init?: { request?: { headers?: Headers }; headers?: HeadersInit }): NextResponse {
+    return new NextResponse(null, { headers: init?.headers });
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * @/lib/supabase test double
+ * Tests install a client with setSupabaseClient(); queryResult() builds a
+ * chainable query that records its calls and resolves to a fixed result.
+ */
+
+export interface QueryResult {
+  data?: unknown;
+  error?: unknown;
+  count?: number | null;
+}
+
+// Every query method chains; .calls lists them in order
+export type RecordedQuery = any;
+
+let client: any = null;
+
+export function setSupabaseClient(next: any): void {
+  client = next;
+}
+
+export function createClient(): any {
+  if (!client) {
+    throw new Error('No Supabase client installed; call setSupabaseClient() first');
+  }
+  return client;
+}
+
+export function queryResult(result: QueryResult): RecordedQuery {
+  const calls: Array<[string, unknown[]]> = [];
+  const settled = { data: result.data ?? null, error: result.error ?? null, count: result.count ?? null };
+
+  const query: any = new Proxy({}, {
+    get(_target, property) {
+      if (property === 'calls') return calls;
+      if (property === 'then') {
+        return (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) =>
+          Promise.resolve(settled).then(resolve, reject);
+      }
+      return (...args: unknown[]) => {
+        calls.push([String(property), args]);
+        return query;
+      };
+    }
+  });
+  return query;
+}
+
+type Row = Record<string, any>;
+
+// Read-only query over in-memory rows supporting the filters the modules use
+export function tableQuery(rows: Row[]): RecordedQuery {
+  const calls: Array<[string, unknown[]]> = [];
+  const filters: Array<(row: Row) => boolean> = [];
+  let order: { column: string; ascending: boolean } | null = null;
+  let limit: number | null = null;
+  let single: 'single' | 'maybeSingle' | null = null;
+
+  const run = () => {
+    let result = rows.filter(row => filters.every(filter => filter(row)));
+    if (order) {
+      const { column, ascending } = order;
+      result = [...result].sort((a, b) =>
+        (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1)
+      );
+    }
+    if (limit !== null) {
+      result = result.slice(0, limit);
+    }
+    if (single) {
+      if (result.length === 0 && single === 'single') {
+        return { data: null, error: { message: 'No rows found' } };
+      }
+      return { data: result[0] ?? null, error: null };
+    }
+    return { data: result, error: null };
+  };
+
+  const handlers: Record<string, (...args: any[]) => void> = {
+    select: () => {},
+    eq: (column: string, value: unknown) => filters.push(row => row[column] === value),
+    neq: (column: string, value: unknown) => filters.push(row => row[column] !== value),
+    gt: (column: string, value: any) => filters.push(row => row[column] > value),
+    gte: (column: string, value: any) => filters.push(row => row[column] >= value),
+    lt: (column: string, value: any) => filters.push(row => row[column] < value),
+    lte: (column: string, value: any) => filters.push(row => row[column] <= value),
+    in: (column: string, values: unknown[]) => filters.push(row => values.includes(row[column])),
+    order: (column: string, options?: { ascending?: boolean }) => {
+      order = { column, ascending: options?.ascending ?? true };
+    },
+    limit: (count: number) => {
+      limit = count;
+    },
+    single: () => {
+      single = 'single';
+    },
+    maybeSingle: () => {
+      single = 'maybeSingle';
+    }
+  };
+
+  const query: any = new Proxy({}, {
+    get(_target, property) {
+      if (property === 'calls') return calls;
+      if (property === 'then') {
+        return (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) =>
+          Promise.resolve().then(run).then(resolve, reject);
+      }
+      const handler = handlers[String(property)];
+      if (!handler) {
+        throw new Error(`tableQuery does not support .${String(property)}()`);
+      }
+      return (...args: unknown[]) => {
+        calls.push([String(property), args]);
+        handler(...args);
+        return query;
+      };
+    }
+  });
+  return query;
+}
@@ -0,0 +1,54 @@
+import { trace } from '@opentelemetry/api';
+import { formatTraceparent, parseTraceparent, tracer } from '@/lib/tracing';
+
+const PARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+describe('tracing', () => {
+  it('parses and formats traceparent headers', () => {
+    const parent = parseTraceparent(PARENT);
+    expect(parent).toEqual({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', sampled: true });
+    expect(formatTraceparent(parent!)).toBe(PARENT);
+
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull();
+    expect(parseTraceparent('garbage')).toBeNull();
+    expect(parseTraceparent(undefined)).toBeNull();
+  });
+
+  it('continues a remote trace and keeps its sampling decision', () => {
+    const sampled = tracer.startSpan('request', { kind: 'server', parent: parseTraceparent(PARENT) });
+    expect(sampled.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(sampled.context.spanId).not.toBe('00f067aa0ba902b7');
+    expect(sampled.context.sampled).toBe(true);
+    sampled.end();
+
+    const unsampled = tracer.startSpan('request', { parent: parseTraceparent(PARENT.replace(/01$/, '00')) });
+    expect(unsampled.context.sampled).toBe(false);
+    unsampled.end();
+  });
+
+  it('starts a new trace for a null parent', () => {
+    const span = tracer.startSpan('request', { parent: null });
+    expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(span.traceId).not.toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    span.end();
+  });
+
+  it('makes withSpan the active span across awaits', async () => {
+    await tracer.withSpan('outer', { parent: null }, async outer => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      expect(trace.getActiveSpan()?.spanContext().spanId).toBe(outer.context.spanId);
+
+      const child = tracer.startSpan('child');
+      expect(child.traceId).toBe(outer.traceId);
+      child.end();
+    });
+
+    expect(trace.getActiveSpan()).toBeUndefined();
+  });
+
+  it('rethrows from withSpan', async () => {
+    await expect(
+      tracer.withSpan('failing', {}, async () => { throw new Error('boom'); })
+    ).rejects.toThrow('boom');
+  });
+});
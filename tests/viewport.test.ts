@@ -0,0 +1,119 @@
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/facilities/viewport/route';
+import { memoryOptimizer } from '@/lib/memory-optimizer';
+import { setSupabaseClient } from '@/lib/supabase';
+
+let client = 0;
+
+// Each request comes from a new client so the route's rate limit never trips
+function viewport(params: Record<string, string | number>) {
+  const query = new URLSearchParams(Object.entries(params).map(([name, value]) => [name, String(value)]));
+  return GET(new NextRequest(`https://example.com/api/facilities/viewport?${query}`, {
+    headers: { 'x-forwarded-for': `203.0.113.${++client}` }
+  }));
+}
+
+function facilityRow(id: string) {
+  return {
+    id,
+    name: `Facility ${id}`,
+    city: 'Oakland',
+    state: 'CA',
+    zip: '94612',
+    phone: null,
+    website: null,
+    services: ['outpatient'],
+    capacity: 12,
+    verified: true,
+    latitude: 37.8,
+    longitude: -122.27,
+    availableBeds: null,
+    totalBeds: null,
+    waitlistCount: null,
+    lastConfirmed: null
+  };
+}
+
+describe('GET /api/facilities/viewport', () => {
+  let rpc: jest.Mock;
+
+  beforeEach(() => {
+    rpc = jest.fn();
+    setSupabaseClient({ rpc });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  afterAll(() => {
+    memoryOptimizer.stopMonitoring();
+  });
+
+  it('clusters over the snapped viewport and serves repeats from memory', async () => {
+    rpc.mockResolvedValue({
+      data: [
+        { cell_x: 1, cell_y: 2, count: 4, latitude: 37.7, longitude: -122.3, max_lat: 37.9, min_lat: 37.5, max_lng: -122.1, min_lng: -122.5, facility_id: null },
+        { cell_x: 2, cell_y: 2, count: 1, latitude: 37.8, longitude: -121.9, max_lat: 37.8, min_lat: 37.8, max_lng: -121.9, min_lng: -121.9, facility_id: 'facility-9' }
+      ],
+      error: null
+    });
+    const params = { north: 37.9, south: 37.61, east: -122.3, west: -122.55, zoom: 8 };
+
+    const response = await viewport(params);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    expect(body).toMatchObject({ success: true, mode: 'clusters', count: 5, zoom: 8 });
+    expect(body.clusters[1]).toMatchObject({ id: '8:2:2', facilityId: 'facility-9' });
+    expect(rpc).toHaveBeenCalledWith('cluster_facilities_in_viewport', expect.objectContaining({
+      ...body.viewport,
+      cell_size: 360 / 1024
+    }));
+    expect(body.viewport.north).toBeGreaterThanOrEqual(37.9);
+    expect(body.viewport.west).toBeLessThanOrEqual(-122.55);
+
+    const repeat = await viewport(params);
+    expect(repeat.headers.get('X-Cache')).toBe('HIT-MEMORY');
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists facilities once zoomed in and flags truncated results', async () => {
+    rpc.mockResolvedValue({ data: ['a', 'b', 'c'].map(facilityRow), error: null });
+
+    const response = await viewport({ north: 37.81, south: 37.79, east: -122.26, west: -122.28, zoom: 15, limit: 2 });
+    const body = await response.json();
+
+    expect(body).toMatchObject({ mode: 'facilities', count: 2, truncated: true });
+    expect(body.facilities.map((facility: { id: string }) => facility.id)).toEqual(['a', 'b']);
+    expect(rpc).toHaveBeenCalledWith('search_facilities_in_viewport', expect.objectContaining({ max_results: 3 }));
+  });
+
+  it('rejects viewports spanning too many clusters for their zoom', async () => {
+    const response = await viewport({ north: 90, south: -90, east: 180, west: -180, zoom: 10 });
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      success: false,
+      error: { code: 'VALIDATION_ERROR', field: 'zoom' }
+    });
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('rejects inverted bounds and a missing zoom', async () => {
+    const inverted = await viewport({ north: 10, south: 20, east: 5, west: 0, zoom: 3 });
+    expect(inverted.status).toBe(400);
+
+    const noZoom = await viewport({ north: 20, south: 10, east: 5, west: 0 });
+    await expect(noZoom.json()).resolves.toMatchObject({ error: { code: 'VALIDATION_ERROR', field: 'zoom' } });
+  });
+
+  it('returns a 500 envelope when the database fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    rpc.mockResolvedValue({ data: null, error: { message: 'connection reset' } });
+
+    const response = await viewport({ north: -33.8, south: -33.9, east: 151.3, west: 151.1, zoom: 9 });
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toMatchObject({ error: { code: 'INTERNAL_ERROR' } });
+  });
+});